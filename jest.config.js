@@ -0,0 +1,20 @@
+/**
+ * Jest runs the TypeScript sources as ES modules (the server uses import.meta),
+ * so `npm test` sets --experimental-vm-modules
+ * @type {import('jest').Config}
+ */
+export default {
+  preset: 'ts-jest/presets/default-esm',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  testTimeout: 20000,
+  extensionsToTreatAsEsm: ['.ts'],
+  // Sources import each other with .js suffixes, as Node's ESM resolution requires
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { useESM: true, tsconfig: 'tsconfig.test.json' }],
+  },
+};
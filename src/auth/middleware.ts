@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { CorsOptions } from 'cors';
+import { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { InsufficientScopeError, InvalidTokenError, OAuthError, ServerError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { CONFIG } from '../config/constants.js';
+import { Clock, systemClock } from '../services/clock.js';
+import { ClientRateLimiter } from './rate-limit.js';
+import { getOwnerId } from './verifiers.js';
+import { logger, runWithLogContext } from '../utils/logger.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    // Verified token, read by StreamableHTTPServerTransport and passed to handlers as authInfo
+    auth?: AuthInfo;
+  }
+}
+
+export const PROTECTED_RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+/**
+ * Public URL of the MCP endpoint, from MCP_SERVER_URL or the request's host
+ */
+export const getServerUrl = (req: Request): string => {
+  return CONFIG.MCP_SERVER_URL || `${req.protocol}://${req.get('host')}/mcp`;
+};
+
+/**
+ * URL of the OAuth protected resource metadata for this server (RFC 9728)
+ */
+export const getResourceMetadataUrl = (req: Request): string => {
+  return new URL(PROTECTED_RESOURCE_METADATA_PATH, getServerUrl(req)).href;
+};
+
+/**
+ * Middleware that requires a valid bearer token (API key or OAuth access token)
+ * and stores the verified token on req.auth, where the MCP transport passes it
+ * on to tool handlers
+ * @param verifier Token verifier for the configured auth mode
+ * @param options.requiredScopes Scopes every token must have
+ * @param options.clock Clock used to check token expiry
+ */
+export const requireAuth = (
+  verifier: OAuthTokenVerifier,
+  options: { requiredScopes?: string[], clock?: Clock } = {}
+): RequestHandler => {
+  const requiredScopes = options.requiredScopes || [];
+  const clock = options.clock || systemClock;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    let authInfo: AuthInfo;
+    try {
+      const [type, token] = (req.headers.authorization || '').split(' ');
+      if (!type) {
+        throw new InvalidTokenError('Missing Authorization header');
+      }
+      if (type.toLowerCase() !== 'bearer' || !token) {
+        throw new InvalidTokenError("Invalid Authorization header format, expected 'Bearer TOKEN'");
+      }
+
+      authInfo = await verifier.verifyAccessToken(token);
+
+      // API keys do not expire; OAuth tokens are also checked by the verifier
+      if (authInfo.expiresAt !== undefined && authInfo.expiresAt < clock.now() / 1000) {
+        throw new InvalidTokenError('Token has expired');
+      }
+
+      if (!requiredScopes.every(scope => authInfo.scopes.includes(scope))) {
+        throw new InsufficientScopeError(`Token is missing required scopes: ${requiredScopes.join(' ')}`);
+      }
+    } catch (error) {
+      if (error instanceof InvalidTokenError || error instanceof InsufficientScopeError) {
+        let challenge = `Bearer error="${error.errorCode}", error_description="${error.message.replace(/"/g, "'")}"`;
+        if (CONFIG.AUTH_MODE === 'oauth') {
+          challenge += `, resource_metadata="${getResourceMetadataUrl(req)}"`;
+        }
+        res.set('WWW-Authenticate', challenge);
+        res.status(error instanceof InvalidTokenError ? 401 : 403).json(error.toResponseObject());
+      } else if (error instanceof ServerError) {
+        logger.error('Authentication failed', { error: error.message });
+        res.status(500).json(error.toResponseObject());
+      } else if (error instanceof OAuthError) {
+        res.status(400).json(error.toResponseObject());
+      } else {
+        logger.error('Authentication failed', { error });
+        res.status(500).json(new ServerError('Internal Server Error').toResponseObject());
+      }
+      return;
+    }
+
+    req.auth = authInfo;
+    runWithLogContext({ client_id: authInfo.clientId }, next);
+  };
+};
+
+/**
+ * Middleware that limits requests per authenticated client, and per user of an
+ * OAuth client (see getOwnerId); must run after requireAuth. API keys can set
+ * their own limit.
+ * @param limiter Rate limiter holding the per-client counts
+ */
+export const rateLimitByClient = (limiter: ClientRateLimiter = new ClientRateLimiter()): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth) {
+      next();
+      return;
+    }
+
+    const keyLimit = req.auth.extra?.rateLimitPerMinute;
+    const limit = typeof keyLimit === 'number' ? keyLimit : CONFIG.RATE_LIMIT_PER_MINUTE;
+    const result = limiter.consume(getOwnerId(req.auth), limit);
+    const resetSeconds = Math.ceil(result.resetMs / 1000);
+
+    res.set('RateLimit-Limit', String(result.limit));
+    res.set('RateLimit-Remaining', String(result.remaining));
+    res.set('RateLimit-Reset', String(resetSeconds));
+
+    if (!result.allowed) {
+      res.set('Retry-After', String(resetSeconds));
+      res.status(429).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message: `Rate limit of ${result.limit} requests per minute exceeded, retry in ${resetSeconds} seconds`,
+        },
+        id: null,
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * CORS options for the configured allow-list. "*" allows every origin but
+ * without credentials, which are only allowed for origins listed explicitly;
+ * an empty list allows no cross-origin requests.
+ */
+export const createCorsOptions = (allowedOrigins: string[] = CONFIG.CORS_ALLOWED_ORIGINS): CorsOptions => {
+  const anyOrigin = allowedOrigins.includes('*');
+  return {
+    origin: anyOrigin ? '*' : allowedOrigins.length > 0 ? allowedOrigins : false,
+    credentials: !anyOrigin && allowedOrigins.length > 0,
+    // Browser clients need these to keep a session and to discover how to authenticate
+    exposedHeaders: ['Mcp-Session-Id', 'WWW-Authenticate', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'],
+  };
+};
+
+/**
+ * Serves OAuth protected resource metadata so MCP clients can discover the
+ * authorization server that issues tokens for this server
+ */
+export const protectedResourceMetadataHandler = (req: Request, res: Response) => {
+  res.json({
+    resource: getServerUrl(req),
+    authorization_servers: CONFIG.OAUTH_ISSUER ? [CONFIG.OAUTH_ISSUER] : [],
+    scopes_supported: CONFIG.OAUTH_REQUIRED_SCOPES,
+    bearer_methods_supported: ['header'],
+    resource_name: 'TableCheck MCP Server',
+  });
+};
@@ -0,0 +1,57 @@
+import { Clock, systemClock } from '../services/clock.js';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Milliseconds until the current window resets
+  resetMs: number;
+}
+
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * Per-client request limit over fixed one-minute windows
+ */
+export class ClientRateLimiter {
+  private windows = new Map<string, { startedAt: number, count: number }>();
+
+  constructor(private clock: Clock = systemClock) {}
+
+  /**
+   * Counts a request for a client
+   * @param clientId Authenticated client ID
+   * @param limitPerMinute Requests allowed per minute for this client
+   * @returns Whether the request is allowed and how much of the limit is left
+   */
+  consume(clientId: string, limitPerMinute: number): RateLimitResult {
+    const now = this.clock.now();
+    let window = this.windows.get(clientId);
+
+    if (!window || now - window.startedAt >= WINDOW_MS) {
+      this.prune(now);
+      window = { startedAt: now, count: 0 };
+      this.windows.set(clientId, window);
+    }
+
+    window.count++;
+
+    return {
+      allowed: window.count <= limitPerMinute,
+      limit: limitPerMinute,
+      remaining: Math.max(0, limitPerMinute - window.count),
+      resetMs: window.startedAt + WINDOW_MS - now,
+    };
+  }
+
+  /**
+   * Forgets windows that have ended so idle clients do not accumulate
+   */
+  private prune(now: number): void {
+    this.windows.forEach((window, clientId) => {
+      if (now - window.startedAt >= WINDOW_MS) {
+        this.windows.delete(clientId);
+      }
+    });
+  }
+}
@@ -0,0 +1,308 @@
+import { createHash, createPublicKey, timingSafeEqual, verify, JsonWebKey, KeyObject, constants as cryptoConstants } from 'crypto';
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import { InvalidTokenError, ServerError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { CONFIG } from '../config/constants.js';
+import { ApiKeyConfig } from '../types/index.js';
+import { Clock, systemClock } from '../services/clock.js';
+
+/**
+ * JSON Web Key Set as served by an authorization server's jwks_uri
+ */
+export interface JsonWebKeySet {
+  keys: JsonWebKey[];
+}
+
+export interface JwksVerifierOptions {
+  // Expected "iss" claim
+  issuer?: string;
+  // Expected "aud" claim (one of, if the token has several)
+  audience?: string;
+  // How long a fetched key set is reused
+  cacheMs?: number;
+  clock?: Clock;
+}
+
+interface SignatureAlgorithm {
+  hash: string | null;
+  keyTypes: string[];
+  pss?: boolean;
+  ecdsa?: boolean;
+}
+
+// Decoded JWT header or claims; every field comes from the token, so none is trusted
+type JwtFields = Record<string, unknown>;
+
+// Asymmetric JWS algorithms only; shared-secret (HS*) and "none" tokens are rejected.
+// A Map, so "alg" values such as "constructor" do not find inherited properties.
+const ALGORITHMS = new Map<string, SignatureAlgorithm>([
+  ['RS256', { hash: 'sha256', keyTypes: ['rsa'] }],
+  ['RS384', { hash: 'sha384', keyTypes: ['rsa'] }],
+  ['RS512', { hash: 'sha512', keyTypes: ['rsa'] }],
+  ['PS256', { hash: 'sha256', keyTypes: ['rsa', 'rsa-pss'], pss: true }],
+  ['PS384', { hash: 'sha384', keyTypes: ['rsa', 'rsa-pss'], pss: true }],
+  ['PS512', { hash: 'sha512', keyTypes: ['rsa', 'rsa-pss'], pss: true }],
+  ['ES256', { hash: 'sha256', keyTypes: ['ec'], ecdsa: true }],
+  ['ES384', { hash: 'sha384', keyTypes: ['ec'], ecdsa: true }],
+  ['ES512', { hash: 'sha512', keyTypes: ['ec'], ecdsa: true }],
+  ['EdDSA', { hash: null, keyTypes: ['ed25519', 'ed448'] }],
+]);
+
+// Allowed difference between our clock and the authorization server's
+const CLOCK_SKEW_SECONDS = 60;
+
+// Minimum time between key set refreshes triggered by an unknown key ID
+const MIN_REFRESH_INTERVAL_MS = 60 * 1000;
+
+const sha256 = (value: string): Buffer => createHash('sha256').update(value).digest();
+
+// Configured URLs are stored without trailing slashes, so claims are compared the same way
+const trimSlashes = (value: unknown): unknown => typeof value === 'string' ? value.replace(/\/+$/, '') : value;
+
+/**
+ * Verifies static bearer API keys from configuration
+ */
+export class ApiKeyVerifier implements OAuthTokenVerifier {
+  private clients: { hash: Buffer, apiKey: ApiKeyConfig }[];
+
+  constructor(apiKeys: ApiKeyConfig[]) {
+    this.clients = apiKeys.map(apiKey => ({ hash: sha256(apiKey.key), apiKey }));
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    // Compare fixed-length hashes in constant time so response times do not leak key prefixes
+    const hash = sha256(token);
+    const client = this.clients.find(candidate => timingSafeEqual(candidate.hash, hash));
+    if (!client) {
+      throw new InvalidTokenError('Invalid API key');
+    }
+
+    return {
+      token: token,
+      clientId: client.apiKey.client_id,
+      scopes: [],
+      extra: { rateLimitPerMinute: client.apiKey.rate_limit_per_minute },
+    };
+  }
+}
+
+/**
+ * Verifies OAuth 2.1 access tokens issued as JWTs, checking the signature
+ * against the authorization server's key set and the issuer, audience and
+ * validity period claims
+ */
+export class JwksTokenVerifier implements OAuthTokenVerifier {
+  private keySet?: JsonWebKeySet;
+  private fetchedAt = 0;
+  private clock: Clock;
+
+  /**
+   * @param source URL of the key set (jwks_uri), or a key set to use as is
+   * @param options Expected claims and caching
+   */
+  constructor(
+    private source: string | JsonWebKeySet,
+    private options: JwksVerifierOptions = {}
+  ) {
+    this.clock = options.clock || systemClock;
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new InvalidTokenError('Malformed access token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = decodeSegment(encodedHeader);
+    const payload = decodeSegment(encodedPayload);
+
+    const algorithm = typeof header.alg === 'string' ? ALGORITHMS.get(header.alg) : undefined;
+    if (!algorithm) {
+      throw new InvalidTokenError(`Unsupported token algorithm ${JSON.stringify(header.alg)}`);
+    }
+
+    const key = await this.getKey(typeof header.kid === 'string' ? header.kid : undefined);
+    if (!algorithm.keyTypes.includes(key.asymmetricKeyType || '')) {
+      throw new InvalidTokenError(`Key does not match token algorithm ${header.alg}`);
+    }
+
+    const signed = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    const valid = verify(algorithm.hash, signed, {
+      key: key,
+      ...(algorithm.pss ? { padding: cryptoConstants.RSA_PKCS1_PSS_PADDING, saltLength: cryptoConstants.RSA_PSS_SALTLEN_DIGEST } : {}),
+      ...(algorithm.ecdsa ? { dsaEncoding: 'ieee-p1363' as const } : {}),
+    }, signature);
+    if (!valid) {
+      throw new InvalidTokenError('Invalid token signature');
+    }
+
+    const expiresAt = this.checkClaims(payload);
+
+    const clientId = payload.client_id || payload.azp || payload.sub;
+    if (typeof clientId !== 'string' || clientId === '') {
+      throw new InvalidTokenError('Token does not identify a client');
+    }
+
+    return {
+      token: token,
+      clientId: clientId,
+      scopes: typeof payload.scope === 'string'
+        ? payload.scope.split(' ').filter(scope => scope !== '')
+        : Array.isArray(payload.scp) ? payload.scp.filter((scope): scope is string => typeof scope === 'string') : [],
+      expiresAt: expiresAt,
+      extra: { subject: typeof payload.sub === 'string' ? payload.sub : undefined },
+    };
+  }
+
+  /**
+   * Checks the validity period, issuer and audience claims
+   * @returns Expiration time (seconds since the epoch)
+   */
+  private checkClaims(payload: JwtFields): number {
+    const now = Math.floor(this.clock.now() / 1000);
+
+    if (typeof payload.exp !== 'number') {
+      throw new InvalidTokenError('Token has no expiration time');
+    }
+    if (payload.exp < now - CLOCK_SKEW_SECONDS) {
+      throw new InvalidTokenError('Token has expired');
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf > now + CLOCK_SKEW_SECONDS) {
+      throw new InvalidTokenError('Token is not valid yet');
+    }
+    if (this.options.issuer && trimSlashes(payload.iss) !== trimSlashes(this.options.issuer)) {
+      throw new InvalidTokenError('Token was issued by an unexpected issuer');
+    }
+    if (this.options.audience) {
+      const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+      if (!audiences.map(trimSlashes).includes(trimSlashes(this.options.audience))) {
+        throw new InvalidTokenError('Token was not issued for this server');
+      }
+    }
+    return payload.exp;
+  }
+
+  /**
+   * Finds the verification key for a key ID, refreshing the key set when the
+   * ID is unknown (the authorization server may have rotated its keys)
+   */
+  private async getKey(kid?: string): Promise<KeyObject> {
+    const now = this.clock.now();
+    const cacheMs = this.options.cacheMs ?? CONFIG.OAUTH_JWKS_CACHE_MS;
+
+    if (!this.keySet || now - this.fetchedAt > cacheMs) {
+      await this.refresh();
+    }
+
+    let jwk = findKey(this.keySet!, kid);
+    if (!jwk && now - this.fetchedAt > MIN_REFRESH_INTERVAL_MS) {
+      await this.refresh();
+      jwk = findKey(this.keySet!, kid);
+    }
+    if (!jwk) {
+      throw new InvalidTokenError(kid ? `Unknown signing key ${kid}` : 'Token does not name a signing key');
+    }
+
+    try {
+      return createPublicKey({ key: jwk, format: 'jwk' });
+    } catch (error) {
+      throw new ServerError(`Invalid key ${kid || ''} in key set`.trim());
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    if (typeof this.source !== 'string') {
+      this.keySet = this.source;
+      this.fetchedAt = this.clock.now();
+      return;
+    }
+
+    let keySet: unknown;
+    try {
+      const response = await fetch(this.source, {
+        headers: { 'Accept': 'application/json' },
+        signal: AbortSignal.timeout(CONFIG.HTTP_CLIENT.timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      keySet = await response.json();
+    } catch (error) {
+      throw new ServerError(`Cannot fetch signing keys from ${this.source}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!keySet || !Array.isArray((keySet as JsonWebKeySet).keys)) {
+      throw new ServerError(`Signing keys from ${this.source} are not a JSON Web Key Set`);
+    }
+    this.keySet = keySet as JsonWebKeySet;
+    this.fetchedAt = this.clock.now();
+  }
+}
+
+/**
+ * Decodes a base64url JSON segment of a JWT
+ */
+const decodeSegment = (segment: string): JwtFields => {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value as JwtFields;
+    }
+  } catch (error) {
+    // Reported below
+  }
+  throw new InvalidTokenError('Malformed access token');
+};
+
+/**
+ * Picks the signing key for a key ID; tokens without one can only use a key set with a single key
+ */
+const findKey = (keySet: JsonWebKeySet, kid?: string) => {
+  const signingKeys = keySet.keys.filter(key => key.use === undefined || key.use === 'sig');
+  if (kid) {
+    return signingKeys.find(key => key.kid === kid);
+  }
+  return signingKeys.length === 1 ? signingKeys[0] : undefined;
+};
+
+/**
+ * Creates the token verifier for the configured auth mode
+ * @returns Verifier, or undefined when auth is disabled
+ */
+export const createTokenVerifier = (): OAuthTokenVerifier | undefined => {
+  switch (CONFIG.AUTH_MODE) {
+    case 'api-key':
+      return new ApiKeyVerifier(CONFIG.API_KEYS);
+
+    case 'oauth':
+      return new JwksTokenVerifier(CONFIG.OAUTH_JWKS_URL, {
+        issuer: CONFIG.OAUTH_ISSUER || undefined,
+        audience: CONFIG.OAUTH_AUDIENCE || CONFIG.MCP_SERVER_URL,
+      });
+
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Identifies who owns watches, sessions and rate limit counts: the client for
+ * API keys, or the client and the token's subject for OAuth, so the users of
+ * one app are kept apart
+ * @param authInfo Verified token, if the request was authenticated
+ * @returns Owner ID, or undefined when auth is disabled
+ */
+export function getOwnerId(authInfo: AuthInfo): string;
+export function getOwnerId(authInfo: AuthInfo | undefined): string | undefined;
+export function getOwnerId(authInfo: AuthInfo | undefined): string | undefined {
+  if (!authInfo) {
+    return undefined;
+  }
+  const subject = authInfo.extra?.subject;
+  // The client ID is escaped so different client and subject pairs cannot give the same ID
+  return typeof subject === 'string' && subject !== authInfo.clientId
+    ? `${encodeURIComponent(authInfo.clientId)}:${subject}`
+    : authInfo.clientId;
+}
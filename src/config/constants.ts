@@ -1,14 +1,79 @@
+import { LOCALES } from './locales.js';
+import { ApiKeyConfig, AuthMode, LogLevel } from '../types/index.js';
+
 export const CONFIG = {
   API_BASE_URL: 'https://production.tablecheck.com/v2',
+  RESERVATION_BASE_URL: 'https://www.tablecheck.com',
   SHOP_UNIVERSE_ID: '57e0b91744aea12988000001',
   DEFAULT_LOCATION: {
     lat: 35.6762,  // Tokyo Station
     lng: 139.6503
   },
   DEFAULT_LOCALE: 'en',
-  SUPPORTED_LOCALES: ['en'] as const,
+  SUPPORTED_LOCALES: LOCALES,
   DEFAULT_SERVICE_MODE: 'dining',
   DEFAULT_VENUE_TYPE: 'all',
   DEFAULT_PER_PAGE: 50,
-  DEFAULT_AVAILABILITY_DAYS: 7
+  MAX_PER_PAGE: 100,
+  // Matches fetched for searches filtered or ranked after the API (exclude_tags, budgets for any meal,
+  // relevance), which are paged locally
+  MAX_LOCALLY_PAGED_RESULTS: 500,
+  DEFAULT_AVAILABILITY_DAYS: 7,
+  MAX_AVAILABILITY_DAYS: 31,
+  DEFAULT_SHOP_TIMEZONE: 'Asia/Tokyo',
+  // Time assumed for availability when a search names a meal period but no time
+  MEAL_PERIOD_TIMES: {
+    lunch: '12:00',
+    dinner: '19:00'
+  },
+  MAX_COMPARE_SHOPS: 10,
+  MAX_CONCURRENT_REQUESTS: 4,
+  DEFAULT_FIND_TABLE_CANDIDATES: 10,
+  MAX_FIND_TABLE_CANDIDATES: 20,
+  CACHE_STORE: 'memory',
+  CACHE_DIR: '.cache/tablecheck',
+  CACHE_MAX_ENTRIES: 500,
+  CACHE_TTLS: {
+    cuisines: 24 * 60 * 60 * 1000,
+    autocomplete: 10 * 60 * 1000,
+    shop_search: 60 * 1000,
+    shop_details: 10 * 60 * 1000,
+    availability_calendar: 30 * 1000
+  } as Record<string, number>,
+  HTTP_CLIENT: {
+    timeoutMs: 10000,
+    maxRetries: 3,
+    baseDelayMs: 250,
+    maxDelayMs: 4000,
+    maxRetryAfterMs: 10000,
+    rateLimitCapacity: 10,
+    rateLimitPerSecond: 5
+  },
+  GEOCODER_URL: '',
+  GEOCODER_TIMEOUT_MS: 5000,
+  // JSON rate table ({ base, rates, updated_at }); the bundled table is used when empty
+  EXCHANGE_RATES_PATH: '',
+  EXCHANGE_RATES_REFRESH_MS: 60 * 60 * 1000,
+  // Currency every shop in the universe is priced in, which the API compares
+  // budgets with; empty for universes that mix currencies
+  SHOP_UNIVERSE_CURRENCY: 'JPY',
+  WATCH_STORE: 'file',
+  WATCH_STORE_PATH: '.data/watches.json',
+  WATCH_POLL_INTERVAL_MS: 60 * 1000,
+  WATCH_WEBHOOK_URL: '',
+  MAX_ACTIVE_WATCHES: 100,
+  MCP_SESSION_MODE: 'stateless',
+  MCP_SESSION_IDLE_TIMEOUT_MS: 30 * 60 * 1000,
+  MAX_MCP_SESSIONS: 1000,
+  AUTH_MODE: 'none' as AuthMode,
+  API_KEYS: [] as ApiKeyConfig[],
+  OAUTH_ISSUER: '',
+  OAUTH_JWKS_URL: '',
+  OAUTH_AUDIENCE: '',
+  OAUTH_REQUIRED_SCOPES: [] as string[],
+  OAUTH_JWKS_CACHE_MS: 10 * 60 * 1000,
+  MCP_SERVER_URL: '',
+  RATE_LIMIT_PER_MINUTE: 120,
+  CORS_ALLOWED_ORIGINS: ['*'] as string[],
+  LOG_LEVEL: 'info' as LogLevel
 }; 
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { ExchangeRates } from '../types/index.js';
+
+/**
+ * Bundled exchange rates used when no rates file is configured. These are
+ * approximate reference rates for showing prices and budgets in a guest's
+ * currency, not for payment; set EXCHANGE_RATES_PATH to use current rates.
+ */
+export const EXCHANGE_RATES: ExchangeRates = {
+  base: 'USD',
+  updated_at: '2026-10-01',
+  rates: {
+    USD: 1,
+    JPY: 149.5,
+    AED: 3.673,
+    AUD: 1.52,
+    CAD: 1.38,
+    CHF: 0.8,
+    CNY: 7.12,
+    EUR: 0.86,
+    GBP: 0.75,
+    HKD: 7.78,
+    IDR: 16500,
+    INR: 88.7,
+    KRW: 1400,
+    MYR: 4.21,
+    NZD: 1.72,
+    PHP: 58.1,
+    SGD: 1.29,
+    THB: 32.4,
+    TWD: 30.5,
+    VND: 26300,
+  },
+};
@@ -0,0 +1,182 @@
+/**
+ * Neighborhoods in the Tokyo area, used by the built-in location table
+ */
+export const TOKYO_LOCATIONS: Record<string, { lat: number, lng: number }> = {
+  'shibuya': { lat: 35.6596, lng: 139.7006 },
+  'shinjuku': { lat: 35.6938, lng: 139.7034 },
+  'tokyo station': { lat: 35.6812, lng: 139.7671 },
+  'ginza': { lat: 35.6717, lng: 139.7653 },
+  'harajuku': { lat: 35.6703, lng: 139.7027 },
+  'roppongi': { lat: 35.6627, lng: 139.7321 },
+  'akasaka': { lat: 35.6735, lng: 139.7377 },
+  'asakusa': { lat: 35.7148, lng: 139.7967 },
+  'ikebukuro': { lat: 35.7295, lng: 139.7109 },
+  'ueno': { lat: 35.7138, lng: 139.7774 },
+  'nakameguro': { lat: 35.6436, lng: 139.6983 },
+  'ebisu': { lat: 35.6467, lng: 139.7102 },
+  'daikanyama': { lat: 35.6496, lng: 139.6993 },
+  'tsukiji': { lat: 35.6654, lng: 139.7707 },
+  'yokohama': { lat: 35.4437, lng: 139.6380 },
+  'kamakura': { lat: 35.3192, lng: 139.5491 },
+  'odaiba': { lat: 35.6269, lng: 139.7767 },
+  'akihabara': { lat: 35.7022, lng: 139.7742 },
+  'jimbocho': { lat: 35.6952, lng: 139.7577 },
+  'kagurazaka': { lat: 35.7022, lng: 139.7401 },
+  'nihonbashi': { lat: 35.6833, lng: 139.7744 },
+  'marunouchi': { lat: 35.6792, lng: 139.7644 },
+  'otemachi': { lat: 35.6847, lng: 139.7678 },
+  'hibiya': { lat: 35.6739, lng: 139.7593 },
+  'kasumigaseki': { lat: 35.6738, lng: 139.7521 },
+  'toranomon': { lat: 35.6695, lng: 139.7496 },
+  'shimbashi': { lat: 35.6657, lng: 139.7587 },
+  'yurakucho': { lat: 35.6751, lng: 139.7634 },
+  'omote-sando': { lat: 35.6658, lng: 139.7128 },
+  'takeshita-dori': { lat: 35.6703, lng: 139.7027 },
+  'meiji-jingu': { lat: 35.6764, lng: 139.6993 },
+  'yoyogi': { lat: 35.6837, lng: 139.7020 },
+  'sangenjaya': { lat: 35.6430, lng: 139.6685 },
+  'shimokitazawa': { lat: 35.6613, lng: 139.6681 },
+  'kichijoji': { lat: 35.7033, lng: 139.5806 },
+  'shinjuku-south': { lat: 35.6896, lng: 139.7006 },
+  'shinjuku-east': { lat: 35.6938, lng: 139.7051 },
+  'shinjuku-west': { lat: 35.6916, lng: 139.6993 }
+};
+
+export interface GazetteerEntry {
+  name: string;
+  type: 'prefecture' | 'city' | 'area' | 'station';
+  aliases: string[];
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Offline gazetteer of Japanese prefectures, cities, areas and major stations.
+ * Prefectures are located at their capital city.
+ */
+export const JAPAN_GAZETTEER: GazetteerEntry[] = [
+  // Prefectures
+  { name: 'Hokkaido', type: 'prefecture', aliases: ['hokkaido', 'hokkaidō', '北海道'], lat: 43.0642, lng: 141.3469 },
+  { name: 'Aomori', type: 'prefecture', aliases: ['aomori', '青森', '青森県', '青森市'], lat: 40.8244, lng: 140.7400 },
+  { name: 'Iwate', type: 'prefecture', aliases: ['iwate', '岩手', '岩手県'], lat: 39.7036, lng: 141.1527 },
+  { name: 'Miyagi', type: 'prefecture', aliases: ['miyagi', '宮城', '宮城県'], lat: 38.2682, lng: 140.8694 },
+  { name: 'Akita', type: 'prefecture', aliases: ['akita', '秋田', '秋田県', '秋田市'], lat: 39.7186, lng: 140.1024 },
+  { name: 'Yamagata', type: 'prefecture', aliases: ['yamagata', '山形', '山形県', '山形市'], lat: 38.2404, lng: 140.3633 },
+  { name: 'Fukushima', type: 'prefecture', aliases: ['fukushima', '福島', '福島県', '福島市'], lat: 37.7503, lng: 140.4676 },
+  { name: 'Ibaraki', type: 'prefecture', aliases: ['ibaraki', '茨城', '茨城県'], lat: 36.3418, lng: 140.4468 },
+  { name: 'Tochigi', type: 'prefecture', aliases: ['tochigi', '栃木', '栃木県'], lat: 36.5657, lng: 139.8836 },
+  { name: 'Gunma', type: 'prefecture', aliases: ['gunma', '群馬', '群馬県'], lat: 36.3912, lng: 139.0608 },
+  { name: 'Saitama', type: 'prefecture', aliases: ['saitama', '埼玉', '埼玉県', 'さいたま', 'さいたま市'], lat: 35.8569, lng: 139.6489 },
+  { name: 'Chiba', type: 'prefecture', aliases: ['chiba', '千葉', '千葉県', '千葉市'], lat: 35.6047, lng: 140.1233 },
+  { name: 'Tokyo', type: 'prefecture', aliases: ['tokyo', 'tōkyō', '東京', '東京都'], lat: 35.6812, lng: 139.7671 },
+  { name: 'Kanagawa', type: 'prefecture', aliases: ['kanagawa', '神奈川', '神奈川県'], lat: 35.4478, lng: 139.6425 },
+  { name: 'Niigata', type: 'prefecture', aliases: ['niigata', '新潟', '新潟県', '新潟市'], lat: 37.9026, lng: 139.0236 },
+  { name: 'Toyama', type: 'prefecture', aliases: ['toyama', '富山', '富山県', '富山市'], lat: 36.6953, lng: 137.2113 },
+  { name: 'Ishikawa', type: 'prefecture', aliases: ['ishikawa', '石川', '石川県'], lat: 36.5947, lng: 136.6256 },
+  { name: 'Fukui', type: 'prefecture', aliases: ['fukui', '福井', '福井県', '福井市'], lat: 36.0652, lng: 136.2216 },
+  { name: 'Yamanashi', type: 'prefecture', aliases: ['yamanashi', '山梨', '山梨県'], lat: 35.6642, lng: 138.5684 },
+  { name: 'Nagano', type: 'prefecture', aliases: ['nagano', '長野', '長野県', '長野市'], lat: 36.6513, lng: 138.1810 },
+  { name: 'Gifu', type: 'prefecture', aliases: ['gifu', '岐阜', '岐阜県', '岐阜市'], lat: 35.3912, lng: 136.7223 },
+  { name: 'Shizuoka', type: 'prefecture', aliases: ['shizuoka', '静岡', '静岡県', '静岡市'], lat: 34.9769, lng: 138.3831 },
+  { name: 'Aichi', type: 'prefecture', aliases: ['aichi', '愛知', '愛知県'], lat: 35.1802, lng: 136.9066 },
+  { name: 'Mie', type: 'prefecture', aliases: ['mie', '三重', '三重県'], lat: 34.7303, lng: 136.5086 },
+  { name: 'Shiga', type: 'prefecture', aliases: ['shiga', '滋賀', '滋賀県'], lat: 35.0045, lng: 135.8686 },
+  { name: 'Kyoto', type: 'prefecture', aliases: ['kyoto', 'kyōto', '京都', '京都府', '京都市'], lat: 35.0116, lng: 135.7681 },
+  { name: 'Osaka', type: 'prefecture', aliases: ['osaka', 'ōsaka', '大阪', '大阪府', '大阪市'], lat: 34.6937, lng: 135.5023 },
+  { name: 'Hyogo', type: 'prefecture', aliases: ['hyogo', 'hyōgo', '兵庫', '兵庫県'], lat: 34.6913, lng: 135.1830 },
+  { name: 'Nara', type: 'prefecture', aliases: ['nara', '奈良', '奈良県', '奈良市'], lat: 34.6851, lng: 135.8049 },
+  { name: 'Wakayama', type: 'prefecture', aliases: ['wakayama', '和歌山', '和歌山県', '和歌山市'], lat: 34.2260, lng: 135.1675 },
+  { name: 'Tottori', type: 'prefecture', aliases: ['tottori', '鳥取', '鳥取県', '鳥取市'], lat: 35.5039, lng: 134.2383 },
+  { name: 'Shimane', type: 'prefecture', aliases: ['shimane', '島根', '島根県'], lat: 35.4723, lng: 133.0505 },
+  { name: 'Okayama', type: 'prefecture', aliases: ['okayama', '岡山', '岡山県', '岡山市'], lat: 34.6618, lng: 133.9350 },
+  { name: 'Hiroshima', type: 'prefecture', aliases: ['hiroshima', '広島', '広島県', '広島市'], lat: 34.3853, lng: 132.4553 },
+  { name: 'Yamaguchi', type: 'prefecture', aliases: ['yamaguchi', '山口', '山口県', '山口市'], lat: 34.1859, lng: 131.4714 },
+  { name: 'Tokushima', type: 'prefecture', aliases: ['tokushima', '徳島', '徳島県', '徳島市'], lat: 34.0658, lng: 134.5593 },
+  { name: 'Kagawa', type: 'prefecture', aliases: ['kagawa', '香川', '香川県'], lat: 34.3401, lng: 134.0434 },
+  { name: 'Ehime', type: 'prefecture', aliases: ['ehime', '愛媛', '愛媛県'], lat: 33.8417, lng: 132.7661 },
+  { name: 'Kochi', type: 'prefecture', aliases: ['kochi', 'kōchi', '高知', '高知県', '高知市'], lat: 33.5597, lng: 133.5311 },
+  { name: 'Fukuoka', type: 'prefecture', aliases: ['fukuoka', '福岡', '福岡県', '福岡市'], lat: 33.5902, lng: 130.4017 },
+  { name: 'Saga', type: 'prefecture', aliases: ['saga', '佐賀', '佐賀県', '佐賀市'], lat: 33.2494, lng: 130.2988 },
+  { name: 'Nagasaki', type: 'prefecture', aliases: ['nagasaki', '長崎', '長崎県', '長崎市'], lat: 32.7448, lng: 129.8737 },
+  { name: 'Kumamoto', type: 'prefecture', aliases: ['kumamoto', '熊本', '熊本県', '熊本市'], lat: 32.7898, lng: 130.7417 },
+  { name: 'Oita', type: 'prefecture', aliases: ['oita', 'ōita', '大分', '大分県', '大分市'], lat: 33.2382, lng: 131.6126 },
+  { name: 'Miyazaki', type: 'prefecture', aliases: ['miyazaki', '宮崎', '宮崎県', '宮崎市'], lat: 31.9111, lng: 131.4239 },
+  { name: 'Kagoshima', type: 'prefecture', aliases: ['kagoshima', '鹿児島', '鹿児島県', '鹿児島市'], lat: 31.5602, lng: 130.5581 },
+  { name: 'Okinawa', type: 'prefecture', aliases: ['okinawa', '沖縄', '沖縄県'], lat: 26.2124, lng: 127.6809 },
+
+  // Cities
+  { name: 'Sapporo', type: 'city', aliases: ['sapporo', '札幌', '札幌市'], lat: 43.0618, lng: 141.3545 },
+  { name: 'Hakodate', type: 'city', aliases: ['hakodate', '函館', '函館市'], lat: 41.7687, lng: 140.7288 },
+  { name: 'Otaru', type: 'city', aliases: ['otaru', '小樽', '小樽市'], lat: 43.1907, lng: 140.9947 },
+  { name: 'Niseko', type: 'city', aliases: ['niseko', 'ニセコ'], lat: 42.8048, lng: 140.6874 },
+  { name: 'Sendai', type: 'city', aliases: ['sendai', '仙台', '仙台市'], lat: 38.2682, lng: 140.8694 },
+  { name: 'Morioka', type: 'city', aliases: ['morioka', '盛岡', '盛岡市'], lat: 39.7036, lng: 141.1527 },
+  { name: 'Mito', type: 'city', aliases: ['mito', '水戸', '水戸市'], lat: 36.3418, lng: 140.4468 },
+  { name: 'Utsunomiya', type: 'city', aliases: ['utsunomiya', '宇都宮', '宇都宮市'], lat: 36.5551, lng: 139.8826 },
+  { name: 'Nikko', type: 'city', aliases: ['nikko', 'nikkō', '日光', '日光市'], lat: 36.7199, lng: 139.6982 },
+  { name: 'Maebashi', type: 'city', aliases: ['maebashi', '前橋', '前橋市'], lat: 36.3912, lng: 139.0608 },
+  { name: 'Yokohama', type: 'city', aliases: ['yokohama', '横浜', '横浜市'], lat: 35.4437, lng: 139.6380 },
+  { name: 'Kawasaki', type: 'city', aliases: ['kawasaki', '川崎', '川崎市'], lat: 35.5309, lng: 139.7029 },
+  { name: 'Kamakura', type: 'city', aliases: ['kamakura', '鎌倉', '鎌倉市'], lat: 35.3192, lng: 139.5491 },
+  { name: 'Hakone', type: 'city', aliases: ['hakone', '箱根'], lat: 35.2324, lng: 139.1069 },
+  { name: 'Atami', type: 'city', aliases: ['atami', '熱海', '熱海市'], lat: 35.0960, lng: 139.0716 },
+  { name: 'Karuizawa', type: 'city', aliases: ['karuizawa', '軽井沢'], lat: 36.3484, lng: 138.5970 },
+  { name: 'Kofu', type: 'city', aliases: ['kofu', 'kōfu', '甲府', '甲府市'], lat: 35.6642, lng: 138.5684 },
+  { name: 'Kanazawa', type: 'city', aliases: ['kanazawa', '金沢', '金沢市'], lat: 36.5613, lng: 136.6562 },
+  { name: 'Nagoya', type: 'city', aliases: ['nagoya', '名古屋', '名古屋市'], lat: 35.1815, lng: 136.9066 },
+  { name: 'Tsu', type: 'city', aliases: ['tsu', '津', '津市'], lat: 34.7303, lng: 136.5086 },
+  { name: 'Otsu', type: 'city', aliases: ['otsu', 'ōtsu', '大津', '大津市'], lat: 35.0045, lng: 135.8686 },
+  { name: 'Kobe', type: 'city', aliases: ['kobe', 'kōbe', '神戸', '神戸市'], lat: 34.6901, lng: 135.1955 },
+  { name: 'Himeji', type: 'city', aliases: ['himeji', '姫路', '姫路市'], lat: 34.8151, lng: 134.6853 },
+  { name: 'Matsue', type: 'city', aliases: ['matsue', '松江', '松江市'], lat: 35.4723, lng: 133.0505 },
+  { name: 'Takamatsu', type: 'city', aliases: ['takamatsu', '高松', '高松市'], lat: 34.3401, lng: 134.0434 },
+  { name: 'Matsuyama', type: 'city', aliases: ['matsuyama', '松山', '松山市'], lat: 33.8392, lng: 132.7657 },
+  { name: 'Kitakyushu', type: 'city', aliases: ['kitakyushu', 'kitakyūshū', '北九州', '北九州市'], lat: 33.8835, lng: 130.8752 },
+  { name: 'Beppu', type: 'city', aliases: ['beppu', '別府', '別府市'], lat: 33.2846, lng: 131.4914 },
+  { name: 'Naha', type: 'city', aliases: ['naha', '那覇', '那覇市'], lat: 26.2124, lng: 127.6809 },
+  { name: 'Ishigaki', type: 'city', aliases: ['ishigaki', '石垣', '石垣市'], lat: 24.3448, lng: 124.1572 },
+
+  // Areas
+  { name: 'Shibuya', type: 'area', aliases: ['渋谷', '渋谷区'], lat: 35.6596, lng: 139.7006 },
+  { name: 'Shinjuku', type: 'area', aliases: ['新宿', '新宿区'], lat: 35.6938, lng: 139.7034 },
+  { name: 'Ginza', type: 'area', aliases: ['銀座'], lat: 35.6717, lng: 139.7653 },
+  { name: 'Roppongi', type: 'area', aliases: ['六本木'], lat: 35.6627, lng: 139.7321 },
+  { name: 'Asakusa', type: 'area', aliases: ['浅草'], lat: 35.7148, lng: 139.7967 },
+  { name: 'Ebisu', type: 'area', aliases: ['恵比寿'], lat: 35.6467, lng: 139.7102 },
+  { name: 'Omotesando', type: 'area', aliases: ['omotesando', '表参道'], lat: 35.6658, lng: 139.7128 },
+  { name: 'Marunouchi', type: 'area', aliases: ['丸の内'], lat: 35.6792, lng: 139.7644 },
+  { name: 'Minato', type: 'area', aliases: ['minato', '港区'], lat: 35.6581, lng: 139.7516 },
+  { name: 'Umeda', type: 'area', aliases: ['umeda', '梅田'], lat: 34.7025, lng: 135.4959 },
+  { name: 'Namba', type: 'area', aliases: ['namba', 'nanba', '難波', 'なんば'], lat: 34.6662, lng: 135.5008 },
+  { name: 'Shinsaibashi', type: 'area', aliases: ['shinsaibashi', '心斎橋'], lat: 34.6750, lng: 135.5010 },
+  { name: 'Kitashinchi', type: 'area', aliases: ['kitashinchi', 'kita-shinchi', '北新地'], lat: 34.6978, lng: 135.4975 },
+  { name: 'Gion', type: 'area', aliases: ['gion', '祇園'], lat: 35.0037, lng: 135.7788 },
+  { name: 'Arashiyama', type: 'area', aliases: ['arashiyama', '嵐山'], lat: 35.0094, lng: 135.6668 },
+  { name: 'Pontocho', type: 'area', aliases: ['pontocho', 'ponto-cho', '先斗町'], lat: 35.0056, lng: 135.7707 },
+  { name: 'Sannomiya', type: 'area', aliases: ['sannomiya', '三宮', '三ノ宮'], lat: 34.6949, lng: 135.1955 },
+  { name: 'Tenjin', type: 'area', aliases: ['tenjin', '天神'], lat: 33.5903, lng: 130.3990 },
+  { name: 'Nakasu', type: 'area', aliases: ['nakasu', '中洲'], lat: 33.5935, lng: 130.4053 },
+  { name: 'Susukino', type: 'area', aliases: ['susukino', 'すすきの', '薄野'], lat: 43.0556, lng: 141.3530 },
+  { name: 'Sakae', type: 'area', aliases: ['sakae', '栄'], lat: 35.1689, lng: 136.9085 },
+
+  // Major stations
+  { name: 'Tokyo Station', type: 'station', aliases: ['tokyo station', '東京駅'], lat: 35.6812, lng: 139.7671 },
+  { name: 'Shinagawa Station', type: 'station', aliases: ['shinagawa', 'shinagawa station', '品川', '品川駅'], lat: 35.6285, lng: 139.7387 },
+  { name: 'Shinjuku Station', type: 'station', aliases: ['shinjuku station', '新宿駅'], lat: 35.6896, lng: 139.7006 },
+  { name: 'Shibuya Station', type: 'station', aliases: ['shibuya station', '渋谷駅'], lat: 35.6580, lng: 139.7016 },
+  { name: 'Ikebukuro Station', type: 'station', aliases: ['ikebukuro station', '池袋', '池袋駅'], lat: 35.7295, lng: 139.7109 },
+  { name: 'Ueno Station', type: 'station', aliases: ['ueno station', '上野', '上野駅'], lat: 35.7138, lng: 139.7774 },
+  { name: 'Shin-Yokohama Station', type: 'station', aliases: ['shin-yokohama', 'shin-yokohama station', '新横浜', '新横浜駅'], lat: 35.5075, lng: 139.6175 },
+  { name: 'Yokohama Station', type: 'station', aliases: ['yokohama station', '横浜駅'], lat: 35.4658, lng: 139.6223 },
+  { name: 'Nagoya Station', type: 'station', aliases: ['nagoya station', '名古屋駅'], lat: 35.1709, lng: 136.8815 },
+  { name: 'Kyoto Station', type: 'station', aliases: ['kyoto station', '京都駅'], lat: 34.9858, lng: 135.7588 },
+  { name: 'Osaka Station', type: 'station', aliases: ['osaka station', '大阪駅'], lat: 34.7025, lng: 135.4959 },
+  { name: 'Shin-Osaka Station', type: 'station', aliases: ['shin-osaka', 'shin-osaka station', '新大阪', '新大阪駅'], lat: 34.7334, lng: 135.5001 },
+  { name: 'Namba Station', type: 'station', aliases: ['namba station', '難波駅', 'なんば駅'], lat: 34.6662, lng: 135.5008 },
+  { name: 'Sannomiya Station', type: 'station', aliases: ['sannomiya station', '三宮駅', '三ノ宮駅'], lat: 34.6949, lng: 135.1955 },
+  { name: 'Hiroshima Station', type: 'station', aliases: ['hiroshima station', '広島駅'], lat: 34.3977, lng: 132.4753 },
+  { name: 'Hakata Station', type: 'station', aliases: ['hakata', 'hakata station', '博多', '博多駅'], lat: 33.5897, lng: 130.4207 },
+  { name: 'Sendai Station', type: 'station', aliases: ['sendai station', '仙台駅'], lat: 38.2601, lng: 140.8822 },
+  { name: 'Sapporo Station', type: 'station', aliases: ['sapporo station', '札幌駅'], lat: 43.0687, lng: 141.3508 },
+  { name: 'Kanazawa Station', type: 'station', aliases: ['kanazawa station', '金沢駅'], lat: 36.5780, lng: 136.6480 }
+];
@@ -0,0 +1,301 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { CONFIG } from './constants.js';
+import { normalizeLocale } from '../utils/locale.js';
+import { ApiKeyConfig } from '../types/index.js';
+
+/**
+ * Error thrown when the configuration file or environment is invalid
+ */
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+type SettingType = 'string' | 'optional-string' | 'string-list' | 'url' | 'optional-url' | 'integer' | 'coordinates' | 'store' | 'locale' | 'session-mode' | 'auth-mode' | 'api-keys' | 'log-level';
+
+interface Setting {
+  key: keyof typeof CONFIG;
+  file: string;
+  env: string;
+  type: SettingType;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Settings that can be overridden, with their config file key and environment variable
+ */
+const SETTINGS: Setting[] = [
+  { key: 'API_BASE_URL', file: 'api_base_url', env: 'TABLECHECK_API_BASE_URL', type: 'url' },
+  { key: 'RESERVATION_BASE_URL', file: 'reservation_base_url', env: 'TABLECHECK_RESERVATION_BASE_URL', type: 'url' },
+  { key: 'SHOP_UNIVERSE_ID', file: 'shop_universe_id', env: 'TABLECHECK_SHOP_UNIVERSE_ID', type: 'string' },
+  { key: 'SHOP_UNIVERSE_CURRENCY', file: 'shop_universe_currency', env: 'TABLECHECK_SHOP_UNIVERSE_CURRENCY', type: 'optional-string' },
+  { key: 'DEFAULT_LOCATION', file: 'default_location', env: 'TABLECHECK_DEFAULT_LOCATION', type: 'coordinates' },
+  { key: 'DEFAULT_LOCALE', file: 'default_locale', env: 'TABLECHECK_DEFAULT_LOCALE', type: 'locale' },
+  { key: 'DEFAULT_PER_PAGE', file: 'default_per_page', env: 'TABLECHECK_DEFAULT_PER_PAGE', type: 'integer', min: 1, max: CONFIG.MAX_PER_PAGE },
+  { key: 'DEFAULT_AVAILABILITY_DAYS', file: 'default_availability_days', env: 'TABLECHECK_DEFAULT_AVAILABILITY_DAYS', type: 'integer', min: 1, max: 90 },
+  { key: 'CACHE_STORE', file: 'cache_store', env: 'CACHE_STORE', type: 'store' },
+  { key: 'CACHE_DIR', file: 'cache_dir', env: 'CACHE_DIR', type: 'string' },
+  { key: 'GEOCODER_URL', file: 'geocoder_url', env: 'GEOCODER_URL', type: 'optional-url' },
+  { key: 'EXCHANGE_RATES_PATH', file: 'exchange_rates_path', env: 'EXCHANGE_RATES_PATH', type: 'optional-string' },
+  { key: 'EXCHANGE_RATES_REFRESH_MS', file: 'exchange_rates_refresh_ms', env: 'EXCHANGE_RATES_REFRESH_MS', type: 'integer', min: 1000, max: 7 * 24 * 60 * 60 * 1000 },
+  { key: 'WATCH_STORE', file: 'watch_store', env: 'WATCH_STORE', type: 'store' },
+  { key: 'WATCH_STORE_PATH', file: 'watch_store_path', env: 'WATCH_STORE_PATH', type: 'string' },
+  { key: 'WATCH_POLL_INTERVAL_MS', file: 'watch_poll_interval_ms', env: 'WATCH_POLL_INTERVAL_MS', type: 'integer', min: 1000, max: 24 * 60 * 60 * 1000 },
+  { key: 'WATCH_WEBHOOK_URL', file: 'watch_webhook_url', env: 'WATCH_WEBHOOK_URL', type: 'optional-url' },
+  { key: 'MCP_SESSION_MODE', file: 'session_mode', env: 'MCP_SESSION_MODE', type: 'session-mode' },
+  { key: 'MCP_SESSION_IDLE_TIMEOUT_MS', file: 'session_idle_timeout_ms', env: 'MCP_SESSION_IDLE_TIMEOUT_MS', type: 'integer', min: 1000, max: 24 * 60 * 60 * 1000 },
+  { key: 'MAX_MCP_SESSIONS', file: 'max_sessions', env: 'MAX_MCP_SESSIONS', type: 'integer', min: 1, max: 100000 },
+  { key: 'AUTH_MODE', file: 'auth_mode', env: 'MCP_AUTH_MODE', type: 'auth-mode' },
+  { key: 'API_KEYS', file: 'api_keys', env: 'MCP_API_KEYS', type: 'api-keys' },
+  { key: 'OAUTH_ISSUER', file: 'oauth_issuer', env: 'OAUTH_ISSUER', type: 'optional-url' },
+  { key: 'OAUTH_JWKS_URL', file: 'oauth_jwks_url', env: 'OAUTH_JWKS_URL', type: 'optional-url' },
+  { key: 'OAUTH_AUDIENCE', file: 'oauth_audience', env: 'OAUTH_AUDIENCE', type: 'optional-string' },
+  { key: 'OAUTH_REQUIRED_SCOPES', file: 'oauth_required_scopes', env: 'OAUTH_REQUIRED_SCOPES', type: 'string-list' },
+  { key: 'MCP_SERVER_URL', file: 'server_url', env: 'MCP_SERVER_URL', type: 'optional-url' },
+  { key: 'RATE_LIMIT_PER_MINUTE', file: 'rate_limit_per_minute', env: 'RATE_LIMIT_PER_MINUTE', type: 'integer', min: 1, max: 100000 },
+  { key: 'CORS_ALLOWED_ORIGINS', file: 'cors_allowed_origins', env: 'CORS_ALLOWED_ORIGINS', type: 'string-list' },
+  { key: 'LOG_LEVEL', file: 'log_level', env: 'LOG_LEVEL', type: 'log-level' },
+];
+
+/**
+ * Reads the config file path from a `--config <path>` or `--config=<path>` argument,
+ * falling back to the TABLECHECK_CONFIG environment variable
+ * @param argv Process arguments
+ * @returns Config file path, if any
+ */
+export const getConfigPath = (argv: string[] = process.argv): string | undefined => {
+  const index = argv.findIndex(arg => arg === '--config' || arg.startsWith('--config='));
+  if (index === -1) {
+    return process.env.TABLECHECK_CONFIG || undefined;
+  }
+
+  const arg = argv[index];
+  const value = arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : argv[index + 1];
+  if (!value) {
+    throw new ConfigError(['--config requires a file path']);
+  }
+  return value;
+};
+
+/**
+ * Reads a JSON or YAML config file (chosen by extension)
+ */
+const readConfigFile = (configPath: string): Record<string, unknown> => {
+  let contents: string;
+  try {
+    contents = readFileSync(configPath, 'utf8');
+  } catch (error) {
+    throw new ConfigError([`cannot read config file ${configPath}: ${error instanceof Error ? error.message : 'Unknown error'}`]);
+  }
+
+  let parsed: unknown;
+  try {
+    const extension = path.extname(configPath).toLowerCase();
+    parsed = extension === '.yaml' || extension === '.yml' ? parseYaml(contents) : JSON.parse(contents);
+  } catch (error) {
+    throw new ConfigError([`cannot parse config file ${configPath}: ${error instanceof Error ? error.message : 'Unknown error'}`]);
+  }
+
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigError([`config file ${configPath} must contain an object`]);
+  }
+  return parsed as Record<string, unknown>;
+};
+
+/**
+ * Checks for coordinates written as an object ({ lat, lng }) in a config file
+ */
+const isCoordinatesObject = (value: unknown): value is { lat: unknown, lng: unknown } => {
+  return typeof value === 'object' && value !== null && 'lat' in value && 'lng' in value;
+};
+
+/**
+ * Converts a raw value from the config file or environment to the setting's type
+ * @returns The converted value, or an error message
+ */
+const convertValue = (setting: Setting, raw: unknown): { value?: unknown, error?: string } => {
+  const text = typeof raw === 'string' ? raw.trim() : raw;
+
+  switch (setting.type) {
+    case 'string':
+      return typeof text === 'string' && text !== '' ? { value: text } : { error: 'must be a non-empty string' };
+
+    case 'optional-string':
+      return typeof text === 'string' ? { value: text } : { error: 'must be a string' };
+
+    case 'string-list': {
+      // Accepts arrays in files and comma-separated values in environment variables
+      const items = typeof text === 'string' ? text.split(',') : text;
+      if (!Array.isArray(items) || items.some(item => typeof item !== 'string')) {
+        return { error: 'must be a list of strings or a comma-separated string' };
+      }
+      return { value: items.map(item => item.trim()).filter(item => item !== '') };
+    }
+
+    case 'url':
+    case 'optional-url':
+      if (setting.type === 'optional-url' && text === '') {
+        return { value: '' };
+      }
+      if (typeof text === 'string' && /^https?:\/\/[^\s]+$/.test(text)) {
+        return { value: text.replace(/\/+$/, '') };
+      }
+      return { error: 'must be an http(s) URL' };
+
+    case 'integer': {
+      const number = typeof text === 'number' ? text : Number(text);
+      if (!Number.isInteger(number) || (setting.min !== undefined && number < setting.min) || (setting.max !== undefined && number > setting.max)) {
+        return { error: `must be an integer between ${setting.min} and ${setting.max}` };
+      }
+      return { value: number };
+    }
+
+    case 'coordinates': {
+      // Accepts { lat, lng } in files and "lat,lng" in environment variables
+      const [lat, lng] = typeof text === 'string'
+        ? text.split(',').map(part => Number(part.trim()))
+        : isCoordinatesObject(text) ? [Number(text.lat), Number(text.lng)] : [NaN, NaN];
+      if (isNaN(lat) || isNaN(lng) || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+        return { error: 'must be coordinates as { lat, lng } or "lat,lng"' };
+      }
+      return { value: { lat, lng } };
+    }
+
+    case 'locale':
+      try {
+        return typeof text === 'string' && text !== '' ? { value: normalizeLocale(text) } : { error: 'must be a non-empty string' };
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : 'must be a supported locale' };
+      }
+
+    case 'store':
+      return text === 'memory' || text === 'file' ? { value: text } : { error: 'must be "memory" or "file"' };
+
+    case 'session-mode':
+      return text === 'stateless' || text === 'stateful' ? { value: text } : { error: 'must be "stateless" or "stateful"' };
+
+    case 'auth-mode':
+      return text === 'none' || text === 'api-key' || text === 'oauth' ? { value: text } : { error: 'must be "none", "api-key" or "oauth"' };
+
+    case 'api-keys':
+      return convertApiKeys(text);
+
+    case 'log-level':
+      return text === 'debug' || text === 'info' || text === 'warn' || text === 'error'
+        ? { value: text }
+        : { error: 'must be "debug", "info", "warn" or "error"' };
+  }
+};
+
+/**
+ * Converts API keys given as [{ client_id, key, rate_limit_per_minute }] in files
+ * or "client_id:key[:rate_limit_per_minute],..." in environment variables
+ */
+const convertApiKeys = (raw: unknown): { value?: ApiKeyConfig[], error?: string } => {
+  const entries = typeof raw === 'string'
+    ? raw.split(',').map(entry => entry.trim()).filter(entry => entry !== '').map(entry => {
+      const [client_id, key, limit] = entry.split(':');
+      return { client_id, key, rate_limit_per_minute: limit === undefined ? undefined : Number(limit) };
+    })
+    : raw;
+
+  if (!Array.isArray(entries)) {
+    return { error: 'must be a list of { client_id, key } or "client_id:key,..."' };
+  }
+
+  const keys: ApiKeyConfig[] = [];
+  for (const entry of entries) {
+    const { client_id, key, rate_limit_per_minute } = (entry || {}) as Record<string, unknown>;
+    if (typeof client_id !== 'string' || client_id === '' || typeof key !== 'string' || key.length < 16) {
+      return { error: 'each API key needs a client_id and a key of at least 16 characters' };
+    }
+    if (rate_limit_per_minute !== undefined && (!Number.isInteger(rate_limit_per_minute) || (rate_limit_per_minute as number) < 1)) {
+      return { error: `rate_limit_per_minute for ${client_id} must be a positive integer` };
+    }
+    keys.push({ client_id, key, rate_limit_per_minute: rate_limit_per_minute as number | undefined });
+  }
+
+  if (new Set(keys.map(apiKey => apiKey.key)).size !== keys.length) {
+    return { error: 'API keys must be unique' };
+  }
+  return { value: keys };
+};
+
+/**
+ * Checks settings that depend on each other
+ * @returns Problems with the combined configuration
+ */
+const checkCombinedSettings = (config: typeof CONFIG): string[] => {
+  const problems: string[] = [];
+
+  if (config.AUTH_MODE === 'api-key' && config.API_KEYS.length === 0) {
+    problems.push('auth_mode "api-key" requires api_keys (MCP_API_KEYS)');
+  }
+  if (config.AUTH_MODE === 'oauth' && !config.OAUTH_JWKS_URL) {
+    problems.push('auth_mode "oauth" requires oauth_jwks_url (OAUTH_JWKS_URL)');
+  }
+  if (config.AUTH_MODE === 'oauth' && !config.OAUTH_AUDIENCE && !config.MCP_SERVER_URL) {
+    problems.push('auth_mode "oauth" requires oauth_audience (OAUTH_AUDIENCE) or server_url (MCP_SERVER_URL) to check token audiences');
+  }
+
+  return problems;
+};
+
+/**
+ * Loads configuration from an optional JSON/YAML file and environment variables
+ * (environment variables take precedence) and applies it to CONFIG.
+ * Throws a ConfigError listing every invalid value.
+ * @param options.configPath Path to a JSON or YAML config file
+ * @param options.env Environment variables to read
+ * @returns The applied configuration
+ */
+export const loadConfig = (options: { configPath?: string, env?: NodeJS.ProcessEnv } = {}): typeof CONFIG => {
+  const env = options.env || process.env;
+  const fileValues = options.configPath ? readConfigFile(options.configPath) : {};
+  const problems: string[] = [];
+  const updates: Record<string, unknown> = {};
+
+  const knownKeys = SETTINGS.map(setting => setting.file);
+  Object.keys(fileValues)
+    .filter(key => !knownKeys.includes(key))
+    .forEach(key => problems.push(`${key}: unknown setting (expected one of ${knownKeys.join(', ')})`));
+
+  SETTINGS.forEach(setting => {
+    const sources: [string, unknown][] = [
+      [`${setting.file} (config file)`, fileValues[setting.file]],
+      [setting.env, env[setting.env]],
+    ];
+
+    sources.forEach(([source, raw]) => {
+      if (raw === undefined) {
+        return;
+      }
+      const { value, error } = convertValue(setting, raw);
+      if (error) {
+        // API keys are secrets, so they are not echoed back
+        problems.push(setting.type === 'api-keys' ? `${source}: ${error}` : `${source}: ${error} (got ${JSON.stringify(raw)})`);
+      } else {
+        updates[setting.key] = value;
+      }
+    });
+  });
+
+  if (problems.length === 0) {
+    problems.push(...checkCombinedSettings({ ...CONFIG, ...updates }));
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  Object.assign(CONFIG, updates);
+  return CONFIG;
+};
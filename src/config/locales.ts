@@ -0,0 +1,42 @@
+/**
+ * Locales supported by the TableCheck API
+ */
+export const LOCALES = [
+  'en', 'ja', 'ko', 'zh-CN', 'zh-TW', 'de', 'es', 'fr', 'nl', 'it', 'pt', 'tr',
+  'ru', 'id', 'ms', 'tl', 'th', 'lo', 'km', 'vi', 'ar', 'he', 'hi'
+] as const;
+
+export type Locale = typeof LOCALES[number];
+
+/**
+ * Common alternative spellings, mapped to the TableCheck locale
+ */
+export const LOCALE_ALIASES: Record<string, Locale> = {
+  'jp': 'ja',
+  'jpn': 'ja',
+  'kr': 'ko',
+  'kor': 'ko',
+  'zh': 'zh-CN',
+  'cn': 'zh-CN',
+  'zh-hans': 'zh-CN',
+  'zh-sg': 'zh-CN',
+  'tw': 'zh-TW',
+  'zh-hant': 'zh-TW',
+  'zh-hk': 'zh-TW',
+  'en-us': 'en',
+  'en-gb': 'en',
+  'pt-br': 'pt',
+  'fil': 'tl',
+  'iw': 'he',
+  'in': 'id'
+};
+
+/**
+ * Locales tried, in order, after the requested one when a translation is missing
+ */
+export const LOCALE_FALLBACKS: Partial<Record<Locale, Locale[]>> = {
+  'zh-TW': ['zh-CN'],
+  'zh-CN': ['zh-TW'],
+  'ms': ['id'],
+  'id': ['ms']
+};
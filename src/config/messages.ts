@@ -0,0 +1,526 @@
+/**
+ * Tool output text by locale. Locales without a catalog fall back to English
+ * (zh-TW and zh-CN fall back to each other first).
+ */
+export const MESSAGES: Record<string, Record<string, string>> = {
+  en: {
+    search_none: 'No restaurants found matching your criteria. Try adjusting your search parameters.',
+    search_found_one: 'Found 1 restaurant',
+    search_found: 'Found {count} restaurants',
+    search_for: ' for "{query}"',
+    search_cuisine: ' ({cuisines} cuisine)',
+    search_tagged: ' tagged {tags}',
+    search_in_area: ' in the specified area',
+    search_total: 'Total matching restaurants: {count}',
+    search_more: 'More results available. To see the next page, repeat this search with cursor: "{cursor}"',
+    interpreted: 'Interpreted {field} "{input}" as {value}',
+    label_cuisines: 'Cuisine(s)',
+    label_tags: 'Tags',
+    label_price_avg: 'Price Average',
+    label_lunch_price: 'Lunch Price Range',
+    label_dinner_price: 'Dinner Price Range',
+    label_reservation_link: 'Reservation Link',
+    label_image: 'Preview Image Link',
+    label_shop_id: 'Shop ID (shop_id)',
+    label_matched_by: 'Matched By',
+    match_name: 'name',
+    match_cuisine: 'cuisine',
+    label_relevance: 'Relevance',
+    label_area: 'Area',
+    label_time_zone: 'Time Zone',
+    label_lunch_avg: 'Lunch Average',
+    label_dinner_avg: 'Dinner Average',
+    label_service_modes: 'Service Modes',
+    label_smartpay: 'SmartPay (pay online at the table)',
+    label_images: 'Images',
+    yes: 'Yes',
+    no: 'No',
+    price_unavailable: 'Price not available',
+    available_dates: 'Available Dates: {dates}',
+    contact_for_availability: 'Contact restaurant for availability',
+    cuisines_none: 'No cuisines found for locale {locale}.',
+    cuisines_header: 'Available cuisines ({count} total):',
+    cuisines_hint: 'You can use these cuisine IDs when searching for restaurants with specific cuisine types.',
+    tags_header: 'Available restaurant tags ({count} total):',
+    tags_hint: 'You can use these tag IDs with the tags and exclude_tags filters when searching for restaurants.',
+    link_header: 'Reservation link for restaurant {shop_id}:',
+    link_prefilled: 'Pre-filled parameters:',
+    link_num_people: 'Number of people',
+    link_date: 'Date',
+    link_time: 'Time',
+    link_location: 'Location',
+    link_hint: 'Click the link above to make a reservation at this restaurant.',
+    availability_none: 'No availability found for restaurant {shop_id} for {num_people} people starting from {start_at}{filters}.',
+    availability_header: 'Availability for restaurant {shop_id} ({num_people} people){filters}:',
+    availability_times_shop: "Times are in the restaurant's time zone ({time_zone}).",
+    availability_times_both: "Times are in the restaurant's time zone ({time_zone}), with your time ({requester_time_zone}) in brackets.",
+    availability_your_time: '{time} your time',
+    availability_first: 'First available: {time}',
+    availability_open_slots: 'Open slots: {count}',
+    availability_no_open_slots: 'No open slots in the requested period.',
+    availability_by_day: 'Open slots by day:',
+    availability_day_none: 'no open slots',
+    availability_day_closed: 'closed',
+    availability_day_open: '{count} open ({first}–{last})',
+    availability_detail_hint: 'Set detail to true to list every slot.',
+    availability_closed: 'Closed',
+    availability_unavailable: 'No availability',
+    availability_full: 'full',
+    filter_between: ' between {from} and {to}',
+    filter_from: ' from {from}',
+    filter_until: ' until {to}',
+    filter_weekdays: ' on {weekdays}',
+    filter_days_one: ' over 1 day',
+    filter_days: ' over {count} days',
+    compare_header_one: 'Availability comparison for 1 restaurant ({num_people} people, times in {time_zone}):',
+    compare_header: 'Availability comparison for {count} restaurants ({num_people} people, times in {time_zone}):',
+    compare_summary: 'Summary:',
+    compare_shop_error: 'Error - {error}',
+    compare_shop_open: '{count} open slot(s)',
+    compare_none: 'No open slots found for any of these restaurants in the requested window.',
+    find_window: '{date} between {from} and {to}, restaurant time',
+    find_none: 'No restaurants with an open table for {num_people} people on {window}. Try widening the time window, another date or fewer filters.',
+    find_found_one: 'Found 1 restaurant with an open table for {num_people} people on {window}:',
+    find_found: 'Found {count} restaurants with an open table for {num_people} people on {window}:',
+    label_best_time: 'Best time',
+    label_open_times: 'Open times',
+    label_distance: 'Distance',
+    watch_on: '{shop_id} on {date}',
+    watch_opening: 'opening',
+    watch_closing: 'closing',
+    watch_people: '{count} people',
+    watch_created: 'Watching {watch} for an open table.',
+    label_watch_id: 'Watch ID (watch_id)',
+    label_resource: 'Resource',
+    watch_interval: 'Checked every {seconds} seconds until a slot opens or the date passes',
+    watch_hint: 'Subscribe to the resource to be notified when a slot opens, or check back with list_availability_watches.',
+    watches_none: 'No availability watches found.',
+    watches_header: 'Availability watches ({count} total):',
+    label_status: 'Status',
+    watch_status_active: 'active',
+    watch_status_matched: 'matched',
+    watch_status_expired: 'expired',
+    label_open_slots_found: 'Open slots found',
+    label_note: 'Note',
+    label_checks: 'Checks',
+    watch_last_checked: ', last at {time}',
+    label_last_error: 'Last error',
+    watch_deleted: 'Deleted availability watch {watch_id}.',
+  },
+  ja: {
+    search_none: '条件に一致するレストランが見つかりませんでした。検索条件を変更してお試しください。',
+    search_found_one: '1件のレストランが見つかりました',
+    search_found: '{count}件のレストランが見つかりました',
+    search_for: '（「{query}」）',
+    search_cuisine: '（料理: {cuisines}）',
+    search_tagged: '（タグ: {tags}）',
+    search_in_area: '（指定エリア内）',
+    search_total: '該当するレストランの総数: {count}',
+    search_more: 'さらに結果があります。次のページを表示するには、cursor: "{cursor}" を指定して同じ検索を行ってください',
+    interpreted: '{field} の「{input}」を {value} と解釈しました',
+    label_cuisines: '料理',
+    label_tags: 'タグ',
+    label_price_avg: '平均予算',
+    label_lunch_price: 'ランチ予算',
+    label_dinner_price: 'ディナー予算',
+    label_reservation_link: '予約リンク',
+    label_image: '画像リンク',
+    label_shop_id: '店舗ID (shop_id)',
+    label_matched_by: '一致した項目',
+    match_name: '店名',
+    match_cuisine: 'ジャンル',
+    label_relevance: '関連度',
+    label_area: 'エリア',
+    label_time_zone: 'タイムゾーン',
+    label_lunch_avg: 'ランチ平均予算',
+    label_dinner_avg: 'ディナー平均予算',
+    label_service_modes: 'サービス形態',
+    label_smartpay: 'SmartPay（テーブルでオンライン決済）',
+    label_images: '画像',
+    yes: 'はい',
+    no: 'いいえ',
+    price_unavailable: '予算情報なし',
+    available_dates: '空席のある日: {dates}',
+    contact_for_availability: '空席状況はレストランにお問い合わせください',
+    cuisines_none: 'ロケール {locale} の料理ジャンルが見つかりませんでした。',
+    cuisines_header: '料理ジャンル一覧（全{count}件）:',
+    cuisines_hint: 'レストランを検索する際に、これらの料理ジャンルIDを指定できます。',
+    tags_header: 'レストランのタグ一覧（全{count}件）:',
+    tags_hint: 'レストランを検索する際に、これらのタグIDを tags と exclude_tags で指定できます。',
+    link_header: 'レストラン {shop_id} の予約リンク:',
+    link_prefilled: '入力済みの項目:',
+    link_num_people: '人数',
+    link_date: '日付',
+    link_time: '時間',
+    link_location: '場所',
+    link_hint: '上のリンクからこのレストランを予約できます。',
+    availability_none: 'レストラン {shop_id} で {start_at} 以降に{num_people}名で予約できる空席が見つかりませんでした{filters}。',
+    availability_header: 'レストラン {shop_id} の空席状況（{num_people}名）{filters}:',
+    availability_times_shop: '時刻はレストランのタイムゾーン（{time_zone}）です。',
+    availability_times_both: '時刻はレストランのタイムゾーン（{time_zone}）で、括弧内はお客様の時刻（{requester_time_zone}）です。',
+    availability_your_time: 'お客様の時刻 {time}',
+    availability_first: '最初の空席: {time}',
+    availability_open_slots: '空席数: {count}',
+    availability_no_open_slots: '指定期間に空席はありません。',
+    availability_by_day: '日別の空席:',
+    availability_day_none: '空席なし',
+    availability_day_closed: '休業日',
+    availability_day_open: '空席{count}件（{first}〜{last}）',
+    availability_detail_hint: 'すべての枠を表示するには detail を true にしてください。',
+    availability_closed: '休業日',
+    availability_unavailable: '空席なし',
+    availability_full: '満席',
+    filter_between: '（{from}〜{to}）',
+    filter_from: '（{from}以降）',
+    filter_until: '（{to}まで）',
+    filter_weekdays: '（曜日: {weekdays}）',
+    filter_days_one: '（1日間）',
+    filter_days: '（{count}日間）',
+    compare_header_one: '1軒のレストランの空席比較（{num_people}名、時刻は {time_zone}）:',
+    compare_header: '{count}軒のレストランの空席比較（{num_people}名、時刻は {time_zone}）:',
+    compare_summary: '概要:',
+    compare_shop_error: 'エラー - {error}',
+    compare_shop_open: '空席{count}件',
+    compare_none: '指定した時間帯に空席のあるレストランはありませんでした。',
+    find_window: '{date} {from}〜{to}（店舗の現地時間）',
+    find_none: '{window}に{num_people}名で空席のあるレストランは見つかりませんでした。時間帯を広げるか、別の日付や少ない条件でお試しください。',
+    find_found_one: '{window}に{num_people}名で空席のあるレストランが1件見つかりました:',
+    find_found: '{window}に{num_people}名で空席のあるレストランが{count}件見つかりました:',
+    label_best_time: 'おすすめの時間',
+    label_open_times: '空席のある時間',
+    label_distance: '距離',
+    watch_on: '{shop_id}（{date}）',
+    watch_opening: '開店',
+    watch_closing: '閉店',
+    watch_people: '{count}名',
+    watch_created: '{watch} の空席を監視しています。',
+    label_watch_id: '監視ID (watch_id)',
+    label_resource: 'リソース',
+    watch_interval: '空席が出るか日付が過ぎるまで、{seconds}秒ごとに確認します',
+    watch_hint: '空席が出たときに通知を受け取るにはリソースを購読するか、list_availability_watches で確認してください。',
+    watches_none: '空席の監視はありません。',
+    watches_header: '空席の監視一覧（全{count}件）:',
+    label_status: '状態',
+    watch_status_active: '監視中',
+    watch_status_matched: '空席あり',
+    watch_status_expired: '期限切れ',
+    label_open_slots_found: '見つかった空席',
+    label_note: 'メモ',
+    label_checks: '確認回数',
+    watch_last_checked: '、最終確認 {time}',
+    label_last_error: '最後のエラー',
+    watch_deleted: '空席の監視 {watch_id} を削除しました。',
+  },
+  ko: {
+    search_none: '조건에 맞는 레스토랑을 찾을 수 없습니다. 검색 조건을 변경해 보세요.',
+    search_found_one: '레스토랑 1곳을 찾았습니다',
+    search_found: '레스토랑 {count}곳을 찾았습니다',
+    search_for: ' ("{query}")',
+    search_cuisine: ' (요리: {cuisines})',
+    search_tagged: ' (태그: {tags})',
+    search_in_area: ' (지정 지역)',
+    search_total: '조건에 맞는 레스토랑 수: {count}',
+    search_more: '결과가 더 있습니다. 다음 페이지를 보려면 cursor: "{cursor}"로 같은 검색을 다시 실행하세요',
+    interpreted: '{field}의 "{input}"을(를) {value}(으)로 해석했습니다',
+    label_cuisines: '요리',
+    label_tags: '태그',
+    label_price_avg: '평균 가격',
+    label_lunch_price: '점심 가격대',
+    label_dinner_price: '저녁 가격대',
+    label_reservation_link: '예약 링크',
+    label_image: '이미지 링크',
+    label_shop_id: '매장 ID (shop_id)',
+    label_matched_by: '일치 항목',
+    match_name: '매장명',
+    match_cuisine: '요리 종류',
+    label_relevance: '관련도',
+    label_area: '지역',
+    label_time_zone: '시간대',
+    label_lunch_avg: '점심 평균 가격',
+    label_dinner_avg: '저녁 평균 가격',
+    label_service_modes: '서비스 형태',
+    label_smartpay: 'SmartPay (테이블에서 온라인 결제)',
+    label_images: '이미지',
+    yes: '예',
+    no: '아니요',
+    price_unavailable: '가격 정보 없음',
+    available_dates: '예약 가능한 날짜: {dates}',
+    contact_for_availability: '예약 가능 여부는 레스토랑에 문의하세요',
+    cuisines_none: '로케일 {locale}에 해당하는 요리를 찾을 수 없습니다.',
+    cuisines_header: '요리 목록 (총 {count}개):',
+    cuisines_hint: '레스토랑을 검색할 때 이 요리 ID를 사용할 수 있습니다.',
+    tags_header: '레스토랑 태그 목록 (총 {count}개):',
+    tags_hint: '레스토랑을 검색할 때 이 태그 ID를 tags 및 exclude_tags 필터에 사용할 수 있습니다.',
+    link_header: '레스토랑 {shop_id} 예약 링크:',
+    link_prefilled: '미리 입력된 항목:',
+    link_num_people: '인원',
+    link_date: '날짜',
+    link_time: '시간',
+    link_location: '위치',
+    link_hint: '위 링크를 클릭하여 이 레스토랑을 예약하세요.',
+    availability_none: '레스토랑 {shop_id}에서 {start_at}부터 {num_people}명이 예약할 수 있는 자리를 찾을 수 없습니다{filters}.',
+    availability_header: '레스토랑 {shop_id} 예약 가능 현황 ({num_people}명){filters}:',
+    availability_times_shop: '시간은 레스토랑 시간대({time_zone}) 기준입니다.',
+    availability_times_both: '시간은 레스토랑 시간대({time_zone}) 기준이며, 괄호 안은 고객님 시간({requester_time_zone})입니다.',
+    availability_your_time: '고객님 시간 {time}',
+    availability_first: '가장 빠른 예약 가능 시간: {time}',
+    availability_open_slots: '예약 가능한 자리: {count}',
+    availability_no_open_slots: '요청한 기간에 예약 가능한 자리가 없습니다.',
+    availability_by_day: '날짜별 예약 가능한 자리:',
+    availability_day_none: '예약 가능한 자리 없음',
+    availability_day_closed: '휴무',
+    availability_day_open: '{count}개 가능 ({first}–{last})',
+    availability_detail_hint: '모든 시간대를 보려면 detail을 true로 설정하세요.',
+    availability_closed: '휴무',
+    availability_unavailable: '예약 불가',
+    availability_full: '만석',
+    filter_between: ' ({from}~{to})',
+    filter_from: ' ({from} 이후)',
+    filter_until: ' ({to}까지)',
+    filter_weekdays: ' (요일: {weekdays})',
+    filter_days_one: ' (1일간)',
+    filter_days: ' ({count}일간)',
+    compare_header_one: '레스토랑 1곳의 예약 가능 현황 비교 ({num_people}명, 시간대 {time_zone}):',
+    compare_header: '레스토랑 {count}곳의 예약 가능 현황 비교 ({num_people}명, 시간대 {time_zone}):',
+    compare_summary: '요약:',
+    compare_shop_error: '오류 - {error}',
+    compare_shop_open: '예약 가능한 자리 {count}개',
+    compare_none: '요청한 시간대에 예약 가능한 레스토랑이 없습니다.',
+    find_window: '{date} {from}~{to} (레스토랑 현지 시간)',
+    find_none: '{window}에 {num_people}명이 예약할 수 있는 레스토랑을 찾을 수 없습니다. 시간대를 넓히거나 다른 날짜 또는 더 적은 조건으로 검색해 보세요.',
+    find_found_one: '{window}에 {num_people}명이 예약할 수 있는 레스토랑 1곳을 찾았습니다:',
+    find_found: '{window}에 {num_people}명이 예약할 수 있는 레스토랑 {count}곳을 찾았습니다:',
+    label_best_time: '추천 시간',
+    label_open_times: '예약 가능한 시간',
+    label_distance: '거리',
+    watch_on: '{shop_id} ({date})',
+    watch_opening: '오픈',
+    watch_closing: '마감',
+    watch_people: '{count}명',
+    watch_created: '{watch}의 빈자리를 확인하고 있습니다.',
+    label_watch_id: '감시 ID (watch_id)',
+    label_resource: '리소스',
+    watch_interval: '자리가 나거나 날짜가 지날 때까지 {seconds}초마다 확인합니다',
+    watch_hint: '자리가 나면 알림을 받으려면 리소스를 구독하거나 list_availability_watches로 확인하세요.',
+    watches_none: '빈자리 감시가 없습니다.',
+    watches_header: '빈자리 감시 목록 (총 {count}개):',
+    label_status: '상태',
+    watch_status_active: '감시 중',
+    watch_status_matched: '자리 있음',
+    watch_status_expired: '만료',
+    label_open_slots_found: '찾은 빈자리',
+    label_note: '메모',
+    label_checks: '확인 횟수',
+    watch_last_checked: ', 마지막 확인 {time}',
+    label_last_error: '마지막 오류',
+    watch_deleted: '빈자리 감시 {watch_id}을(를) 삭제했습니다.',
+  },
+  'zh-CN': {
+    search_none: '未找到符合条件的餐厅。请尝试调整搜索条件。',
+    search_found_one: '找到 1 家餐厅',
+    search_found: '找到 {count} 家餐厅',
+    search_for: '（“{query}”）',
+    search_cuisine: '（菜系：{cuisines}）',
+    search_tagged: '（标签：{tags}）',
+    search_in_area: '（指定区域内）',
+    search_total: '符合条件的餐厅总数：{count}',
+    search_more: '还有更多结果。要查看下一页，请使用 cursor: "{cursor}" 重复此搜索',
+    interpreted: '已将 {field} 的“{input}”解释为 {value}',
+    label_cuisines: '菜系',
+    label_tags: '标签',
+    label_price_avg: '人均价格',
+    label_lunch_price: '午餐价格',
+    label_dinner_price: '晚餐价格',
+    label_reservation_link: '预订链接',
+    label_image: '图片链接',
+    label_shop_id: '餐厅 ID (shop_id)',
+    label_matched_by: '匹配项',
+    match_name: '餐厅名称',
+    match_cuisine: '菜系',
+    label_relevance: '相关度',
+    label_area: '区域',
+    label_time_zone: '时区',
+    label_lunch_avg: '午餐人均',
+    label_dinner_avg: '晚餐人均',
+    label_service_modes: '服务类型',
+    label_smartpay: 'SmartPay（桌边在线支付）',
+    label_images: '图片',
+    yes: '是',
+    no: '否',
+    price_unavailable: '暂无价格信息',
+    available_dates: '可预订日期：{dates}',
+    contact_for_availability: '请联系餐厅确认空位',
+    cuisines_none: '未找到语言 {locale} 的菜系。',
+    cuisines_header: '可用菜系（共 {count} 个）：',
+    cuisines_hint: '搜索餐厅时可以使用这些菜系 ID。',
+    tags_header: '餐厅标签（共 {count} 个）：',
+    tags_hint: '搜索餐厅时可以在 tags 和 exclude_tags 筛选中使用这些标签 ID。',
+    link_header: '餐厅 {shop_id} 的预订链接：',
+    link_prefilled: '已预填的参数：',
+    link_num_people: '人数',
+    link_date: '日期',
+    link_time: '时间',
+    link_location: '位置',
+    link_hint: '点击上方链接即可预订这家餐厅。',
+    availability_none: '未找到餐厅 {shop_id} 自 {start_at} 起可供 {num_people} 人预订的空位{filters}。',
+    availability_header: '餐厅 {shop_id} 的空位情况（{num_people} 人）{filters}：',
+    availability_times_shop: '时间为餐厅所在时区（{time_zone}）。',
+    availability_times_both: '时间为餐厅所在时区（{time_zone}），括号内为您的时间（{requester_time_zone}）。',
+    availability_your_time: '您的时间 {time}',
+    availability_first: '最早空位：{time}',
+    availability_open_slots: '空位数：{count}',
+    availability_no_open_slots: '所选时间段内没有空位。',
+    availability_by_day: '每日空位：',
+    availability_day_none: '无空位',
+    availability_day_closed: '休息',
+    availability_day_open: '{count} 个空位（{first}–{last}）',
+    availability_detail_hint: '将 detail 设为 true 可列出所有时段。',
+    availability_closed: '休息',
+    availability_unavailable: '无空位',
+    availability_full: '已满',
+    filter_between: '（{from}–{to}）',
+    filter_from: '（{from} 起）',
+    filter_until: '（{to} 前）',
+    filter_weekdays: '（星期：{weekdays}）',
+    filter_days_one: '（1 天）',
+    filter_days: '（{count} 天）',
+    compare_header_one: '1 家餐厅的空位比较（{num_people} 人，时间为 {time_zone}）：',
+    compare_header: '{count} 家餐厅的空位比较（{num_people} 人，时间为 {time_zone}）：',
+    compare_summary: '概览：',
+    compare_shop_error: '错误 - {error}',
+    compare_shop_open: '{count} 个空位',
+    compare_none: '所选时间段内这些餐厅均无空位。',
+    find_window: '{date} {from}–{to}（餐厅当地时间）',
+    find_none: '{window} 没有可供 {num_people} 人预订的餐厅。请尝试放宽时间段、更换日期或减少筛选条件。',
+    find_found_one: '找到 1 家 {window} 可供 {num_people} 人预订的餐厅：',
+    find_found: '找到 {count} 家 {window} 可供 {num_people} 人预订的餐厅：',
+    label_best_time: '推荐时间',
+    label_open_times: '空位时间',
+    label_distance: '距离',
+    watch_on: '{shop_id}（{date}）',
+    watch_opening: '开门',
+    watch_closing: '打烊',
+    watch_people: '{count} 人',
+    watch_created: '正在监控 {watch} 的空位。',
+    label_watch_id: '监控 ID (watch_id)',
+    label_resource: '资源',
+    watch_interval: '每 {seconds} 秒检查一次，直到出现空位或日期已过',
+    watch_hint: '订阅该资源可在出现空位时收到通知，也可以使用 list_availability_watches 查看。',
+    watches_none: '没有空位监控。',
+    watches_header: '空位监控（共 {count} 个）：',
+    label_status: '状态',
+    watch_status_active: '监控中',
+    watch_status_matched: '有空位',
+    watch_status_expired: '已过期',
+    label_open_slots_found: '找到的空位',
+    label_note: '备注',
+    label_checks: '检查次数',
+    watch_last_checked: '，最近一次 {time}',
+    label_last_error: '最近错误',
+    watch_deleted: '已删除空位监控 {watch_id}。',
+  },
+  'zh-TW': {
+    search_none: '找不到符合條件的餐廳。請嘗試調整搜尋條件。',
+    search_found_one: '找到 1 家餐廳',
+    search_found: '找到 {count} 家餐廳',
+    search_for: '（「{query}」）',
+    search_cuisine: '（料理：{cuisines}）',
+    search_tagged: '（標籤：{tags}）',
+    search_in_area: '（指定區域內）',
+    search_total: '符合條件的餐廳總數：{count}',
+    search_more: '還有更多結果。若要查看下一頁，請使用 cursor: "{cursor}" 重複此搜尋',
+    interpreted: '已將 {field} 的「{input}」解讀為 {value}',
+    label_cuisines: '料理',
+    label_tags: '標籤',
+    label_price_avg: '平均價格',
+    label_lunch_price: '午餐價格',
+    label_dinner_price: '晚餐價格',
+    label_reservation_link: '訂位連結',
+    label_image: '圖片連結',
+    label_shop_id: '餐廳 ID (shop_id)',
+    label_matched_by: '符合項目',
+    match_name: '餐廳名稱',
+    match_cuisine: '菜系',
+    label_relevance: '相關度',
+    label_area: '區域',
+    label_time_zone: '時區',
+    label_lunch_avg: '午餐平均',
+    label_dinner_avg: '晚餐平均',
+    label_service_modes: '服務類型',
+    label_smartpay: 'SmartPay（桌邊線上付款）',
+    label_images: '圖片',
+    yes: '是',
+    no: '否',
+    price_unavailable: '暫無價格資訊',
+    available_dates: '可訂位日期：{dates}',
+    contact_for_availability: '請聯絡餐廳確認空位',
+    cuisines_none: '找不到語言 {locale} 的料理類型。',
+    cuisines_header: '可用料理類型（共 {count} 個）：',
+    cuisines_hint: '搜尋餐廳時可以使用這些料理類型 ID。',
+    tags_header: '餐廳標籤（共 {count} 個）：',
+    tags_hint: '搜尋餐廳時可以在 tags 和 exclude_tags 篩選中使用這些標籤 ID。',
+    link_header: '餐廳 {shop_id} 的訂位連結：',
+    link_prefilled: '已預填的參數：',
+    link_num_people: '人數',
+    link_date: '日期',
+    link_time: '時間',
+    link_location: '位置',
+    link_hint: '點擊上方連結即可預訂這家餐廳。',
+    availability_none: '找不到餐廳 {shop_id} 自 {start_at} 起可供 {num_people} 人訂位的空位{filters}。',
+    availability_header: '餐廳 {shop_id} 的空位狀況（{num_people} 人）{filters}：',
+    availability_times_shop: '時間為餐廳所在時區（{time_zone}）。',
+    availability_times_both: '時間為餐廳所在時區（{time_zone}），括號內為您的時間（{requester_time_zone}）。',
+    availability_your_time: '您的時間 {time}',
+    availability_first: '最早空位：{time}',
+    availability_open_slots: '空位數：{count}',
+    availability_no_open_slots: '所選期間內沒有空位。',
+    availability_by_day: '每日空位：',
+    availability_day_none: '無空位',
+    availability_day_closed: '公休',
+    availability_day_open: '{count} 個空位（{first}–{last}）',
+    availability_detail_hint: '將 detail 設為 true 即可列出所有時段。',
+    availability_closed: '公休',
+    availability_unavailable: '無空位',
+    availability_full: '已滿',
+    filter_between: '（{from}–{to}）',
+    filter_from: '（{from} 起）',
+    filter_until: '（{to} 前）',
+    filter_weekdays: '（星期：{weekdays}）',
+    filter_days_one: '（1 天）',
+    filter_days: '（{count} 天）',
+    compare_header_one: '1 家餐廳的空位比較（{num_people} 人，時間為 {time_zone}）：',
+    compare_header: '{count} 家餐廳的空位比較（{num_people} 人，時間為 {time_zone}）：',
+    compare_summary: '摘要：',
+    compare_shop_error: '錯誤 - {error}',
+    compare_shop_open: '{count} 個空位',
+    compare_none: '所選時段內這些餐廳皆無空位。',
+    find_window: '{date} {from}–{to}（餐廳當地時間）',
+    find_none: '{window} 沒有可供 {num_people} 人訂位的餐廳。請嘗試放寬時段、改選日期或減少篩選條件。',
+    find_found_one: '找到 1 家 {window} 可供 {num_people} 人訂位的餐廳：',
+    find_found: '找到 {count} 家 {window} 可供 {num_people} 人訂位的餐廳：',
+    label_best_time: '推薦時間',
+    label_open_times: '空位時間',
+    label_distance: '距離',
+    watch_on: '{shop_id}（{date}）',
+    watch_opening: '開門',
+    watch_closing: '打烊',
+    watch_people: '{count} 人',
+    watch_created: '正在監控 {watch} 的空位。',
+    label_watch_id: '監控 ID (watch_id)',
+    label_resource: '資源',
+    watch_interval: '每 {seconds} 秒檢查一次，直到出現空位或日期已過',
+    watch_hint: '訂閱此資源即可在出現空位時收到通知，也可以使用 list_availability_watches 查看。',
+    watches_none: '沒有空位監控。',
+    watches_header: '空位監控（共 {count} 個）：',
+    label_status: '狀態',
+    watch_status_active: '監控中',
+    watch_status_matched: '有空位',
+    watch_status_expired: '已過期',
+    label_open_slots_found: '找到的空位',
+    label_note: '備註',
+    label_checks: '檢查次數',
+    watch_last_checked: '，最近一次 {time}',
+    label_last_error: '最近錯誤',
+    watch_deleted: '已刪除空位監控 {watch_id}。',
+  },
+};
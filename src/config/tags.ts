@@ -0,0 +1,94 @@
+/**
+ * Shop tags known to the TableCheck shop_search API, with localized labels
+ * in the same shape as the API's text_translations
+ */
+export const SHOP_TAGS: { id: string; translations: { locale: string; translation: string }[] }[] = [
+  { id: 'all-drink', translations: [
+    { locale: 'en', translation: 'All-you-can-drink' }, { locale: 'ja', translation: '飲み放題' }, { locale: 'ko', translation: '음료 무제한' },
+    { locale: 'zh-CN', translation: '畅饮' }, { locale: 'zh-TW', translation: '暢飲' }
+  ] },
+  { id: 'birthday', translations: [
+    { locale: 'en', translation: 'Birthdays & Celebrations' }, { locale: 'ja', translation: '誕生日・記念日' }, { locale: 'ko', translation: '생일・기념일' },
+    { locale: 'zh-CN', translation: '生日・纪念日' }, { locale: 'zh-TW', translation: '生日・紀念日' }
+  ] },
+  { id: 'business', translations: [
+    { locale: 'en', translation: 'Business Dining' }, { locale: 'ja', translation: '接待・会食' }, { locale: 'ko', translation: '비즈니스 식사' },
+    { locale: 'zh-CN', translation: '商务宴请' }, { locale: 'zh-TW', translation: '商務宴請' }
+  ] },
+  { id: 'casual', translations: [
+    { locale: 'en', translation: 'Casual' }, { locale: 'ja', translation: 'カジュアル' }, { locale: 'ko', translation: '캐주얼' },
+    { locale: 'zh-CN', translation: '休闲' }, { locale: 'zh-TW', translation: '休閒' }
+  ] },
+  { id: 'dates', translations: [
+    { locale: 'en', translation: 'Dates' }, { locale: 'ja', translation: 'デート' }, { locale: 'ko', translation: '데이트' },
+    { locale: 'zh-CN', translation: '约会' }, { locale: 'zh-TW', translation: '約會' }
+  ] },
+  { id: 'drinks', translations: [
+    { locale: 'en', translation: 'Drinks' }, { locale: 'ja', translation: 'お酒' }, { locale: 'ko', translation: '술' },
+    { locale: 'zh-CN', translation: '酒水' }, { locale: 'zh-TW', translation: '酒類' }
+  ] },
+  { id: 'events', translations: [
+    { locale: 'en', translation: 'Events & Parties' }, { locale: 'ja', translation: 'イベント・パーティー' }, { locale: 'ko', translation: '이벤트・파티' },
+    { locale: 'zh-CN', translation: '活动・聚会' }, { locale: 'zh-TW', translation: '活動・派對' }
+  ] },
+  { id: 'formal', translations: [
+    { locale: 'en', translation: 'Formal' }, { locale: 'ja', translation: 'フォーマル' }, { locale: 'ko', translation: '포멀' },
+    { locale: 'zh-CN', translation: '正式' }, { locale: 'zh-TW', translation: '正式' }
+  ] },
+  { id: 'groups', translations: [
+    { locale: 'en', translation: 'Groups' }, { locale: 'ja', translation: 'グループ・団体' }, { locale: 'ko', translation: '단체' },
+    { locale: 'zh-CN', translation: '团体' }, { locale: 'zh-TW', translation: '團體' }
+  ] },
+  { id: 'healthy', translations: [
+    { locale: 'en', translation: 'Healthy' }, { locale: 'ja', translation: 'ヘルシー' }, { locale: 'ko', translation: '건강식' },
+    { locale: 'zh-CN', translation: '健康' }, { locale: 'zh-TW', translation: '健康' }
+  ] },
+  { id: 'kids', translations: [
+    { locale: 'en', translation: 'Kid Friendly' }, { locale: 'ja', translation: 'お子様連れ歓迎' }, { locale: 'ko', translation: '아이 동반 환영' },
+    { locale: 'zh-CN', translation: '欢迎携带儿童' }, { locale: 'zh-TW', translation: '歡迎攜帶兒童' }
+  ] },
+  { id: 'music', translations: [
+    { locale: 'en', translation: 'Live Music' }, { locale: 'ja', translation: 'ライブ音楽' }, { locale: 'ko', translation: '라이브 음악' },
+    { locale: 'zh-CN', translation: '现场音乐' }, { locale: 'zh-TW', translation: '現場音樂' }
+  ] },
+  { id: 'outdoor', translations: [
+    { locale: 'en', translation: 'Outdoor Seating' }, { locale: 'ja', translation: 'テラス席' }, { locale: 'ko', translation: '테라스석' },
+    { locale: 'zh-CN', translation: '露天座位' }, { locale: 'zh-TW', translation: '露天座位' }
+  ] },
+  { id: 'pets', translations: [
+    { locale: 'en', translation: 'Pet Friendly' }, { locale: 'ja', translation: 'ペット同伴可' }, { locale: 'ko', translation: '반려동물 동반 가능' },
+    { locale: 'zh-CN', translation: '可携带宠物' }, { locale: 'zh-TW', translation: '可攜帶寵物' }
+  ] },
+  { id: 'private', translations: [
+    { locale: 'en', translation: 'Private Rooms' }, { locale: 'ja', translation: '個室' }, { locale: 'ko', translation: '개별실' },
+    { locale: 'zh-CN', translation: '包间' }, { locale: 'zh-TW', translation: '包廂' }
+  ] },
+  { id: 'quiet', translations: [
+    { locale: 'en', translation: 'Quiet' }, { locale: 'ja', translation: '落ち着いた雰囲気' }, { locale: 'ko', translation: '조용한 분위기' },
+    { locale: 'zh-CN', translation: '安静' }, { locale: 'zh-TW', translation: '安靜' }
+  ] },
+  { id: 'romantic', translations: [
+    { locale: 'en', translation: 'Romantic' }, { locale: 'ja', translation: 'ロマンチック' }, { locale: 'ko', translation: '로맨틱' },
+    { locale: 'zh-CN', translation: '浪漫' }, { locale: 'zh-TW', translation: '浪漫' }
+  ] },
+  { id: 'semiprivate', translations: [
+    { locale: 'en', translation: 'Semi-private Rooms' }, { locale: 'ja', translation: '半個室' }, { locale: 'ko', translation: '반개별실' },
+    { locale: 'zh-CN', translation: '半包间' }, { locale: 'zh-TW', translation: '半包廂' }
+  ] },
+  { id: 'smokefree', translations: [
+    { locale: 'en', translation: 'Smoke-free' }, { locale: 'ja', translation: '禁煙' }, { locale: 'ko', translation: '금연' },
+    { locale: 'zh-CN', translation: '禁烟' }, { locale: 'zh-TW', translation: '禁菸' }
+  ] },
+  { id: 'tourism', translations: [
+    { locale: 'en', translation: 'Tourist Friendly' }, { locale: 'ja', translation: '観光客歓迎' }, { locale: 'ko', translation: '관광객 환영' },
+    { locale: 'zh-CN', translation: '欢迎游客' }, { locale: 'zh-TW', translation: '歡迎遊客' }
+  ] },
+  { id: 'vibrant', translations: [
+    { locale: 'en', translation: 'Lively' }, { locale: 'ja', translation: 'にぎやか' }, { locale: 'ko', translation: '활기찬 분위기' },
+    { locale: 'zh-CN', translation: '热闹' }, { locale: 'zh-TW', translation: '熱鬧' }
+  ] },
+  { id: 'views', translations: [
+    { locale: 'en', translation: 'Great Views' }, { locale: 'ja', translation: '景色が良い' }, { locale: 'ko', translation: '전망이 좋은' },
+    { locale: 'zh-CN', translation: '景色优美' }, { locale: 'zh-TW', translation: '景色優美' }
+  ] }
+];
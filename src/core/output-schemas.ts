@@ -0,0 +1,369 @@
+/**
+ * JSON schemas for the structuredContent returned by each tool.
+ * These mirror the interfaces in types/index.ts.
+ */
+
+const priceRangeSchema = {
+  type: "object",
+  properties: {
+    min: { type: "number" },
+    max: { type: "number" },
+    currency: { type: "string" }
+  },
+  required: ["currency"]
+};
+
+const locationSchema = {
+  type: "object",
+  properties: {
+    lat: { type: ["number", "null"] },
+    lng: { type: ["number", "null"] }
+  },
+  required: ["lat", "lng"]
+};
+
+const convertedPricesSchema = {
+  type: "object",
+  description: "Prices converted to the search currency; set when it differs from the restaurant's currency",
+  properties: {
+    currency: { type: "string" },
+    rate: { type: "number", description: "Units of currency per unit of the restaurant's currency" },
+    price_avg: { type: "number" },
+    lunch_price_avg: { type: "number" },
+    dinner_price_avg: { type: "number" },
+    lunch_price_range: priceRangeSchema,
+    dinner_price_range: priceRangeSchema
+  },
+  required: ["currency", "rate", "lunch_price_range", "dinner_price_range"]
+};
+
+const relevanceSchema = {
+  type: "object",
+  description: "Relevance score and what it is made of; set when sorting by relevance",
+  properties: {
+    score: { type: "number", description: "Weighted sum of the components, 0 to 1" },
+    components: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          factor: { type: "string", enum: ["text_match", "distance", "budget", "availability", "tags"] },
+          score: { type: "number", description: "0 to 1" },
+          weight: { type: "number", description: "Share of the total score" },
+          reason: { type: "string" }
+        },
+        required: ["factor", "score", "weight", "reason"]
+      }
+    }
+  },
+  required: ["score", "components"]
+};
+
+export const restaurantSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    name: { type: "string" },
+    kana_name: { type: "string" },
+    slug: { type: "string" },
+    cuisine: { type: "array", items: { type: "string" } },
+    location: locationSchema,
+    currency: { type: "string" },
+    price_avg: { type: "number" },
+    lunch_price_avg: { type: "number" },
+    dinner_price_avg: { type: "number" },
+    lunch_price_range: priceRangeSchema,
+    dinner_price_range: priceRangeSchema,
+    available_dates: { type: "array", items: { type: "string" } },
+    tags: { type: "array", items: { type: "string" } },
+    image_url: { type: "string" },
+    reservation_url: { type: "string" },
+    matched_by: {
+      type: "array",
+      items: { type: "string", enum: ["name", "cuisine"] },
+      description: "How the restaurant matched the text query: by its name, by a cuisine the query named, or both"
+    },
+    relevance: relevanceSchema,
+    converted_prices: convertedPricesSchema
+  },
+  required: ["id", "name", "slug", "cuisine", "location", "currency", "lunch_price_range", "dinner_price_range", "available_dates", "tags", "reservation_url"]
+};
+
+export const availabilitySlotSchema = {
+  type: "object",
+  properties: {
+    date: { type: "string", description: "Date of the slot (YYYY-MM-DD)" },
+    time: { type: "string", description: "Start time of the slot (ISO 8601, UTC)" },
+    available: { type: "boolean" },
+    party_size: { type: "number" }
+  },
+  required: ["date", "time", "available", "party_size"]
+};
+
+const cuisineSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    name: { type: "string" },
+    name_en: { type: "string" },
+    name_ja: { type: "string" },
+    locale: { type: "string" }
+  },
+  required: ["id", "name", "name_en", "name_ja", "locale"]
+};
+
+const tagSchema = cuisineSchema;
+
+const interpretedSchema = {
+  type: "array",
+  description: "How date and time arguments given in words (e.g. \"next Friday\", \"7pm\") were read; absent when none were",
+  items: {
+    type: "object",
+    properties: {
+      field: { type: "string", description: "Argument name, e.g. date_min" },
+      input: { type: "string", description: "Value as given by the caller" },
+      value: { type: "string", description: "Value used (YYYY-MM-DD, HH:MM, ISO 8601 date-time or a number of days)" }
+    },
+    required: ["field", "input", "value"]
+  }
+};
+
+export const searchRestaurantsOutputSchema = {
+  type: "object",
+  properties: {
+    restaurants: { type: "array", items: restaurantSchema },
+    record_count: { type: "number", description: "Total number of restaurants matching the search" },
+    next_cursor: { type: "string", description: "Pass as cursor to fetch the next page; absent on the last page" },
+    interpreted: interpretedSchema
+  },
+  required: ["restaurants", "record_count"]
+};
+
+export const restaurantDetailsOutputSchema = {
+  type: "object",
+  properties: {
+    ...restaurantSchema.properties,
+    internal_id: { type: "string", description: "24-character TableCheck shop ID" },
+    title: { type: "string" },
+    tagline: { type: "string" },
+    description: { type: "string" },
+    images: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          url: { type: "string" },
+          thumbnail_url: { type: "string" },
+          caption: { type: "string" }
+        },
+        required: ["url"]
+      }
+    },
+    area_name: { type: "string" },
+    area_kana_name: { type: "string" },
+    time_zone: { type: "string" },
+    primary_locale: { type: "string" },
+    service_modes: { type: "array", items: { type: "string" } },
+    smartpay: { type: "boolean", description: "Whether the restaurant accepts TableCheck SmartPay" },
+    booking_page_mode: { type: "string" }
+  },
+  required: [...restaurantSchema.required, "images", "service_modes", "smartpay"]
+};
+
+export const availabilityOutputSchema = {
+  type: "object",
+  properties: {
+    shop_id: { type: "string" },
+    start_at: { type: "string", description: "Resolved start of the calendar (ISO 8601 with offset)" },
+    requested_start_at: { type: "string", description: "start_at as given by the caller" },
+    interpreted: interpretedSchema,
+    timezone: { type: "string", description: "Requester's time zone" },
+    shop_time_zone: { type: "string", description: "Restaurant's time zone; slot dates are dates at the restaurant" },
+    num_people: { type: "number" },
+    closed_dates: { type: "array", items: { type: "string" } },
+    summary: {
+      type: "object",
+      properties: {
+        first_available: { type: "string", description: "First open slot (ISO 8601, UTC)" },
+        total_open_slots: { type: "number" },
+        days: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              date: { type: "string", description: "Date at the restaurant (YYYY-MM-DD)" },
+              closed: { type: "boolean" },
+              open_slots: { type: "number" },
+              first_open: { type: "string" },
+              last_open: { type: "string" }
+            },
+            required: ["date", "closed", "open_slots"]
+          }
+        }
+      },
+      required: ["total_open_slots", "days"]
+    },
+    slots: {
+      type: "array",
+      items: {
+        ...availabilitySlotSchema,
+        properties: {
+          ...availabilitySlotSchema.properties,
+          shop_local_time: { type: "string", description: "Slot start in the restaurant's time zone (ISO 8601 with offset)" },
+          local_time: { type: "string", description: "Slot start in the requester's time zone (ISO 8601 with offset)" }
+        }
+      }
+    }
+  },
+  required: ["shop_id", "start_at", "timezone", "shop_time_zone", "num_people", "closed_dates", "summary", "slots"]
+};
+
+export const compareAvailabilityOutputSchema = {
+  type: "object",
+  properties: {
+    start_at: { type: "string" },
+    timezone: { type: "string" },
+    num_people: { type: "number" },
+    interpreted: interpretedSchema,
+    shops: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          shop_id: { type: "string" },
+          open_slot_count: { type: "number" },
+          error: { type: "string" },
+          error_code: { type: "string", description: "Error category, e.g. not_found or timeout" }
+        },
+        required: ["shop_id", "open_slot_count"]
+      }
+    },
+    matrix: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          time: { type: "string", description: "Start time of the slot (ISO 8601, UTC)" },
+          local_date: { type: "string" },
+          local_time: { type: "string" },
+          shop_ids: { type: "array", items: { type: "string" } }
+        },
+        required: ["time", "local_date", "local_time", "shop_ids"]
+      }
+    }
+  },
+  required: ["start_at", "timezone", "num_people", "shops", "matrix"]
+};
+
+export const findTableOutputSchema = {
+  type: "object",
+  properties: {
+    date: { type: "string" },
+    time_from: { type: "string" },
+    time_to: { type: "string" },
+    timezone: { type: "string" },
+    interpreted: interpretedSchema,
+    matches: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          restaurant: restaurantSchema,
+          time_zone: { type: "string", description: "Restaurant time zone the date and time window were read in" },
+          slots: { type: "array", items: { type: "string" }, description: "Open slot start times in the window (ISO 8601, UTC)" },
+          best_slot: { type: "string" },
+          minutes_from_requested: { type: "number" },
+          distance_km: { type: "number" }
+        },
+        required: ["restaurant", "time_zone", "slots", "best_slot", "minutes_from_requested"]
+      }
+    }
+  },
+  required: ["date", "time_from", "time_to", "timezone", "matches"]
+};
+
+export const listCuisinesOutputSchema = {
+  type: "object",
+  properties: {
+    locale: { type: "string" },
+    cuisines: { type: "array", items: cuisineSchema }
+  },
+  required: ["locale", "cuisines"]
+};
+
+export const listTagsOutputSchema = {
+  type: "object",
+  properties: {
+    locale: { type: "string" },
+    tags: { type: "array", items: tagSchema }
+  },
+  required: ["locale", "tags"]
+};
+
+export const reservationLinkOutputSchema = {
+  type: "object",
+  properties: {
+    shop_id: { type: "string" },
+    reservation_url: { type: "string" },
+    locale: { type: "string" },
+    parameters: {
+      type: "object",
+      properties: {
+        num_people: { type: "number" },
+        date: { type: "string" },
+        time: { type: "string" },
+        location: locationSchema
+      }
+    }
+  },
+  required: ["shop_id", "reservation_url", "locale", "parameters"]
+};
+
+const watchSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    owner_id: { type: "string", description: "Authenticated caller that created the watch: the client ID, followed by the token subject for OAuth" },
+    shop_id: { type: "string" },
+    date: { type: "string", description: "Date at the restaurant (YYYY-MM-DD)" },
+    num_people: { type: "number" },
+    time_from: { type: "string" },
+    time_to: { type: "string" },
+    note: { type: "string" },
+    status: { type: "string", enum: ["active", "matched", "expired"] },
+    created_at: { type: "string" },
+    checks: { type: "number" },
+    last_checked_at: { type: "string" },
+    last_error: { type: "string" },
+    matched_at: { type: "string" },
+    matched_slots: { type: "array", items: { type: "string" }, description: "Open slot start times found (ISO 8601, UTC)" },
+    time_zone: { type: "string", description: "Restaurant's time zone" }
+  },
+  required: ["id", "shop_id", "date", "num_people", "status", "created_at", "checks", "matched_slots"]
+};
+
+export const createWatchOutputSchema = {
+  type: "object",
+  properties: {
+    watch: watchSchema,
+    resource_uri: { type: "string", description: "MCP resource that is updated when the watch matches" }
+  },
+  required: ["watch", "resource_uri"]
+};
+
+export const listWatchesOutputSchema = {
+  type: "object",
+  properties: {
+    watches: { type: "array", items: watchSchema }
+  },
+  required: ["watches"]
+};
+
+export const deleteWatchOutputSchema = {
+  type: "object",
+  properties: {
+    watch_id: { type: "string" },
+    deleted: { type: "boolean" }
+  },
+  required: ["watch_id", "deleted"]
+};
@@ -2,16 +2,118 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { 
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ErrorCode,
   McpError,
-  CallToolRequest
+  CallToolRequest,
+  ServerRequest,
+  ServerNotification
 } from "@modelcontextprotocol/sdk/types.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { randomUUID } from 'crypto';
 
 import { TableCheckService } from '../services/tablecheck.js';
+import { WatchService, createWatchService, watchResourceUri } from '../services/watches.js';
+import { getOwnerId } from '../auth/verifiers.js';
+import { CONFIG } from '../config/constants.js';
+import { LOCALES } from '../config/locales.js';
+import { AvailabilityWatch, ProgressCallback, ToolContext } from '../types/index.js';
+import { logger, getLogContext, runWithLogContext } from '../utils/logger.js';
+import { toolCallsTotal, toolCallDuration } from '../services/metrics.js';
 import { handleSearchRestaurants } from '../handlers/search.js';
 import { handleGetAvailability } from '../handlers/availability.js';
 import { handleListCuisines } from '../handlers/cuisines.js';
 import { handleGenerateReservationLink } from '../handlers/links.js';
+import { handleListTags } from '../handlers/tags.js';
+import { handleCompareAvailability } from '../handlers/compare.js';
+import { handleFindTable } from '../handlers/find.js';
+import { handleGetRestaurantDetails } from '../handlers/details.js';
+import { handleCreateAvailabilityWatch, handleListAvailabilityWatches, handleDeleteAvailabilityWatch } from '../handlers/watches.js';
+import { formatToolError } from '../handlers/errors.js';
+import {
+  searchRestaurantsOutputSchema,
+  restaurantDetailsOutputSchema,
+  availabilityOutputSchema,
+  compareAvailabilityOutputSchema,
+  findTableOutputSchema,
+  listCuisinesOutputSchema,
+  listTagsOutputSchema,
+  reservationLinkOutputSchema,
+  createWatchOutputSchema,
+  listWatchesOutputSchema,
+  deleteWatchOutputSchema
+} from './output-schemas.js';
+
+/**
+ * Search criteria shared by search_restaurants and find_table
+ */
+const searchCriteriaProperties = {
+  query: {
+    type: "string",
+    description: "Text search query (restaurant name, cuisine type, etc.)"
+  },
+  location: {
+    oneOf: [
+      {
+        type: "string",
+        description: "Location name: a Japanese prefecture, city, neighborhood or major station in romaji or kanji (e.g., 'Shibuya', 'Osaka', '京都駅')"
+      },
+      {
+        type: "object",
+        properties: {
+          lat: { type: "number", description: "Latitude" },
+          lng: { type: "number", description: "Longitude" }
+        },
+        required: ["lat", "lng"],
+        description: "Geographic coordinates for location-based search"
+      }
+    ]
+  },
+  cuisines: {
+    type: "array",
+    items: { type: "string" },
+    description: "Array of cuisine types to filter by (use list_cuisines to get available options)"
+  },
+  tags: {
+    type: "array",
+    items: { type: "string" },
+    description: "Only return restaurants with all of these tags, e.g. quiet, private, romantic (use list_tags to get available options)"
+  },
+  exclude_tags: {
+    type: "array",
+    items: { type: "string" },
+    description: "Exclude restaurants with any of these tags (use list_tags to get available options)"
+  },
+  budget_min: {
+    type: "number",
+    description: "Minimum budget per person"
+  },
+  budget_max: {
+    type: "number",
+    description: "Maximum budget per person"
+  },
+  meal_period: {
+    type: "string",
+    enum: ["lunch", "dinner", "any"],
+    description: "Meal the search is for. Budgets filter that meal's average price (dinner when omitted; either meal for \"any\"), availability assumes a typical time for the meal (12:00 or 19:00) unless time is set, and its price range is listed first"
+  },
+  currency: {
+    type: "string",
+    description: "ISO 4217 currency code (e.g. USD, EUR, SGD) that budget_min and budget_max are in; prices are also shown converted to it, next to the restaurant's own currency. Conversions use approximate exchange rates"
+  },
+  geo_distance: {
+    type: "string",
+    description: "Distance radius for location-based search (e.g., '5km', '10km')"
+  },
+  locale: {
+    type: "string",
+    enum: [...LOCALES],
+    description: "Language locale for names and output text (\"jp\" is accepted as an alias of \"ja\")"
+  }
+};
 
 /**
  * Tool definitions for the MCP server
@@ -23,39 +125,14 @@ export const tools = [
     inputSchema: {
       type: "object",
       properties: {
-        query: {
-          type: "string",
-          description: "Text search query (restaurant name, cuisine type, etc.)"
-        },
-        location: {
-          oneOf: [
-            {
-              type: "string",
-              description: "Location name (e.g., 'Shibuya', 'Tokyo Station')"
-            },
-            {
-              type: "object",
-              properties: {
-                lat: { type: "number", description: "Latitude" },
-                lng: { type: "number", description: "Longitude" }
-              },
-              required: ["lat", "lng"],
-              description: "Geographic coordinates for location-based search"
-            }
-          ]
-        },
-        cuisines: {
-          type: "array",
-          items: { type: "string" },
-          description: "Array of cuisine types to filter by (use list_cuisines to get available options)"
-        },
+        ...searchCriteriaProperties,
         date_min: {
           type: "string",
-          description: "Earliest reservation date (YYYY-MM-DD format)"
+          description: "Earliest reservation date: YYYY-MM-DD, or words such as \"tomorrow\", \"next Friday\", \"July 20\" or \"明日\". A range such as \"this weekend\" or \"next week\" also sets date_max"
         },
         date_max: {
           type: "string",
-          description: "Latest reservation date (YYYY-MM-DD format)"
+          description: "Latest reservation date: YYYY-MM-DD, or words such as \"next Sunday\""
         },
         num_people: {
           type: "number",
@@ -63,41 +140,93 @@ export const tools = [
         },
         time: {
           type: "string",
-          description: "Preferred time (HH:MM format)"
+          description: "Preferred time: HH:MM, or words such as \"7pm\" or \"19時\""
         },
-        budget_min: {
-          type: "number",
-          description: "Minimum budget per person"
+        sort_by: {
+          type: "string",
+          enum: ["distance", "price", "relevance"],
+          description: "Sort results by distance, price or relevance. Relevance scores each restaurant on how well it matches the query, distance, budget fit, available dates and wanted tags, ranks up to 500 matches as one list across pages and returns a per-restaurant score breakdown"
+        },
+        sort_order: {
+          type: "string",
+          enum: ["asc", "desc"],
+          description: "Sort order (ascending or descending); relevance is always highest first"
         },
-        budget_max: {
+        page_size: {
           type: "number",
-          description: "Maximum budget per person"
+          description: "Number of restaurants per page (1-100, default 50)"
         },
-        geo_distance: {
+        cursor: {
           type: "string",
-          description: "Distance radius for location-based search (e.g., '5km', '10km')"
+          description: "Cursor returned by a previous search to fetch the next page of results. Keep all other search arguments the same; only page_size may change."
+        }
+      }
+    },
+    outputSchema: searchRestaurantsOutputSchema
+  },
+  {
+    name: "find_table",
+    description: "Find restaurants with a confirmed open table in a time window on a given date (e.g. Friday 19:00-20:30). Combines a restaurant search with slot-level availability checks and ranks results by closeness to the requested time, then distance.",
+    inputSchema: {
+      type: "object",
+      required: ["date", "time_from", "time_to", "num_people"],
+      properties: {
+        ...searchCriteriaProperties,
+        date: {
+          type: "string",
+          description: "Reservation date: YYYY-MM-DD, or a single day in words such as \"tomorrow\" or \"next Friday\""
         },
-        sort_by: {
+        time_from: {
           type: "string",
-          enum: ["distance", "price"],
-          description: "Sort results by distance or price"
+          description: "Earliest acceptable time (HH:MM, or e.g. \"6pm\")"
         },
-        sort_order: {
+        time_to: {
           type: "string",
-          enum: ["asc", "desc"],
-          description: "Sort order (ascending or descending)"
+          description: "Latest acceptable time (HH:MM, or e.g. \"9pm\")"
+        },
+        time: {
+          type: "string",
+          description: "Preferred time within the window, used for ranking (HH:MM or e.g. \"7pm\", defaults to time_from)"
+        },
+        timezone: {
+          type: "string",
+          description: "Your time zone, used to read relative dates such as \"tomorrow\" and to show the best time in your time too (example: America/Chicago, Europe/London). The date and time window are at each restaurant, in its own time zone"
+        },
+        num_people: {
+          type: "number",
+          description: "Number of people for the reservation (1-20)"
+        },
+        max_candidates: {
+          type: "number",
+          description: "Maximum number of restaurants to check availability for (1-20, default 10)"
+        }
+      }
+    },
+    outputSchema: findTableOutputSchema
+  },
+  {
+    name: "get_restaurant_details",
+    description: "Get the full profile of a restaurant: description, images, area, time zone, budgets by meal period, service modes and payment features",
+    inputSchema: {
+      type: "object",
+      required: ["shop_id"],
+      properties: {
+        shop_id: {
+          type: "string",
+          description: "Restaurant ID or slug (get this from search results)"
         },
         locale: {
           type: "string",
-          enum: ["en", "jp"],
-          description: "Language locale"
+          enum: [...LOCALES],
+          description: "Language locale for names and output text (\"jp\" is accepted as an alias of \"ja\")"
         }
       }
-    }
+    },
+    outputSchema: restaurantDetailsOutputSchema
   },
   {
     name: "get_restaurant_availability",
-    description: "Get detailed availability calendar for a specific restaurant",
+    description: "Get the availability calendar for a specific restaurant. Returns open slots only by default, with a summary of the first open slot and open slots per day; set detail to list every slot",
     inputSchema: {
       type: "object",
       required: ["shop_id", "start_at", "num_people"],
@@ -108,7 +237,65 @@ export const tools = [
         },
         start_at: {
           type: "string",
-          description: "Start date/time for availability check in my local timezone (ISO 8601 format: YYYY-MM-DDTHH:MM:SS±HH:MM)"
+          description: "Start of the availability check: an ISO 8601 date-time (YYYY-MM-DDTHH:MM:SS±HH:MM; without an offset it is read in timezone), a date at the restaurant (YYYY-MM-DD), \"today\", \"tomorrow\", an offset such as \"+3d\" or \"in 2 weeks\", or words such as \"next Friday 7pm\" or \"明日19時\". A range such as \"this weekend\" also sets days"
+        },
+        timezone: {
+          type: "string",
+          description: "Your time zone, used to show slot times alongside the restaurant's own time zone (example: America/Chicago, Europe/London). Defaults to the restaurant's time zone"
+        },
+        num_people: {
+          type: "number",
+          description: "Number of people for the reservation (1-20)"
+        },
+        time_from: {
+          type: "string",
+          description: "Earliest slot time at the restaurant (HH:MM, or e.g. \"6pm\")"
+        },
+        time_to: {
+          type: "string",
+          description: "Latest slot time at the restaurant (HH:MM, or e.g. \"9pm\")"
+        },
+        days: {
+          type: "number",
+          description: `Number of days to include, starting from start_at (1-${CONFIG.MAX_AVAILABILITY_DAYS})`
+        },
+        weekdays: {
+          type: "array",
+          items: { type: "string", enum: ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] },
+          description: "Only include these days of the week (e.g. [\"fri\", \"sat\"])"
+        },
+        only_available: {
+          type: "boolean",
+          description: "Only return open slots (default: true)"
+        },
+        detail: {
+          type: "boolean",
+          description: "List every slot instead of only the summary (default: false)"
+        },
+        locale: {
+          type: "string",
+          enum: [...LOCALES],
+          description: "Language locale for names and output text (\"jp\" is accepted as an alias of \"ja\")"
+        }
+      }
+    },
+    outputSchema: availabilityOutputSchema
+  },
+  {
+    name: "compare_availability",
+    description: "Compare availability across several restaurants at once (e.g. candidates from a search). Returns which restaurants have open slots at which times; failures for individual restaurants are reported per restaurant.",
+    inputSchema: {
+      type: "object",
+      required: ["shop_ids", "start_at", "num_people"],
+      properties: {
+        shop_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Restaurant IDs or slugs to compare (get these from search results, max 10)"
+        },
+        start_at: {
+          type: "string",
+          description: "Start of the availability check: an ISO 8601 date-time (without an offset it is read in timezone), a date at the restaurant (YYYY-MM-DD), \"today\", \"tomorrow\", an offset such as \"+3d\", or words such as \"next Friday\""
         },
         timezone: {
           type: "string",
@@ -118,13 +305,22 @@ export const tools = [
           type: "number",
           description: "Number of people for the reservation (1-20)"
         },
+        time_from: {
+          type: "string",
+          description: "Earliest slot time to include, in the reservation timezone (HH:MM, or e.g. \"6pm\")"
+        },
+        time_to: {
+          type: "string",
+          description: "Latest slot time to include, in the reservation timezone (HH:MM, or e.g. \"9pm\")"
+        },
         locale: {
           type: "string",
-          enum: ["en", "jp"],
-          description: "Language locale"
+          enum: [...LOCALES],
+          description: "Language locale for names and output text (\"jp\" is accepted as an alias of \"ja\")"
         }
       }
-    }
+    },
+    outputSchema: compareAvailabilityOutputSchema
   },
   {
     name: "list_cuisines",
@@ -134,11 +330,27 @@ export const tools = [
       properties: {
         locale: {
           type: "string",
-          enum: ["en", "jp"],
-          description: "Language locale for cuisine names"
+          enum: [...LOCALES],
+          description: "Language locale for cuisine names (\"jp\" is accepted as an alias of \"ja\")"
         }
       }
-    }
+    },
+    outputSchema: listCuisinesOutputSchema
+  },
+  {
+    name: "list_tags",
+    description: "Get a list of all restaurant tags (e.g. quiet, private, romantic, kids, pets, views) for filtering restaurant searches",
+    inputSchema: {
+      type: "object",
+      properties: {
+        locale: {
+          type: "string",
+          enum: [...LOCALES],
+          description: "Language locale for tag names (\"jp\" is accepted as an alias of \"ja\")"
+        }
+      }
+    },
+    outputSchema: listTagsOutputSchema
   },
   {
     name: "generate_reservation_link",
@@ -167,7 +379,7 @@ export const tools = [
           oneOf: [
             {
               type: "string",
-              description: "Location name (e.g., 'Shibuya', 'Tokyo Station')"
+              description: "Location name: a Japanese prefecture, city, neighborhood or major station in romaji or kanji (e.g., 'Shibuya', 'Osaka', '京都駅')"
             },
             {
               type: "object",
@@ -182,18 +394,137 @@ export const tools = [
         },
         locale: {
           type: "string",
-          enum: ["en", "jp"],
-          description: "Language locale"
+          enum: [...LOCALES],
+          description: "Language locale for names and output text (\"jp\" is accepted as an alias of \"ja\")"
         }
       }
-    }
+    },
+    outputSchema: reservationLinkOutputSchema
+  },
+  {
+    name: "create_availability_watch",
+    description: "Watch a fully booked restaurant and record when a table opens up on a date (optionally within a time window). Watches are checked in the background; subscribe to the returned resource to be notified where the connection allows it (stdio, or a stateful HTTP session), or check list_availability_watches.",
+    inputSchema: {
+      type: "object",
+      required: ["shop_id", "date", "num_people"],
+      properties: {
+        shop_id: {
+          type: "string",
+          description: "Restaurant ID or slug (get this from search results)"
+        },
+        date: {
+          type: "string",
+          description: "Date at the restaurant (YYYY-MM-DD format)"
+        },
+        num_people: {
+          type: "number",
+          description: "Number of people for the reservation (1-20)"
+        },
+        time_from: {
+          type: "string",
+          description: "Earliest acceptable time at the restaurant (HH:MM)"
+        },
+        time_to: {
+          type: "string",
+          description: "Latest acceptable time at the restaurant (HH:MM)"
+        },
+        note: {
+          type: "string",
+          description: "Optional note to remember what the watch is for"
+        },
+        locale: {
+          type: "string",
+          enum: [...LOCALES],
+          description: "Language locale for output text (\"jp\" is accepted as an alias of \"ja\")"
+        }
+      }
+    },
+    outputSchema: createWatchOutputSchema
+  },
+  {
+    name: "list_availability_watches",
+    description: "List availability watches with their status (active, matched or expired) and any open slots found",
+    inputSchema: {
+      type: "object",
+      properties: {
+        status: {
+          type: "string",
+          enum: ["active", "matched", "expired"],
+          description: "Only list watches with this status"
+        },
+        locale: {
+          type: "string",
+          enum: [...LOCALES],
+          description: "Language locale for output text (\"jp\" is accepted as an alias of \"ja\")"
+        }
+      }
+    },
+    outputSchema: listWatchesOutputSchema
+  },
+  {
+    name: "delete_availability_watch",
+    description: "Delete an availability watch",
+    inputSchema: {
+      type: "object",
+      required: ["watch_id"],
+      properties: {
+        watch_id: {
+          type: "string",
+          description: "Watch ID (from create_availability_watch or list_availability_watches)"
+        },
+        locale: {
+          type: "string",
+          enum: [...LOCALES],
+          description: "Language locale for output text (\"jp\" is accepted as an alias of \"ja\")"
+        }
+      }
+    },
+    outputSchema: deleteWatchOutputSchema
   }
 ];
 
+/**
+ * Builds a progress callback that sends progress notifications for a tool call,
+ * if the client asked for them with a progress token
+ * @param request Tool call request
+ * @param extra Request context from the SDK
+ * @returns Progress callback, or undefined if the client did not ask for progress
+ */
+function createProgressCallback(
+  request: CallToolRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ProgressCallback | undefined {
+  const progressToken = request.params._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  return async (progress: number, total: number, message?: string) => {
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message }
+      });
+    } catch (error) {
+      // Progress is best effort; the client may have gone away
+      logger.warn('Error sending progress notification', { error });
+    }
+  };
+}
+
 /**
  * Creates and configures the MCP server
+ * @param tableCheckService TableCheck service to use, so callers can share one across servers
+ * @param watchService Availability watch service, shared with the background poller
+ * @param options.notifications Whether the transport can send notifications
+ * outside a request; stateless HTTP cannot, so subscriptions are refused there
  */
-export function createMcpServer(): Server {
+export function createMcpServer(
+  tableCheckService: TableCheckService = new TableCheckService(),
+  watchService: WatchService = createWatchService(tableCheckService),
+  options: { notifications?: boolean } = {}
+): Server {
+  const notifications = options.notifications ?? true;
   const server = new Server(
     {
       name: "tablecheck-mcp",
@@ -203,12 +534,13 @@ export function createMcpServer(): Server {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: notifications },
       }
     }
   );
 
-  // Initialize TableCheck service
-  const tableCheckService = new TableCheckService();
+  // Resource URIs this client has subscribed to
+  const subscriptions = new Set<string>();
 
   /**
    * List tools request handler
@@ -220,41 +552,160 @@ export function createMcpServer(): Server {
   /**
    * Call tool request handler
    */
-  server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest, extra) => {
     const { name, arguments: args } = request.params;
-    try {
-      switch (name) {
-        case "search_restaurants":
-          return await handleSearchRestaurants(tableCheckService, args || {});
-          
-        case "get_restaurant_availability":
-          return await handleGetAvailability(tableCheckService, args || {});
-          
-        case "list_cuisines":
-          return await handleListCuisines(tableCheckService, args || {});
-          
-        case "generate_reservation_link":
-          return await handleGenerateReservationLink(tableCheckService, args || {});
-          
-        default:
-          throw new McpError(
-            ErrorCode.MethodNotFound,
-            `Unknown tool: ${name}`
-          );
-      }
-    } catch (error) {
-      console.error(`Error calling tool ${name}:`, error);
-      
-      if (error instanceof McpError) {
-        throw error;
+    const context: ToolContext = {
+      ownerId: getOwnerId(extra.authInfo),
+      onProgress: createProgressCallback(request, extra)
+    };
+
+    // Tool calls over stdio have no HTTP request ID, so each call gets its own
+    return runWithLogContext({
+      tool: name,
+      request_id: getLogContext().request_id || randomUUID(),
+      ...(extra.authInfo ? { client_id: extra.authInfo.clientId } : {})
+    }, async () => {
+      // Unknown names come from clients, so they share one series
+      const tool = tools.some(definition => definition.name === name) ? name : 'unknown';
+      const endTimer = toolCallDuration.startTimer({ tool });
+      logger.debug('Calling tool');
+
+      try {
+        const result = await callTool(name, args || {}, context);
+        toolCallsTotal.inc({ tool, result: result.isError ? 'error' : 'ok' });
+        return result;
+      } catch (error) {
+        toolCallsTotal.inc({ tool, result: 'error' });
+        logger.error('Error calling tool', { error });
+
+        // Protocol errors (unknown tool) stay JSON-RPC errors; anything else is
+        // reported as a failed tool call the model can read and act on
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        return formatToolError(`calling tool ${name}`, error);
+      } finally {
+        endTimer();
       }
-      
+    });
+  });
+
+  /**
+   * Dispatches a tool call to its handler
+   */
+  async function callTool(name: string, args: any, context: ToolContext): Promise<{ isError?: boolean, [key: string]: unknown }> {
+    switch (name) {
+      case "search_restaurants":
+        return await handleSearchRestaurants(tableCheckService, args || {});
+        
+      case "find_table":
+        return await handleFindTable(tableCheckService, args || {}, context);
+        
+      case "get_restaurant_details":
+        return await handleGetRestaurantDetails(tableCheckService, args || {});
+        
+      case "get_restaurant_availability":
+        return await handleGetAvailability(tableCheckService, args || {});
+        
+      case "compare_availability":
+        return await handleCompareAvailability(tableCheckService, args || {}, context);
+        
+      case "list_cuisines":
+        return await handleListCuisines(tableCheckService, args || {});
+        
+      case "list_tags":
+        return await handleListTags(tableCheckService, args || {});
+        
+      case "generate_reservation_link":
+        return await handleGenerateReservationLink(tableCheckService, args || {});
+        
+      case "create_availability_watch":
+        return await handleCreateAvailabilityWatch(watchService, args || {}, context);
+        
+      case "list_availability_watches":
+        return await handleListAvailabilityWatches(watchService, args || {}, context);
+        
+      case "delete_availability_watch":
+        return await handleDeleteAvailabilityWatch(watchService, args || {}, context);
+        
+      default:
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${name}`
+        );
+    }
+  }
+
+  /**
+   * Finds the watch a resource URI names, if it belongs to the caller
+   */
+  const getWatchResource = async (uri: string, ownerId: string | undefined): Promise<AvailabilityWatch | undefined> => {
+    return uri.startsWith(watchResourceUri('')) ? watchService.get(uri.slice(watchResourceUri('').length), ownerId) : undefined;
+  };
+
+  /**
+   * Availability watches are exposed as resources so clients can subscribe to
+   * matches; each caller only sees its own
+   */
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+    const watches = await watchService.list(getOwnerId(extra.authInfo));
+    return {
+      resources: watches.map(watch => ({
+        uri: watchResourceUri(watch.id),
+        name: `Availability watch: ${watch.shop_id} on ${watch.date} (${watch.status})`,
+        mimeType: "application/json"
+      }))
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const uri = request.params.uri;
+    const watch = await getWatchResource(uri, getOwnerId(extra.authInfo));
+
+    if (!watch) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    return {
+      contents: [
+        {
+          uri: uri,
+          mimeType: "application/json",
+          text: JSON.stringify(watch, null, 2)
+        }
+      ]
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    if (!notifications) {
       throw new McpError(
-        ErrorCode.InternalError,
-        `Error calling tool ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        ErrorCode.InvalidRequest,
+        'Resource subscriptions need a session: this server runs in stateless HTTP mode and cannot send notifications. ' +
+        'Use a server with MCP_SESSION_MODE=stateful, set WATCH_WEBHOOK_URL, or poll list_availability_watches.'
       );
     }
+    if (!await getWatchResource(request.params.uri, getOwnerId(extra.authInfo))) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${request.params.uri}`);
+    }
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Notify subscribed clients when a watch matches, for as long as this server is connected
+  const removeListener = watchService.onMatch(async watch => {
+    const uri = watchResourceUri(watch.id);
+    if (subscriptions.has(uri)) {
+      await server.sendResourceUpdated({ uri });
+    }
   });
+  server.onclose = removeListener;
 
   return server;
 } 
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { CONFIG } from '../config/constants.js';
+import { Clock, systemClock } from '../services/clock.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * An MCP session in stateful HTTP mode: one server and transport per client
+ */
+export interface McpSession {
+  id: string;
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  // Authenticated caller that opened the session (see getOwnerId), when auth is enabled
+  owner_id?: string;
+  created_at: number;
+  last_active_at: number;
+}
+
+/**
+ * Keeps stateful MCP sessions and closes them once they have been idle too long
+ */
+export class SessionStore {
+  private sessions = new Map<string, McpSession>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private idleTimeoutMs: number = CONFIG.MCP_SESSION_IDLE_TIMEOUT_MS,
+    private maxSessions: number = CONFIG.MAX_MCP_SESSIONS,
+    private clock: Clock = systemClock
+  ) {}
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Whether another session can be opened
+   */
+  hasCapacity(): boolean {
+    return this.sessions.size < this.maxSessions;
+  }
+
+  add(id: string, server: Server, transport: StreamableHTTPServerTransport, ownerId?: string): McpSession {
+    const now = this.clock.now();
+    const session: McpSession = { id, server, transport, owner_id: ownerId, created_at: now, last_active_at: now };
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  /**
+   * Looks up a session and marks it as active
+   * @param id Session ID from the Mcp-Session-Id header
+   * @param ownerId Authenticated caller making the request; sessions are only
+   * usable by the caller that opened them
+   * @returns The session, or undefined if it does not exist, has expired or belongs to another caller
+   */
+  touch(id: string, ownerId?: string): McpSession | undefined {
+    const session = this.sessions.get(id);
+    if (!session || session.owner_id !== ownerId) {
+      return undefined;
+    }
+    session.last_active_at = this.clock.now();
+    return session;
+  }
+
+  /**
+   * Forgets a session and closes its server and transport
+   * @returns False if the session was already closed
+   */
+  async close(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+    this.sessions.delete(id);
+    // Closing the server also closes its transport
+    await session.server.close();
+    return true;
+  }
+
+  /**
+   * Closes sessions that have been idle longer than the idle timeout
+   * @returns IDs of the sessions that were closed
+   */
+  async closeIdle(): Promise<string[]> {
+    const cutoff = this.clock.now() - this.idleTimeoutMs;
+    const idle = Array.from(this.sessions.values())
+      .filter(session => session.last_active_at < cutoff)
+      .map(session => session.id);
+
+    for (const id of idle) {
+      await this.close(id);
+    }
+    return idle;
+  }
+
+  async closeAll(): Promise<void> {
+    for (const id of Array.from(this.sessions.keys())) {
+      await this.close(id);
+    }
+  }
+
+  /**
+   * Starts closing idle sessions in the background
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.closeIdle()
+        .then(closed => {
+          if (closed.length > 0) {
+            logger.info('Closed idle MCP sessions', { count: closed.length });
+          }
+        })
+        .catch(error => logger.error('Closing idle MCP sessions failed', { error }));
+    }, Math.min(this.idleTimeoutMs, 60 * 1000));
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
@@ -1,6 +1,11 @@
 import { TableCheckService } from '../services/tablecheck.js';
-import { AvailabilityParams } from '../types/index.js';
+import { AvailabilityParams, AvailabilityCalendar, AvailabilitySlot, AvailabilitySummary, DateTimeInterpretation } from '../types/index.js';
 import { validateAvailabilityParams } from '../utils/validation.js';
+import { normalizeLocale, t } from '../utils/locale.js';
+import { CONFIG } from '../config/constants.js';
+import { resolveStartAt, formatLocalDateTime, formatCalendarDate, WEEKDAYS } from '../utils/dates.js';
+import { interpretDateTimeArgs, formatInterpretations } from '../utils/natural-dates.js';
+import { formatToolError } from './errors.js';
 import dayjs from 'dayjs';
 import timezone from 'dayjs/plugin/timezone.js';
 import utc from 'dayjs/plugin/utc.js';
@@ -16,73 +21,217 @@ dayjs.extend(timezone);
  */
 export async function handleGetAvailability(tableCheckService: TableCheckService, args: any) {
   try {
+    // Read times such as "7pm" at the restaurant; start_at is read by resolveStartAt
+    const { args: timeArgs, interpretations } = interpretDateTimeArgs(args, {
+      times: ['time_from', 'time_to'],
+    }, CONFIG.DEFAULT_SHOP_TIMEZONE);
+
     // Parse and validate availability parameters
     const availabilityParams: AvailabilityParams = {
       shop_id: args.shop_id,
       start_at: args.start_at,
       timezone: args.timezone,
       num_people: args.num_people,
-      locale: args.locale || 'en',
+      locale: normalizeLocale(args.locale),
+      time_from: timeArgs.time_from,
+      time_to: timeArgs.time_to,
+      days: args.days,
+      weekdays: Array.isArray(args.weekdays)
+        ? args.weekdays.map((weekday: any) => String(weekday).trim().toLowerCase().slice(0, 3))
+        : args.weekdays,
+      only_available: args.only_available ?? true,
+      detail: args.detail ?? false,
     };
     
     // Validate parameters
     validateAvailabilityParams(availabilityParams);
     
+    // Resolve dates and relative offsets such as "tomorrow" to a date-time;
+    // dates are dates at the restaurant, so they start at midnight in its time zone
+    const shopTimezone = await tableCheckService.getShopTimeZone(availabilityParams.shop_id);
+    const resolved = resolveStartAt(availabilityParams.start_at, availabilityParams.timezone || shopTimezone, shopTimezone);
+    const interpreted: DateTimeInterpretation[] = [...(resolved.interpretation || []), ...interpretations];
+    
+    // A range such as "this weekend" sets how many days to show, unless days was given
+    if (resolved.days && availabilityParams.days === undefined) {
+      availabilityParams.days = Math.min(resolved.days, CONFIG.MAX_AVAILABILITY_DAYS);
+      interpreted.push({ field: 'days', input: availabilityParams.start_at, value: String(availabilityParams.days) });
+    }
+    
     // Get availability
-    const availability = await tableCheckService.getAvailability(availabilityParams);
+    const calendar = await tableCheckService.getAvailabilityCalendar({ ...availabilityParams, start_at: resolved.start_at });
+    
+    // Slots are keyed by the date at the restaurant, so drop days before the requested date
+    const firstDate = resolved.date || dayjs(resolved.start_at).tz(calendar.time_zone).format('YYYY-MM-DD');
+    const { filtered, dates } = filterCalendar(calendar, availabilityParams, firstDate);
+    const summary = summarizeCalendar(filtered, dates);
+    
+    const requesterTimezone = availabilityParams.timezone || calendar.time_zone;
     
     // Format results for MCP response
     return {
       content: [
         {
           type: "text",
-          text: formatAvailabilityResults(availability, availabilityParams)
+          text: formatInterpretations(interpreted, availabilityParams.locale) + formatAvailabilityResults(filtered, summary, availabilityParams, requesterTimezone)
         }
-      ]
+      ],
+      structuredContent: {
+        shop_id: availabilityParams.shop_id,
+        start_at: resolved.start_at,
+        requested_start_at: availabilityParams.start_at,
+        interpreted: interpreted.length > 0 ? interpreted : undefined,
+        timezone: requesterTimezone,
+        shop_time_zone: calendar.time_zone,
+        num_people: availabilityParams.num_people,
+        closed_dates: filtered.closed_dates,
+        summary: summary,
+        slots: filtered.slots.map(slot => ({
+          ...slot,
+          shop_local_time: dayjs(slot.time).tz(calendar.time_zone).format(),
+          local_time: dayjs(slot.time).tz(requesterTimezone).format(),
+        }))
+      }
     };
     
   } catch (error) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error getting availability: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }
-      ],
-      isError: true
-    };
+    return formatToolError('getting availability', error);
   }
 }
 
 /**
- * Formats availability results for display
- * @param slots Array of availability slots
+ * Applies the date range, weekday, time window and open-only filters to a calendar.
+ * Dates and times are those at the restaurant.
+ * @param calendar Availability calendar from the API
+ * @param params Availability parameters with the filters
+ * @param firstDate First date to include (YYYY-MM-DD)
+ * @returns Filtered calendar and every date it covers, including days without open slots
+ */
+function filterCalendar(calendar: AvailabilityCalendar, params: AvailabilityParams, firstDate: string): { filtered: AvailabilityCalendar, dates: string[] } {
+  const lastDate = params.days ? dayjs(firstDate).add(params.days - 1, 'day').format('YYYY-MM-DD') : undefined;
+  const includesDate = (date: string) =>
+    date >= firstDate &&
+    (!lastDate || date <= lastDate) &&
+    (!params.weekdays || params.weekdays.includes(WEEKDAYS[dayjs(date).day()]));
+
+  const slots = calendar.slots.filter(slot => {
+    if (!includesDate(slot.date) || (params.only_available && !slot.available)) {
+      return false;
+    }
+    const time = dayjs(slot.time).tz(calendar.time_zone).format('HH:mm');
+    if (params.time_from && time < params.time_from.padStart(5, '0')) {
+      return false;
+    }
+    if (params.time_to && time > params.time_to.padStart(5, '0')) {
+      return false;
+    }
+    return true;
+  });
+
+  const dates = Array.from(new Set([...calendar.slots.map(slot => slot.date), ...calendar.closed_dates]))
+    .filter(includesDate)
+    .sort();
+
+  return {
+    filtered: {
+      ...calendar,
+      closed_dates: calendar.closed_dates.filter(includesDate),
+      slots: slots.sort((a, b) => dayjs(a.time).valueOf() - dayjs(b.time).valueOf()),
+    },
+    dates: dates,
+  };
+}
+
+/**
+ * Summarizes a calendar as the first open slot and open slots per day
+ * @param calendar Filtered availability calendar
+ * @param dates Dates covered by the calendar
+ * @returns Availability summary
+ */
+function summarizeCalendar(calendar: AvailabilityCalendar, dates: string[]): AvailabilitySummary {
+  const slotsByDate = groupSlotsByDate(calendar.slots);
+  const openSlots = calendar.slots.filter(slot => slot.available);
+
+  return {
+    first_available: openSlots.length > 0 ? openSlots[0].time : undefined,
+    total_open_slots: openSlots.length,
+    days: dates.map(date => {
+      const open = (slotsByDate[date] || []).filter(slot => slot.available);
+      return {
+        date: date,
+        closed: calendar.closed_dates.includes(date),
+        open_slots: open.length,
+        first_open: open.length > 0 ? open[0].time : undefined,
+        last_open: open.length > 0 ? open[open.length - 1].time : undefined,
+      };
+    }),
+  };
+}
+
+/**
+ * Formats availability results for display, in the restaurant's time zone and,
+ * when it differs, the requester's
+ * @param calendar Filtered availability calendar
+ * @param summary Availability summary
  * @param params Original availability parameters
+ * @param requesterTimezone Time zone of the person booking
  * @returns Formatted availability string
  */
-function formatAvailabilityResults(slots: any[], params: AvailabilityParams): string {
-  if (slots.length === 0) {
-    return `No availability found for restaurant ${params.shop_id} for ${params.num_people} people starting from ${params.start_at}.`;
+function formatAvailabilityResults(calendar: AvailabilityCalendar, summary: AvailabilitySummary, params: AvailabilityParams, requesterTimezone: string): string {
+  const locale = params.locale || 'en';
+  const filters = describeFilters(params, locale);
+
+  if (summary.days.length === 0) {
+    return t(locale, 'availability_none', { shop_id: params.shop_id, num_people: params.num_people, start_at: params.start_at, filters });
   }
 
-  const timezone = params.timezone || 'Asia/Tokyo';
+  const showRequesterTime = requesterTimezone !== calendar.time_zone;
+  const shopTime = (time: string) => dayjs(time).tz(calendar.time_zone).format('HH:mm');
+  const requesterTime = (time: string) => showRequesterTime
+    ? ` (${t(locale, 'availability_your_time', { time: formatLocalDateTime(time, requesterTimezone, locale) })})`
+    : '';
   
-  let output = `Availability for restaurant ${params.shop_id} (${params.num_people} people):\n\n`;
+  let output = `${t(locale, 'availability_header', { shop_id: params.shop_id, num_people: params.num_people, filters })}\n`;
+  output += showRequesterTime
+    ? `${t(locale, 'availability_times_both', { time_zone: calendar.time_zone, requester_time_zone: requesterTimezone })}\n\n`
+    : `${t(locale, 'availability_times_shop', { time_zone: calendar.time_zone })}\n\n`;
   
-  // Group slots by date
-  const slotsByDate = groupSlotsByDate(slots);
+  if (summary.first_available) {
+    output += `${t(locale, 'availability_first', { time: formatLocalDateTime(summary.first_available, calendar.time_zone, locale) })}${requesterTime(summary.first_available)}\n`;
+    output += `${t(locale, 'availability_open_slots', { count: summary.total_open_slots })}\n\n`;
+  } else {
+    output += `${t(locale, 'availability_no_open_slots')}\n\n`;
+  }
   
-  Object.keys(slotsByDate).sort().forEach(date => {
-    const dateSlots = slotsByDate[date];
-    // const availableSlots = dateSlots.filter(slot => slot.available);
-    
-    output += `**${formatDate(date, timezone)}**\n`;
+  if (!params.detail) {
+    output += `${t(locale, 'availability_by_day')}\n`;
+    summary.days.forEach(day => {
+      let line = t(locale, 'availability_day_none');
+      if (day.closed) {
+        line = t(locale, 'availability_day_closed');
+      } else if (day.first_open && day.last_open) {
+        line = t(locale, 'availability_day_open', { count: day.open_slots, first: shopTime(day.first_open), last: shopTime(day.last_open) });
+      }
+      output += `   • ${formatCalendarDate(day.date, locale)}: ${line}\n`;
+    });
+    output += `\n${t(locale, 'availability_detail_hint')}`;
+    return output;
+  }
+  
+  // Group slots by the date at the restaurant
+  const slotsByDate = groupSlotsByDate(calendar.slots);
+  
+  summary.days.forEach(day => {
+    output += `**${formatCalendarDate(day.date, locale)}**\n`;
     
-    if (dateSlots.length === 0) {
-      output += `   No availability\n`;
+    if (day.closed) {
+      output += `   ${t(locale, 'availability_closed')}\n`;
+    } else if (!slotsByDate[day.date] || slotsByDate[day.date].length === 0) {
+      output += `   ${t(locale, 'availability_unavailable')}\n`;
     } else {
-      dateSlots.forEach(slot => {
-        output += `   • ${formatDate(slot.time, timezone)} (${timezone}) (${slot.party_size} people)\n`;
+      slotsByDate[day.date].forEach(slot => {
+        const status = slot.available ? '' : ` (${t(locale, 'availability_full')})`;
+        output += `   • ${shopTime(slot.time)}${status}${requesterTime(slot.time)}\n`;
       });
     }
     
@@ -92,13 +241,38 @@ function formatAvailabilityResults(slots: any[], params: AvailabilityParams): st
   return output;
 }
 
+/**
+ * Describes the active filters, e.g. " between 18:00 and 21:00 on fri, sat"
+ */
+function describeFilters(params: AvailabilityParams, locale: string): string {
+  let description = '';
+  
+  if (params.time_from && params.time_to) {
+    description += t(locale, 'filter_between', { from: params.time_from, to: params.time_to });
+  } else if (params.time_from) {
+    description += t(locale, 'filter_from', { from: params.time_from });
+  } else if (params.time_to) {
+    description += t(locale, 'filter_until', { to: params.time_to });
+  }
+  
+  if (params.weekdays) {
+    description += t(locale, 'filter_weekdays', { weekdays: params.weekdays.join(', ') });
+  }
+  
+  if (params.days) {
+    description += params.days > 1 ? t(locale, 'filter_days', { count: params.days }) : t(locale, 'filter_days_one');
+  }
+  
+  return description;
+}
+
 /**
  * Groups availability slots by date
  * @param slots Array of availability slots
  * @returns Object with dates as keys and slots as values
  */
-function groupSlotsByDate(slots: any[]): Record<string, any[]> {
-  const grouped: Record<string, any[]> = {};
+function groupSlotsByDate(slots: AvailabilitySlot[]): Record<string, AvailabilitySlot[]> {
+  const grouped: Record<string, AvailabilitySlot[]> = {};
   
   slots.forEach(slot => {
     const date = slot.date;
@@ -110,23 +284,3 @@ function groupSlotsByDate(slots: any[]): Record<string, any[]> {
   
   return grouped;
 }
-
-/**
- * Formats date for display
- * @param dateString ISO date string
- * @returns Formatted date string
- */
-function formatDate(dateString: string, timezone: string): string {
-  try {
-    return dayjs(dateString).tz(timezone).format();
-    // const date = new Date(dateString);
-    // return date.toLocaleDateString('en-US', {
-    //   weekday: 'long',
-    //   year: 'numeric',
-    //   month: 'long',
-    //   day: 'numeric'
-    // });
-  } catch (error) {
-    return dateString;
-  }
-} 
\ No newline at end of file
@@ -0,0 +1,183 @@
+import { TableCheckService } from '../services/tablecheck.js';
+import { CompareAvailabilityParams, ShopAvailability, ToolContext } from '../types/index.js';
+import { validateCompareAvailabilityParams } from '../utils/validation.js';
+import { normalizeLocale, t } from '../utils/locale.js';
+import { resolveStartAt, dayjsLocale } from '../utils/dates.js';
+import { interpretDateTimeArgs, formatInterpretations } from '../utils/natural-dates.js';
+import { CONFIG } from '../config/constants.js';
+import { formatToolError } from './errors.js';
+import dayjs from 'dayjs';
+import timezone from 'dayjs/plugin/timezone.js';
+import utc from 'dayjs/plugin/utc.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+interface AvailabilityMatrixRow {
+  time: string;
+  local_date: string;
+  local_time: string;
+  shop_ids: string[];
+}
+
+/**
+ * Handles multi-restaurant availability comparison requests
+ * @param tableCheckService Instance of TableCheck service
+ * @param args Comparison arguments from MCP client
+ * @param context Call context; progress is reported as each restaurant is checked
+ * @returns Formatted availability matrix
+ */
+export async function handleCompareAvailability(tableCheckService: TableCheckService, args: any, context: ToolContext = {}) {
+  try {
+    // Read times such as "7pm"; start_at is read by resolveStartAt
+    const { args: timeArgs, interpretations } = interpretDateTimeArgs(args, {
+      times: ['time_from', 'time_to'],
+    }, CONFIG.DEFAULT_SHOP_TIMEZONE);
+
+    // Parse and validate comparison parameters
+    const compareParams: CompareAvailabilityParams = {
+      shop_ids: Array.isArray(args.shop_ids) ? Array.from(new Set<string>(args.shop_ids)) : args.shop_ids,
+      start_at: args.start_at,
+      timezone: args.timezone || CONFIG.DEFAULT_SHOP_TIMEZONE,
+      num_people: args.num_people,
+      time_from: timeArgs.time_from,
+      time_to: timeArgs.time_to,
+      locale: normalizeLocale(args.locale),
+    };
+
+    // Validate parameters
+    validateCompareAvailabilityParams(compareParams);
+    const resolved = resolveStartAt(compareParams.start_at, compareParams.timezone);
+    const interpreted = [...(resolved.interpretation || []), ...interpretations];
+    compareParams.start_at = resolved.start_at;
+
+    // Get availability for every restaurant
+    const shops = await tableCheckService.getAvailabilityForShops(compareParams.shop_ids, {
+      start_at: compareParams.start_at,
+      date: resolved.date,
+      timezone: compareParams.timezone,
+      num_people: compareParams.num_people,
+      locale: compareParams.locale,
+    }, context.onProgress);
+
+    const matrix = buildAvailabilityMatrix(shops, compareParams);
+
+    // Format results for MCP response
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatInterpretations(interpreted, compareParams.locale) + formatComparisonResults(matrix, shops, compareParams)
+        }
+      ],
+      structuredContent: {
+        start_at: compareParams.start_at,
+        timezone: compareParams.timezone,
+        num_people: compareParams.num_people,
+        interpreted: interpreted.length > 0 ? interpreted : undefined,
+        shops: shops.map(shop => ({
+          shop_id: shop.shop_id,
+          open_slot_count: shop.error ? 0 : countOpenSlots(matrix, shop.shop_id),
+          error: shop.error,
+          error_code: shop.error_code,
+        })),
+        matrix: matrix
+      }
+    };
+
+  } catch (error) {
+    return formatToolError('comparing availability', error);
+  }
+}
+
+/**
+ * Builds a matrix of open times and the restaurants available at each one
+ * @param shops Availability per restaurant
+ * @param params Comparison parameters with the optional time window
+ * @returns Matrix rows sorted by time
+ */
+function buildAvailabilityMatrix(shops: ShopAvailability[], params: CompareAvailabilityParams): AvailabilityMatrixRow[] {
+  const rows: Record<string, AvailabilityMatrixRow> = {};
+
+  shops.forEach(shop => {
+    shop.slots.filter(slot => slot.available).forEach(slot => {
+      const local = dayjs(slot.time).tz(params.timezone);
+      const localTime = local.format('HH:mm');
+
+      if (!isWithinTimeWindow(localTime, params.time_from, params.time_to)) {
+        return;
+      }
+
+      if (!rows[slot.time]) {
+        rows[slot.time] = {
+          time: slot.time,
+          local_date: local.format('YYYY-MM-DD'),
+          local_time: localTime,
+          shop_ids: [],
+        };
+      }
+      rows[slot.time].shop_ids.push(shop.shop_id);
+    });
+  });
+
+  return Object.values(rows).sort((a, b) => dayjs(a.time).valueOf() - dayjs(b.time).valueOf());
+}
+
+/**
+ * Checks whether a local HH:mm time falls inside an optional window
+ */
+function isWithinTimeWindow(time: string, from?: string, to?: string): boolean {
+  if (from && time < from.padStart(5, '0')) {
+    return false;
+  }
+  if (to && time > to.padStart(5, '0')) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Counts the matrix rows in which a restaurant is available
+ */
+function countOpenSlots(matrix: AvailabilityMatrixRow[], shopId: string): number {
+  return matrix.filter(row => row.shop_ids.includes(shopId)).length;
+}
+
+/**
+ * Formats the availability matrix for display
+ * @param matrix Matrix rows sorted by time
+ * @param shops Availability per restaurant
+ * @param params Original comparison parameters
+ * @returns Formatted comparison string
+ */
+function formatComparisonResults(matrix: AvailabilityMatrixRow[], shops: ShopAvailability[], params: CompareAvailabilityParams): string {
+  const locale = params.locale || 'en';
+  const header = { count: shops.length, num_people: params.num_people, time_zone: params.timezone };
+  let output = `${shops.length === 1 ? t(locale, 'compare_header_one', header) : t(locale, 'compare_header', header)}\n\n`;
+
+  output += `${t(locale, 'compare_summary')}\n`;
+  shops.forEach(shop => {
+    if (shop.error) {
+      output += `   • ${shop.shop_id}: ${t(locale, 'compare_shop_error', { error: shop.error })}\n`;
+    } else {
+      output += `   • ${shop.shop_id}: ${t(locale, 'compare_shop_open', { count: countOpenSlots(matrix, shop.shop_id) })}\n`;
+    }
+  });
+  output += '\n';
+
+  if (matrix.length === 0) {
+    output += t(locale, 'compare_none');
+    return output;
+  }
+
+  let currentDate = '';
+  matrix.forEach(row => {
+    if (row.local_date !== currentDate) {
+      currentDate = row.local_date;
+      output += `**${dayjs(row.local_date).locale(dayjsLocale(locale)).format('ddd YYYY-MM-DD')}**\n`;
+    }
+    output += `   • ${row.local_time}: ${row.shop_ids.join(', ')}\n`;
+  });
+
+  return output;
+}
@@ -1,4 +1,6 @@
 import { TableCheckService } from '../services/tablecheck.js';
+import { normalizeLocale, t } from '../utils/locale.js';
+import { formatToolError } from './errors.js';
 
 /**
  * Handles cuisine list requests
@@ -8,7 +10,7 @@ import { TableCheckService } from '../services/tablecheck.js';
  */
 export async function handleListCuisines(tableCheckService: TableCheckService, args: any) {
   try {
-    const locale = args.locale || 'en';
+    const locale = normalizeLocale(args.locale);
     
     // Get cuisines
     const cuisines = await tableCheckService.getCuisines(locale);
@@ -20,19 +22,15 @@ export async function handleListCuisines(tableCheckService: TableCheckService, a
           type: "text",
           text: formatCuisinesList(cuisines, locale)
         }
-      ]
+      ],
+      structuredContent: {
+        locale: locale,
+        cuisines: cuisines
+      }
     };
     
   } catch (error) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error getting cuisines: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }
-      ],
-      isError: true
-    };
+    return formatToolError('getting cuisines', error);
   }
 }
 
@@ -44,19 +42,19 @@ export async function handleListCuisines(tableCheckService: TableCheckService, a
  */
 function formatCuisinesList(cuisines: any[], locale: string): string {
   if (cuisines.length === 0) {
-    return `No cuisines found for locale ${locale}.`;
+    return t(locale, 'cuisines_none', { locale });
   }
   
-  let output = `Available cuisines (${cuisines.length} total):\n\n`;
+  let output = `${t(locale, 'cuisines_header', { count: cuisines.length })}\n\n`;
   
   // Sort cuisines alphabetically
-  const sortedCuisines = cuisines.sort((a, b) => a.name.localeCompare(b.name));
+  const sortedCuisines = cuisines.sort((a, b) => a.name.localeCompare(b.name, locale));
   
   sortedCuisines.forEach((cuisine, index) => {
     output += `${index + 1}. **${cuisine.name}** (${cuisine.id})\n`;
   });
   
-  output += '\nYou can use these cuisine IDs when searching for restaurants with specific cuisine types.';
+  output += `\n${t(locale, 'cuisines_hint')}`;
   
   return output;
 } 
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { TableCheckService } from '../services/tablecheck.js';
+import { RestaurantDetails } from '../types/index.js';
+import { normalizeLocale, t } from '../utils/locale.js';
+import { validationError } from '../services/errors.js';
+import { formatToolError } from './errors.js';
+
+/**
+ * Handles restaurant detail requests
+ * @param tableCheckService Instance of TableCheck service
+ * @param args Detail arguments from MCP client
+ * @returns Formatted restaurant profile
+ */
+export async function handleGetRestaurantDetails(tableCheckService: TableCheckService, args: any) {
+  try {
+    const shopId = args.shop_id;
+    const locale = normalizeLocale(args.locale);
+
+    if (!shopId) {
+      throw validationError('shop_id is required', 'Call search_restaurants to find shop IDs');
+    }
+
+    // Get restaurant details
+    const details = await tableCheckService.getRestaurantDetails(shopId, locale);
+
+    // Format results for MCP response
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatRestaurantDetails(details, locale)
+        }
+      ],
+      structuredContent: details
+    };
+
+  } catch (error) {
+    return formatToolError('getting restaurant details', error);
+  }
+}
+
+/**
+ * Formats an amount with its currency, or the localized "not available" text
+ * @param amount Amount
+ * @param currency Currency code
+ * @param locale Language locale
+ * @returns Formatted amount string
+ */
+function formatAmount(amount: number | undefined, currency: string, locale: string): string {
+  return amount ? `${amount} ${currency}` : t(locale, 'price_unavailable');
+}
+
+/**
+ * Formats a restaurant profile for display
+ * @param details Restaurant details
+ * @param locale Language locale
+ * @returns Formatted profile string
+ */
+function formatRestaurantDetails(details: RestaurantDetails, locale: string): string {
+  let output = `**${details.name}**`;
+
+  if (details.kana_name && details.kana_name !== details.name) {
+    output += ` (${details.kana_name})`;
+  }
+
+  output += '\n';
+
+  if (details.title) {
+    output += `${details.title}\n`;
+  }
+
+  if (details.tagline) {
+    output += `${details.tagline}\n`;
+  }
+
+  if (details.description) {
+    output += `\n${details.description.replace(/\r\n/g, '\n').trim()}\n`;
+  }
+
+  output += '\n';
+  output += `• ${t(locale, 'label_cuisines')}: ${details.cuisine.join(', ')}\n`;
+
+  if (details.tags.length > 0) {
+    output += `• ${t(locale, 'label_tags')}: ${details.tags.join(', ')}\n`;
+  }
+
+  if (details.area_name) {
+    output += `• ${t(locale, 'label_area')}: ${details.area_name}\n`;
+  }
+
+  if (details.time_zone) {
+    output += `• ${t(locale, 'label_time_zone')}: ${details.time_zone}\n`;
+  }
+
+  output += `• ${t(locale, 'label_price_avg')}: ${formatAmount(details.price_avg, details.currency, locale)}\n`;
+  output += `• ${t(locale, 'label_lunch_avg')}: ${formatAmount(details.lunch_price_avg, details.currency, locale)}\n`;
+  output += `• ${t(locale, 'label_dinner_avg')}: ${formatAmount(details.dinner_price_avg, details.currency, locale)}\n`;
+
+  if (details.service_modes.length > 0) {
+    output += `• ${t(locale, 'label_service_modes')}: ${details.service_modes.join(', ')}\n`;
+  }
+
+  output += `• ${t(locale, 'label_smartpay')}: ${t(locale, details.smartpay ? 'yes' : 'no')}\n`;
+
+  if (details.available_dates.length > 0) {
+    output += `• ${t(locale, 'available_dates', { dates: details.available_dates.join(', ') })}\n`;
+  }
+
+  output += `• ${t(locale, 'label_reservation_link')}: ${details.reservation_url}\n`;
+  output += `• ${t(locale, 'label_shop_id')}: ${details.id}\n`;
+
+  if (details.images.length > 0) {
+    output += `\n${t(locale, 'label_images')}:\n`;
+    details.images.forEach(image => {
+      output += `• ${image.url}${image.caption ? ` (${image.caption})` : ''}\n`;
+    });
+  }
+
+  return output;
+}
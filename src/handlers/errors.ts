@@ -0,0 +1,47 @@
+import { ToolErrorCode } from '../types/index.js';
+import { toTableCheckError } from '../services/errors.js';
+
+// What to do about each kind of error when the error itself has no better hint
+const DEFAULT_HINTS: Record<ToolErrorCode, string> = {
+  validation_error: 'Fix the arguments and call the tool again',
+  not_found: 'Check the ID; call search_restaurants to find restaurants',
+  rate_limited: 'Wait a minute before calling this tool again',
+  upstream_unavailable: 'TableCheck is temporarily unavailable; try again in a few minutes',
+  timeout: 'TableCheck did not respond in time; try again, or ask for fewer restaurants or days',
+  invalid_response: 'TableCheck returned an unexpected response; try again later',
+  internal_error: 'The server failed unexpectedly; retrying with the same arguments is unlikely to help',
+};
+
+/**
+ * Builds the MCP result for a failed tool call. The text tells the model what
+ * went wrong and what to do next; the same details are in _meta.error for
+ * clients that handle errors programmatically.
+ * @param action What the tool was doing, e.g. "searching restaurants"
+ * @param error Thrown error
+ * @returns Tool result with isError set
+ */
+export function formatToolError(action: string, error: unknown) {
+  const toolError = toTableCheckError(error);
+  const hint = toolError.code === 'rate_limited' && toolError.retryAfterSeconds !== undefined
+    ? `Wait ${toolError.retryAfterSeconds} seconds before calling this tool again`
+    : toolError.hint || DEFAULT_HINTS[toolError.code];
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error ${action}: ${toolError.message}\nCode: ${toolError.code}\nHint: ${hint}`
+      }
+    ],
+    _meta: {
+      error: {
+        code: toolError.code,
+        message: toolError.message,
+        hint: hint,
+        status_code: toolError.statusCode,
+        retry_after_seconds: toolError.retryAfterSeconds,
+      }
+    },
+    isError: true
+  };
+}
@@ -0,0 +1,112 @@
+import { TableCheckService } from '../services/tablecheck.js';
+import { FindTableParams, TableMatch, ToolContext } from '../types/index.js';
+import { CONFIG } from '../config/constants.js';
+import { validateFindTableParams } from '../utils/validation.js';
+import { isValidTimezone, formatLocalDateTime } from '../utils/dates.js';
+import { t } from '../utils/locale.js';
+import { interpretDateTimeArgs, formatInterpretations } from '../utils/natural-dates.js';
+import { buildSearchParams } from './search.js';
+import { formatToolError } from './errors.js';
+import dayjs from 'dayjs';
+import timezone from 'dayjs/plugin/timezone.js';
+import utc from 'dayjs/plugin/utc.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * Handles "find me a table" requests
+ * @param tableCheckService Instance of TableCheck service
+ * @param args Search criteria and time window from MCP client
+ * @param context Call context; progress is reported as each candidate restaurant is checked
+ * @returns Formatted list of restaurants with open slots
+ */
+export async function handleFindTable(tableCheckService: TableCheckService, args: any, context: ToolContext = {}) {
+  try {
+    // Read a date such as "next Friday" and times such as "7pm"; an invalid
+    // time zone is reported by validation below
+    const requesterTimezone = args.timezone || CONFIG.DEFAULT_SHOP_TIMEZONE;
+    const { args: findArgs, interpretations } = interpretDateTimeArgs(args, {
+      dates: ['date'],
+      times: ['time_from', 'time_to', 'time'],
+    }, isValidTimezone(requesterTimezone) ? requesterTimezone : CONFIG.DEFAULT_SHOP_TIMEZONE);
+
+    // Parse and validate parameters
+    const findParams: FindTableParams = {
+      search: await buildSearchParams({ ...findArgs, date_min: findArgs.date, date_max: findArgs.date }),
+      date: findArgs.date,
+      time_from: findArgs.time_from,
+      time_to: findArgs.time_to,
+      time: findArgs.time,
+      timezone: requesterTimezone,
+      max_candidates: args.max_candidates ?? CONFIG.DEFAULT_FIND_TABLE_CANDIDATES,
+    };
+
+    // Validate parameters
+    validateFindTableParams(findParams);
+
+    // Search and check availability
+    const matches = await tableCheckService.findTable(findParams, context.onProgress);
+
+    // Format results for MCP response
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatInterpretations(interpretations, findParams.search.locale) + formatTableMatches(matches, findParams)
+        }
+      ],
+      structuredContent: {
+        date: findParams.date,
+        time_from: findParams.time_from,
+        time_to: findParams.time_to,
+        timezone: findParams.timezone,
+        interpreted: interpretations.length > 0 ? interpretations : undefined,
+        matches: matches
+      }
+    };
+
+  } catch (error) {
+    return formatToolError('finding a table', error);
+  }
+}
+
+/**
+ * Formats table matches for display
+ * @param matches Ranked table matches
+ * @param params Original find table parameters
+ * @returns Formatted matches string
+ */
+function formatTableMatches(matches: TableMatch[], params: FindTableParams): string {
+  const locale = params.search.locale || 'en';
+  const window = t(locale, 'find_window', { date: params.date, from: params.time_from, to: params.time_to });
+  const found = { count: matches.length, num_people: params.search.num_people ?? '', window };
+
+  if (matches.length === 0) {
+    return t(locale, 'find_none', found);
+  }
+
+  let output = `${matches.length === 1 ? t(locale, 'find_found_one', found) : t(locale, 'find_found', found)}\n\n`;
+
+  matches.forEach((match, index) => {
+    const times = match.slots.map(slot => dayjs(slot).tz(match.time_zone).format('HH:mm'));
+    const requesterTime = match.time_zone !== params.timezone
+      ? ` (${t(locale, 'availability_your_time', { time: formatLocalDateTime(match.best_slot, params.timezone, locale) })})`
+      : '';
+
+    output += `${index + 1}. **${match.restaurant.name}**\n`;
+    output += `   • ${t(locale, 'label_best_time')}: ${dayjs(match.best_slot).tz(match.time_zone).format('HH:mm')} (${match.time_zone})${requesterTime}\n`;
+    output += `   • ${t(locale, 'label_open_times')}: ${times.join(', ')}\n`;
+
+    if (match.distance_km !== undefined) {
+      output += `   • ${t(locale, 'label_distance')}: ${match.distance_km.toFixed(1)} km\n`;
+    }
+
+    output += `   • ${t(locale, 'label_cuisines')}: ${match.restaurant.cuisine.join(', ')}\n`;
+    output += `   • ${t(locale, 'label_reservation_link')}: ${match.restaurant.reservation_url}\n`;
+    output += `   • ${t(locale, 'label_shop_id')}: ${match.restaurant.id}\n`;
+    output += '\n';
+  });
+
+  return output;
+}
@@ -1,6 +1,9 @@
 import { TableCheckService } from '../services/tablecheck.js';
 import { SearchParams } from '../types/index.js';
 import { resolveLocation } from '../utils/location.js';
+import { normalizeLocale, t } from '../utils/locale.js';
+import { validationError } from '../services/errors.js';
+import { formatToolError } from './errors.js';
 
 /**
  * Handles reservation link generation requests
@@ -11,10 +14,10 @@ import { resolveLocation } from '../utils/location.js';
 export async function handleGenerateReservationLink(tableCheckService: TableCheckService, args: any) {
   try {
     const shopId = args.shop_id;
-    const locale = args.locale || 'en';
+    const locale = normalizeLocale(args.locale);
     
     if (!shopId) {
-      throw new Error('shop_id is required');
+      throw validationError('shop_id is required', 'Call search_restaurants to find shop IDs');
     }
     
     // Parse optional parameters
@@ -48,21 +51,24 @@ export async function handleGenerateReservationLink(tableCheckService: TableChec
       content: [
         {
           type: "text",
-          text: formatReservationLink(reservationUrl, shopId, params)
+          text: formatReservationLink(reservationUrl, shopId, params, locale)
         }
-      ]
+      ],
+      structuredContent: {
+        shop_id: shopId,
+        reservation_url: reservationUrl,
+        locale: locale,
+        parameters: {
+          num_people: params.num_people,
+          date: params.date_min,
+          time: params.time,
+          location: params.location
+        }
+      }
     };
     
   } catch (error) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error generating reservation link: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }
-      ],
-      isError: true
-    };
+    return formatToolError('generating reservation link', error);
   }
 }
 
@@ -71,35 +77,36 @@ export async function handleGenerateReservationLink(tableCheckService: TableChec
  * @param url Generated reservation URL
  * @param shopId Restaurant ID or slug
  * @param params Search parameters used
+ * @param locale Language locale
  * @returns Formatted link string
  */
-function formatReservationLink(url: string, shopId: string, params: Partial<SearchParams>): string {
-  let output = `Reservation link for restaurant ${shopId}:\n\n`;
+function formatReservationLink(url: string, shopId: string, params: Partial<SearchParams>, locale: string): string {
+  let output = `${t(locale, 'link_header', { shop_id: shopId })}\n\n`;
   output += `**${url}**\n\n`;
   
   if (Object.keys(params).length > 0) {
-    output += 'Pre-filled parameters:\n';
+    output += `${t(locale, 'link_prefilled')}\n`;
     
     if (params.num_people) {
-      output += `• Number of people: ${params.num_people}\n`;
+      output += `• ${t(locale, 'link_num_people')}: ${params.num_people}\n`;
     }
     
     if (params.date_min) {
-      output += `• Date: ${params.date_min}\n`;
+      output += `• ${t(locale, 'link_date')}: ${params.date_min}\n`;
     }
     
     if (params.time) {
-      output += `• Time: ${params.time}\n`;
+      output += `• ${t(locale, 'link_time')}: ${params.time}\n`;
     }
     
     if (params.location) {
-      output += `• Location: ${params.location.lat}, ${params.location.lng}\n`;
+      output += `• ${t(locale, 'link_location')}: ${params.location.lat}, ${params.location.lng}\n`;
     }
     
     output += '\n';
   }
   
-  output += 'Click the link above to make a reservation at this restaurant.';
+  output += t(locale, 'link_hint');
   
   return output;
 } 
\ No newline at end of file
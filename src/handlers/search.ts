@@ -1,7 +1,11 @@
 import { TableCheckService } from '../services/tablecheck.js';
-import { SearchParams } from '../types/index.js';
+import { SearchParams, RestaurantSearchPage, PriceRange, ConvertedPrices } from '../types/index.js';
 import { validateSearchParams } from '../utils/validation.js';
 import { resolveLocation } from '../utils/location.js';
+import { normalizeLocale, t } from '../utils/locale.js';
+import { interpretDateTimeArgs, formatInterpretations } from '../utils/natural-dates.js';
+import { CONFIG } from '../config/constants.js';
+import { formatToolError } from './errors.js';
 
 /**
  * Handles restaurant search requests
@@ -11,83 +15,108 @@ import { resolveLocation } from '../utils/location.js';
  */
 export async function handleSearchRestaurants(tableCheckService: TableCheckService, args: any) {
   try {
+    // Read dates and times such as "this weekend" or "7pm", in the restaurants' time zone
+    const { args: searchArgs, interpretations } = interpretDateTimeArgs(args, {
+      range: ['date_min', 'date_max'],
+      times: ['time'],
+    }, CONFIG.DEFAULT_SHOP_TIMEZONE);
+
     // Parse and validate search parameters
-    const searchParams: SearchParams = {
-      query: args.query,
-      cuisines: args.cuisines,
-      date_min: args.date_min,
-      date_max: args.date_max,
-      num_people: args.num_people,
-      time: args.time,
-      budget_max: args.budget_max,
-      budget_min: args.budget_min,
-      sort_by: args.sort_by,
-      sort_order: args.sort_order,
-      geo_distance: args.geo_distance,
-      locale: args.locale || 'en',
-    };
-    
-    // Resolve location if provided
-    if (args.location) {
-      if (typeof args.location === 'string') {
-        searchParams.location = await resolveLocation(args.location);
-      } else {
-        searchParams.location = args.location;
-      }
-    }
-    
-    // Set default geo distance if location is provided but distance is not
-    if (searchParams.location && !searchParams.geo_distance) {
-      searchParams.geo_distance = '5km';
-    }
-    
-    // Validate parameters
-    validateSearchParams(searchParams);
+    const searchParams = await buildSearchParams(searchArgs);
     
     // Perform search
-    const results = await tableCheckService.searchRestaurants(searchParams);
+    const page = await tableCheckService.searchRestaurants(searchParams);
     
     // Format results for MCP response
-    const formattedResults = results.map(restaurant => ({
+    const locale = searchParams.locale || 'en';
+    const formattedResults = page.restaurants.map(restaurant => ({
       id: restaurant.id,
       name: restaurant.name,
       cuisine: restaurant.cuisine.join(', '),
-      price_avg: formatAvgPrice(restaurant.price_avg, restaurant.currency),
-      lunch_price_range: formatPriceRange(restaurant.lunch_price_range),
-      dinner_price_range: formatPriceRange(restaurant.dinner_price_range),
-      availability: formatAvailability(restaurant.available_dates),
+      price_avg: formatAvgPrice(restaurant.price_avg, restaurant.currency, locale, restaurant.converted_prices),
+      lunch_price_range: formatPriceRange(restaurant.lunch_price_range, locale, restaurant.converted_prices?.lunch_price_range),
+      dinner_price_range: formatPriceRange(restaurant.dinner_price_range, locale, restaurant.converted_prices?.dinner_price_range),
+      availability: formatAvailability(restaurant.available_dates, locale),
+      tags: restaurant.tags.join(', '),
       reservation_url: restaurant.reservation_url,
       image_url: restaurant.image_url,
+      matched_by: restaurant.matched_by
+        ? restaurant.matched_by.map(match => t(locale, `match_${match}`)).join(', ')
+        : undefined,
+      relevance: restaurant.relevance
+        ? `${restaurant.relevance.score.toFixed(2)} (${restaurant.relevance.components
+            .map(component => `${component.factor} ${component.score.toFixed(2)}: ${component.reason}`)
+            .join('; ')})`
+        : undefined,
     }));
     
     return {
       content: [
         {
           type: "text",
-          text: formatSearchResults(formattedResults, searchParams)
+          text: formatInterpretations(interpretations, locale) + formatSearchResults(formattedResults, searchParams, page)
         }
-      ]
+      ],
+      structuredContent: interpretations.length > 0 ? { ...page, interpreted: interpretations } : page
     };
     
   } catch (error) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Error searching restaurants: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }
-      ],
-      isError: true
-    };
+    return formatToolError('searching restaurants', error);
   }
 }
 
 /**
- * Formats price range for display
- * @param priceRange Price range object
- * @returns Formatted price string
+ * Builds validated search parameters from MCP tool arguments, resolving
+ * location names to coordinates
+ * @param args Search arguments from MCP client
+ * @returns Search parameters
+ */
+export async function buildSearchParams(args: any): Promise<SearchParams> {
+  const searchParams: SearchParams = {
+    query: args.query,
+    cuisines: args.cuisines,
+    tags: args.tags,
+    exclude_tags: args.exclude_tags,
+    date_min: args.date_min,
+    date_max: args.date_max,
+    num_people: args.num_people,
+    time: args.time,
+    budget_max: args.budget_max,
+    budget_min: args.budget_min,
+    meal_period: args.meal_period,
+    currency: typeof args.currency === 'string' ? args.currency.toUpperCase() : args.currency,
+    sort_by: args.sort_by,
+    sort_order: args.sort_order,
+    geo_distance: args.geo_distance,
+    locale: normalizeLocale(args.locale),
+    cursor: args.cursor,
+    page_size: args.page_size,
+  };
+  
+  // Resolve location if provided
+  if (args.location) {
+    if (typeof args.location === 'string') {
+      searchParams.location = await resolveLocation(args.location);
+    } else {
+      searchParams.location = args.location;
+    }
+  }
+  
+  // Set default geo distance if location is provided but distance is not
+  if (searchParams.location && !searchParams.geo_distance) {
+    searchParams.geo_distance = '5km';
+  }
+  
+  // Validate parameters
+  validateSearchParams(searchParams);
+  
+  return searchParams;
+}
+
+/**
+ * Formats the amounts of a price range, or an empty string if it has none
  */
-function formatPriceRange(priceRange: any): string {
+function formatRange(priceRange: PriceRange): string {
   const currency = priceRange.currency || 'JPY';
   const min = priceRange.min ? `${priceRange.min} ${currency}` : '';
   const max = priceRange.max ? `${priceRange.max} ${currency}` : '';
@@ -96,74 +125,127 @@ function formatPriceRange(priceRange: any): string {
     return `${min} - ${max}`;
   }
   
-  return min || max || 'Price not available';
+  return min || max;
+}
+
+/**
+ * Formats price range for display
+ * @param priceRange Price range object
+ * @param locale Output locale
+ * @param converted Price range in the search currency, shown first when set
+ * @returns Formatted price string
+ */
+function formatPriceRange(priceRange: PriceRange, locale: string, converted?: PriceRange): string {
+  const original = formatRange(priceRange);
+  if (!original) {
+    return t(locale, 'price_unavailable');
+  }
+
+  const inCurrency = converted ? formatRange(converted) : '';
+  return inCurrency ? `≈ ${inCurrency} (${original})` : original;
 }
 
 /**
  * Formats average price for display
  * @param price Average price
+ * @param currency Currency of the price
+ * @param locale Output locale
+ * @param converted Prices in the search currency; the converted average is shown first
  * @returns Formatted price string
  */
-function formatAvgPrice(price: number, currency: string): string {
-  if (price) {
-    return `${price} ${currency}`;
-  } else {
-    return 'Price not available';
+function formatAvgPrice(price: number | undefined, currency: string, locale: string, converted?: ConvertedPrices): string {
+  if (!price) {
+    return t(locale, 'price_unavailable');
   }
+
+  return converted && converted.price_avg
+    ? `≈ ${converted.price_avg} ${converted.currency} (${price} ${currency})`
+    : `${price} ${currency}`;
 }
 
 /**
  * Formats search results for display
  * @param results Array of formatted restaurant results
  * @param params Original search parameters
+ * @param page Pagination details of the search
  * @returns Formatted results string
  */
-function formatSearchResults(results: any[], params: SearchParams): string {
+function formatSearchResults(results: any[], params: SearchParams, page: RestaurantSearchPage): string {
+  const locale = params.locale || 'en';
+
   if (results.length === 0) {
-    return 'No restaurants found matching your criteria. Try adjusting your search parameters.';
+    return t(locale, 'search_none');
   }
   
-  let output = `Found ${results.length} restaurant${results.length > 1 ? 's' : ''}`;
+  let output = results.length === 1 ? t(locale, 'search_found_one') : t(locale, 'search_found', { count: results.length });
   
   if (params.query) {
-    output += ` for "${params.query}"`;
+    output += t(locale, 'search_for', { query: params.query });
   }
   
   if (params.cuisines && params.cuisines.length > 0) {
-    output += ` (${params.cuisines.join(', ')} cuisine)`;
+    output += t(locale, 'search_cuisine', { cuisines: params.cuisines.join(', ') });
+  }
+  
+  if (params.tags && params.tags.length > 0) {
+    output += t(locale, 'search_tagged', { tags: params.tags.join(', ') });
   }
   
   if (params.location) {
-    output += ` in the specified area`;
+    output += t(locale, 'search_in_area');
   }
   
   output += ':\n\n';
   
+  if (page.record_count > results.length || params.cursor) {
+    output += `${t(locale, 'search_total', { count: page.record_count })}\n\n`;
+  }
+  
   results.forEach((restaurant, index) => {
     output += `${index + 1}. **${restaurant.name}**\n`;
-    output += `   • Cuisine(s): ${restaurant.cuisine}\n`;
-    output += `   • Price Average: ${restaurant.price_avg}\n`;
-    output += `   • Lunch Price Range: ${restaurant.lunch_price_range}\n`;
-    output += `   • Dinner Price Range: ${restaurant.dinner_price_range}\n`;
+    output += `   • ${t(locale, 'label_cuisines')}: ${restaurant.cuisine}\n`;
+    
+    if (restaurant.tags) {
+      output += `   • ${t(locale, 'label_tags')}: ${restaurant.tags}\n`;
+    }
+    
+    output += `   • ${t(locale, 'label_price_avg')}: ${restaurant.price_avg}\n`;
+    // The range for the meal being searched for comes first; like the budget,
+    // that is dinner unless the search is for lunch
+    const lunchPrice = `   • ${t(locale, 'label_lunch_price')}: ${restaurant.lunch_price_range}\n`;
+    const dinnerPrice = `   • ${t(locale, 'label_dinner_price')}: ${restaurant.dinner_price_range}\n`;
+    output += params.meal_period === 'lunch' ? lunchPrice + dinnerPrice : dinnerPrice + lunchPrice;
     output += `   • ${restaurant.availability}\n`;
-    output += `   • Reservation Link: ${restaurant.reservation_url}\n`;
+    output += `   • ${t(locale, 'label_reservation_link')}: ${restaurant.reservation_url}\n`;
     
     if (restaurant.image_url) {
-      output += `   • Preview Image Link: ${restaurant.image_url}\n`;
+      output += `   • ${t(locale, 'label_image')}: ${restaurant.image_url}\n`;
     }
 
-    output += `   • Shop ID (shop_id): ${restaurant.id}\n`;
+    output += `   • ${t(locale, 'label_shop_id')}: ${restaurant.id}\n`;
+
+    if (restaurant.matched_by) {
+      output += `   • ${t(locale, 'label_matched_by')}: ${restaurant.matched_by}\n`;
+    }
+
+    if (restaurant.relevance) {
+      output += `   • ${t(locale, 'label_relevance')}: ${restaurant.relevance}\n`;
+    }
     
     output += '\n';
   });
   
+  if (page.next_cursor) {
+    output += t(locale, 'search_more', { cursor: page.next_cursor });
+  }
+  
   return output;
 } 
 
-function formatAvailability(available_dates: string[]): string {
+function formatAvailability(available_dates: string[], locale: string): string {
   if (available_dates.length === 0) {
-    return 'Contact restaurant for availability'
+    return t(locale, 'contact_for_availability');
   }
 
-  return `Available Dates: ${available_dates.join(', ')}`;
+  return t(locale, 'available_dates', { dates: available_dates.join(', ') });
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { TableCheckService } from '../services/tablecheck.js';
+import { Tag } from '../types/index.js';
+import { normalizeLocale, t } from '../utils/locale.js';
+import { formatToolError } from './errors.js';
+
+/**
+ * Handles tag list requests
+ * @param tableCheckService Instance of TableCheck service
+ * @param args Tag arguments from MCP client
+ * @returns Formatted tag list
+ */
+export async function handleListTags(tableCheckService: TableCheckService, args: any) {
+  try {
+    const locale = normalizeLocale(args.locale);
+    
+    // Get tags
+    const tags = tableCheckService.getTags(locale);
+    
+    // Format results for MCP response
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatTagsList(tags, locale)
+        }
+      ],
+      structuredContent: {
+        locale: locale,
+        tags: tags
+      }
+    };
+    
+  } catch (error) {
+    return formatToolError('getting tags', error);
+  }
+}
+
+/**
+ * Formats tag list for display
+ * @param tags Array of tag objects
+ * @param locale Language locale
+ * @returns Formatted tag list string
+ */
+function formatTagsList(tags: Tag[], locale: string): string {
+  let output = `${t(locale, 'tags_header', { count: tags.length })}\n\n`;
+  
+  tags.forEach((tag, index) => {
+    output += `${index + 1}. **${tag.name}** (${tag.id})\n`;
+  });
+  
+  output += `\n${t(locale, 'tags_hint')}`;
+  
+  return output;
+}
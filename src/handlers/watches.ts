@@ -0,0 +1,197 @@
+import { WatchService, watchResourceUri } from '../services/watches.js';
+import { TableCheckError, validationError } from '../services/errors.js';
+import { AvailabilityWatch, CreateWatchParams, ToolContext } from '../types/index.js';
+import { validateCreateWatchParams } from '../utils/validation.js';
+import { formatCalendarDate, formatLocalDateTime } from '../utils/dates.js';
+import { normalizeLocale, t } from '../utils/locale.js';
+import { CONFIG } from '../config/constants.js';
+import { formatToolError } from './errors.js';
+
+/**
+ * Handles availability watch creation requests
+ * @param watchService Instance of the watch service
+ * @param args Watch arguments from MCP client
+ * @returns Formatted watch confirmation
+ */
+export async function handleCreateAvailabilityWatch(watchService: WatchService, args: any, context: ToolContext = {}) {
+  try {
+    const locale = normalizeLocale(args.locale);
+
+    // Parse and validate watch parameters
+    const watchParams: CreateWatchParams = {
+      shop_id: args.shop_id,
+      date: args.date,
+      num_people: args.num_people,
+      time_from: args.time_from,
+      time_to: args.time_to,
+      note: args.note,
+    };
+
+    // Validate parameters
+    validateCreateWatchParams(watchParams);
+
+    // Create watch
+    const watch = await watchService.create(watchParams, context.ownerId);
+
+    // Format results for MCP response
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatCreatedWatch(watch, locale)
+        }
+      ],
+      structuredContent: {
+        watch: watch,
+        resource_uri: watchResourceUri(watch.id)
+      }
+    };
+
+  } catch (error) {
+    return formatToolError('creating availability watch', error);
+  }
+}
+
+/**
+ * Handles availability watch list requests
+ * @param watchService Instance of the watch service
+ * @param args List arguments from MCP client
+ * @returns Formatted watch list
+ */
+export async function handleListAvailabilityWatches(watchService: WatchService, args: any, context: ToolContext = {}) {
+  try {
+    const locale = normalizeLocale(args.locale);
+
+    if (args.status && !['active', 'matched', 'expired'].includes(args.status)) {
+      throw validationError('status must be one of active, matched, expired');
+    }
+
+    // Get watches
+    const watches = await watchService.list(context.ownerId, args.status);
+
+    // Format results for MCP response
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatWatchList(watches, locale)
+        }
+      ],
+      structuredContent: {
+        watches: watches
+      }
+    };
+
+  } catch (error) {
+    return formatToolError('listing availability watches', error);
+  }
+}
+
+/**
+ * Handles availability watch deletion requests
+ * @param watchService Instance of the watch service
+ * @param args Delete arguments from MCP client
+ * @returns Deletion confirmation
+ */
+export async function handleDeleteAvailabilityWatch(watchService: WatchService, args: any, context: ToolContext = {}) {
+  try {
+    const locale = normalizeLocale(args.locale);
+
+    if (!args.watch_id) {
+      throw validationError('watch_id is required', 'Call list_availability_watches for watch IDs');
+    }
+
+    // Delete watch
+    const deleted = await watchService.delete(args.watch_id, context.ownerId);
+    if (!deleted) {
+      throw new TableCheckError(`Watch ${args.watch_id} not found`, 'not_found', { hint: 'Call list_availability_watches for valid watch IDs' });
+    }
+
+    // Format results for MCP response
+    return {
+      content: [
+        {
+          type: "text",
+          text: t(locale, 'watch_deleted', { watch_id: args.watch_id })
+        }
+      ],
+      structuredContent: {
+        watch_id: args.watch_id,
+        deleted: true
+      }
+    };
+
+  } catch (error) {
+    return formatToolError('deleting availability watch', error);
+  }
+}
+
+/**
+ * Describes what a watch is looking for, e.g. "ishi on Sat 19 Jul 2025, 18:00-20:00, 4 people"
+ */
+function describeWatch(watch: AvailabilityWatch, locale: string): string {
+  let description = t(locale, 'watch_on', { shop_id: watch.shop_id, date: formatCalendarDate(watch.date, locale) });
+
+  if (watch.time_from || watch.time_to) {
+    description += `, ${watch.time_from || t(locale, 'watch_opening')}-${watch.time_to || t(locale, 'watch_closing')}`;
+  }
+
+  return `${description}, ${t(locale, 'watch_people', { count: watch.num_people })}`;
+}
+
+/**
+ * Formats a newly created watch for display
+ * @param watch Created watch
+ * @param locale Output locale
+ * @returns Formatted confirmation string
+ */
+function formatCreatedWatch(watch: AvailabilityWatch, locale: string): string {
+  let output = `${t(locale, 'watch_created', { watch: describeWatch(watch, locale) })}\n\n`;
+  output += `• ${t(locale, 'label_watch_id')}: ${watch.id}\n`;
+  output += `• ${t(locale, 'label_resource')}: ${watchResourceUri(watch.id)}\n`;
+  output += `• ${t(locale, 'watch_interval', { seconds: Math.round(CONFIG.WATCH_POLL_INTERVAL_MS / 1000) })}\n\n`;
+  output += t(locale, 'watch_hint');
+
+  return output;
+}
+
+/**
+ * Formats a list of watches for display
+ * @param watches Watches to display
+ * @param locale Output locale
+ * @returns Formatted watch list string
+ */
+function formatWatchList(watches: AvailabilityWatch[], locale: string): string {
+  if (watches.length === 0) {
+    return t(locale, 'watches_none');
+  }
+
+  let output = `${t(locale, 'watches_header', { count: watches.length })}\n\n`;
+
+  watches.forEach((watch, index) => {
+    output += `${index + 1}. **${describeWatch(watch, locale)}**\n`;
+    output += `   • ${t(locale, 'label_status')}: ${t(locale, `watch_status_${watch.status}`)}\n`;
+
+    if (watch.status === 'matched' && watch.matched_slots.length > 0) {
+      const timeZone = watch.time_zone || CONFIG.DEFAULT_SHOP_TIMEZONE;
+      const times = watch.matched_slots.map(time => formatLocalDateTime(time, timeZone, locale));
+      output += `   • ${t(locale, 'label_open_slots_found')}: ${times.join('; ')} (${timeZone})\n`;
+    }
+
+    if (watch.note) {
+      output += `   • ${t(locale, 'label_note')}: ${watch.note}\n`;
+    }
+
+    const lastChecked = watch.last_checked_at ? t(locale, 'watch_last_checked', { time: watch.last_checked_at }) : '';
+    output += `   • ${t(locale, 'label_checks')}: ${watch.checks}${lastChecked}\n`;
+
+    if (watch.last_error) {
+      output += `   • ${t(locale, 'label_last_error')}: ${watch.last_error}\n`;
+    }
+
+    output += `   • ${t(locale, 'label_watch_id')}: ${watch.id}\n`;
+    output += '\n';
+  });
+
+  return output;
+}
@@ -2,33 +2,42 @@
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createMcpServer } from './core/server.js';
+import { TableCheckService } from './services/tablecheck.js';
+import { createWatchService, startWatchPoller } from './services/watches.js';
+import { loadConfig, getConfigPath, ConfigError } from './config/loader.js';
+import { logger } from './utils/logger.js';
 
 /**
  * Main entry point for stdio transport (local MCP server)
  */
 async function main() {
-  const server = createMcpServer();
+  loadConfig({ configPath: getConfigPath(process.argv) });
+
+  const tableCheckService = new TableCheckService();
+  const watchService = createWatchService(tableCheckService);
+  const server = createMcpServer(tableCheckService, watchService);
   const transport = new StdioServerTransport();
   
   await server.connect(transport);
-  console.error("TableCheck MCP Server running on stdio");
+  startWatchPoller(watchService);
+  logger.info("TableCheck MCP Server running on stdio");
 }
 
 /**
  * Handle process events
  */
 process.on('SIGINT', async () => {
-  console.error("Received SIGINT, shutting down gracefully...");
+  logger.info("Received SIGINT, shutting down gracefully");
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
-  console.error("Received SIGTERM, shutting down gracefully...");
+  logger.info("Received SIGTERM, shutting down gracefully");
   process.exit(0);
 });
 
 // Start the server
 main().catch((error) => {
-  console.error("Fatal error in main:", error);
+  logger.error("Fatal error in main", { error: error instanceof ConfigError ? error.message : error });
   process.exit(1);
 }); 
\ No newline at end of file
@@ -0,0 +1,290 @@
+#!/usr/bin/env node
+
+import express, { Request, Response, NextFunction } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import { calculateDistance } from '../utils/location.js';
+
+dayjs.extend(utc);
+
+/**************************
+ * MOCK: TABLECHECK API
+ *
+ * Serves the recorded fixtures in assets/ on the same routes the
+ * url-builder targets, so the MCP server can run without network access.
+ * Usable as a script (`npm run mock:api`) or imported from tests.
+**************************/
+
+export type MockRoute = 'shop_search' | 'autocomplete' | 'cuisines' | 'availability_calendar';
+
+export interface MockError {
+  status: number;
+  retryAfter?: number;
+  // Number of requests to fail before succeeding again; fails forever when omitted
+  times?: number;
+}
+
+export interface MockScenario {
+  latencyMs?: number;
+  // Overrides the recorded slots with every slot booked or every slot open,
+  // e.g. to test availability watches
+  availability?: 'fixture' | 'sold_out' | 'open';
+  errors?: Partial<Record<MockRoute, MockError>>;
+}
+
+export interface MockTableCheckApiOptions {
+  port?: number;
+  host?: string;
+  basePath?: string;
+  fixturesDir?: string;
+  scenario?: MockScenario;
+}
+
+export interface MockTableCheckApi {
+  url: string;
+  requests: { route: MockRoute, query: Record<string, unknown>, body: unknown }[];
+  setScenario(scenario: MockScenario): void;
+  close(): Promise<void>;
+}
+
+const DEFAULT_FIXTURES_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../assets');
+
+const asArray = (value: unknown): string[] => {
+  if (value === undefined) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).map(String);
+};
+
+const encodeCursor = (offset: number): string => Buffer.from(JSON.stringify([offset])).toString('base64');
+
+const decodeCursor = (cursor: unknown): number => {
+  try {
+    const [offset] = JSON.parse(Buffer.from(String(cursor), 'base64').toString('utf8'));
+    return Number.isInteger(offset) ? offset : 0;
+  } catch (error) {
+    return 0;
+  }
+};
+
+/**
+ * Filters and paginates fixture shops using shop_search query parameters
+ */
+const searchShops = (shops: any[], query: Record<string, any>) => {
+  const cuisines = asArray(query['cuisines[]'] ?? query.cuisines);
+  const tags = asArray(query['tags[]'] ?? query.tags);
+  const slugs = asArray(query['shop_slugs[]'] ?? query.shop_slugs);
+  const ids = asArray(query['shop_ids[]'] ?? query.shop_ids);
+  const lat = parseFloat(query.geo_latitude);
+  const lng = parseFloat(query.geo_longitude);
+  const distanceKm = parseFloat(query.geo_distance);
+  const budgetMin = parseFloat(query.budget_dinner_avg_min ?? query.budget_lunch_avg_min);
+  const budgetMax = parseFloat(query.budget_dinner_avg_max ?? query.budget_lunch_avg_max);
+  const budgetField = query.budget_lunch_avg_min || query.budget_lunch_avg_max ? 'budget_lunch_avg' : 'budget_dinner_avg';
+
+  const matches = shops.filter(shop => {
+    if (slugs.length > 0 && !slugs.includes(shop.slug)) {
+      return false;
+    }
+    if (ids.length > 0 && !ids.includes(shop._id)) {
+      return false;
+    }
+    if (cuisines.length > 0 && !cuisines.some(cuisine => (shop.cuisines || []).includes(cuisine))) {
+      return false;
+    }
+    if (tags.length > 0 && !tags.every(tag => (shop.tags || []).includes(tag))) {
+      return false;
+    }
+    if (!isNaN(lat) && !isNaN(lng) && !isNaN(distanceKm) && shop.geocode) {
+      if (calculateDistance(lat, lng, shop.geocode.lat, shop.geocode.lon) > distanceKm) {
+        return false;
+      }
+    }
+    const budget = parseFloat(shop[budgetField]);
+    if (!isNaN(budgetMin) && !isNaN(budget) && budget < budgetMin) {
+      return false;
+    }
+    if (!isNaN(budgetMax) && !isNaN(budget) && budget > budgetMax) {
+      return false;
+    }
+    if (query.date_min || query.date_max) {
+      const dates: string[] = shop.availability || [];
+      return dates.some(date => (!query.date_min || date >= query.date_min) && (!query.date_max || date <= query.date_max));
+    }
+    return true;
+  });
+
+  const perPage = parseInt(query.per_page, 10) || 50;
+  const offset = query.search_after ? decodeCursor(query.search_after) : 0;
+  const page = matches.slice(offset, offset + perPage);
+  const lastPage = offset + perPage >= matches.length;
+
+  return {
+    shops: page,
+    meta: {
+      record_count: matches.length,
+      search_after: page.length > 0 ? encodeCursor(offset + page.length) : null,
+      last_page: lastPage,
+    },
+  };
+};
+
+/**
+ * Shifts the fixture calendar so that its first day is the requested start date
+ */
+const rebaseCalendar = (fixture: any, startAt: unknown) => {
+  const calendar = fixture.availability_calendar;
+  const days = Object.keys(calendar.data).sort();
+  const startDate = /^\d{4}-\d{2}-\d{2}/.exec(String(startAt || ''));
+  if (days.length === 0 || !startDate) {
+    return fixture;
+  }
+
+  const offsetDays = dayjs.utc(startDate[0]).diff(dayjs.utc(days[0]), 'day');
+  const shift = (value: string, format: string) => dayjs.utc(value).add(offsetDays, 'day').format(format);
+  const data: Record<string, Record<string, boolean>> = {};
+
+  days.forEach(day => {
+    const slots: Record<string, boolean> = {};
+    Object.entries(calendar.data[day] as Record<string, boolean>).forEach(([time, available]) => {
+      slots[shift(time, 'YYYY-MM-DDTHH:mm:ss.SSS[Z]')] = available;
+    });
+    data[shift(day, 'YYYY-MM-DD')] = slots;
+  });
+
+  return {
+    availability_calendar: {
+      ...calendar,
+      closed_dates: (calendar.closed_dates || []).map((date: string) => shift(date, 'YYYY-MM-DD')),
+      data,
+    },
+  };
+};
+
+/**
+ * Marks every slot in a calendar as open or booked
+ */
+const setAllSlots = (fixture: any, available: boolean) => {
+  const data: Record<string, Record<string, boolean>> = {};
+  Object.entries(fixture.availability_calendar.data as Record<string, Record<string, boolean>>).forEach(([day, slots]) => {
+    data[day] = Object.fromEntries(Object.keys(slots).map(time => [time, available]));
+  });
+  return { availability_calendar: { ...fixture.availability_calendar, data } };
+};
+
+/**
+ * Starts the mock TableCheck API
+ * @param options Port, base path, fixtures directory and initial scenario
+ * @returns Handle with the base URL (use it as api_base_url), recorded requests and close()
+ */
+export const startMockTableCheckApi = async (options: MockTableCheckApiOptions = {}): Promise<MockTableCheckApi> => {
+  const fixturesDir = options.fixturesDir || DEFAULT_FIXTURES_DIR;
+  const basePath = options.basePath ?? '/v2';
+  const fixture = (name: string) => JSON.parse(readFileSync(path.join(fixturesDir, name), 'utf8'));
+  const fixtures = {
+    search: fixture('search.json'),
+    autocomplete: fixture('autocomplete.json'),
+    cuisines: fixture('cuisines.json'),
+    availability: fixture('availability_calendar.json'),
+  };
+
+  let scenario: MockScenario = options.scenario || {};
+  const failures: Partial<Record<MockRoute, number>> = {};
+  const requests: MockTableCheckApi['requests'] = [];
+
+  const app = express();
+  app.use(express.json());
+
+  // Records the request, then applies injected latency and errors
+  const simulate = (route: MockRoute) => async (req: Request, res: Response, next: NextFunction) => {
+    requests.push({ route, query: req.query, body: req.body });
+
+    if (scenario.latencyMs) {
+      await new Promise(resolve => setTimeout(resolve, scenario.latencyMs));
+    }
+
+    const error = scenario.errors?.[route];
+    if (error && (error.times === undefined || (failures[route] || 0) < error.times)) {
+      failures[route] = (failures[route] || 0) + 1;
+      if (error.retryAfter !== undefined) {
+        res.set('Retry-After', String(error.retryAfter));
+      }
+      res.status(error.status).json({ errors: [`Simulated ${error.status} error`] });
+      return;
+    }
+
+    next();
+  };
+
+  app.get(`${basePath}/shop_search`, simulate('shop_search'), (req, res) => {
+    res.json(searchShops(fixtures.search.shops, req.query));
+  });
+
+  app.get(`${basePath}/autocomplete`, simulate('autocomplete'), (req, res) => {
+    const text = String(req.query.text || '').toLowerCase();
+    const matchesText = (item: any) => !text || String(item.text).toLowerCase().includes(text) ||
+      JSON.stringify(item.payload).toLowerCase().includes(text);
+
+    res.json({
+      cuisines: fixtures.autocomplete.cuisines.filter(matchesText),
+      shops: fixtures.autocomplete.shops.filter(matchesText),
+    });
+  });
+
+  app.get(`${basePath}/cuisines`, simulate('cuisines'), (req, res) => {
+    res.json(fixtures.cuisines);
+  });
+
+  app.post(`${basePath}/hub/availability_calendar`, simulate('availability_calendar'), (req, res) => {
+    if (!req.body || !req.body.shop_id) {
+      res.status(400).json({ errors: ['shop_id is required'] });
+      return;
+    }
+    const calendar = rebaseCalendar(fixtures.availability, req.body.start_at);
+    res.json(scenario.availability && scenario.availability !== 'fixture'
+      ? setAllSlots(calendar, scenario.availability === 'open')
+      : calendar);
+  });
+
+  // Lets a running mock server switch scenarios, e.g. from a shell or another process
+  app.put('/__scenario', (req, res) => {
+    scenario = req.body || {};
+    Object.keys(failures).forEach(route => delete failures[route as MockRoute]);
+    res.json(scenario);
+  });
+
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(options.port ?? 0, options.host || '127.0.0.1', () => resolve(listening));
+  });
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://${options.host || '127.0.0.1'}:${address.port}${basePath}`,
+    requests,
+    setScenario(next: MockScenario) {
+      scenario = next;
+      Object.keys(failures).forEach(route => delete failures[route as MockRoute]);
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve())),
+  };
+};
+
+// Run as a script: `tsx src/mock/tablecheck-api.ts` (PORT and MOCK_LATENCY_MS are optional)
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  startMockTableCheckApi({
+    port: process.env.PORT ? parseInt(process.env.PORT, 10) : 4010,
+    host: process.env.HOST,
+    scenario: { latencyMs: process.env.MOCK_LATENCY_MS ? parseInt(process.env.MOCK_LATENCY_MS, 10) : undefined },
+  }).then(api => {
+    console.error(`Mock TableCheck API running on ${api.url}`);
+    console.error(`Point the MCP server at it with TABLECHECK_API_BASE_URL=${api.url}`);
+  }).catch(error => {
+    console.error('Failed to start mock TableCheck API:', error);
+    process.exit(1);
+  });
+}
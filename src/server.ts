@@ -2,12 +2,22 @@
 
 import { Request, Response } from 'express';
 import express from 'express';
-import morgan from 'morgan';
 import cors from 'cors';
 import compression from 'compression';
 import helmet from 'helmet';
+import { randomUUID } from 'crypto';
 import { createMcpServer } from './core/server.js';
+import { SessionStore } from './core/sessions.js';
+import { createTokenVerifier, getOwnerId } from './auth/verifiers.js';
+import { requireAuth, rateLimitByClient, createCorsOptions, protectedResourceMetadataHandler, PROTECTED_RESOURCE_METADATA_PATH } from './auth/middleware.js';
+import { TableCheckService } from './services/tablecheck.js';
+import { metrics, registerCacheMetrics } from './services/metrics.js';
+import { createWatchService, startWatchPoller } from './services/watches.js';
+import { loadConfig, getConfigPath } from './config/loader.js';
+import { CONFIG } from './config/constants.js';
+import { logger, runWithLogContext } from './utils/logger.js';
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 
 /**************************
  * SERVER: MCP WEB SERVER
@@ -15,7 +25,10 @@ import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/
  * Plugs an MCP Server into an Express server so that it can be
  * accessed via HTTP. 
  * 
- * Uses StreamableHTTPServerTransport to handle MCP requests.
+ * Uses StreamableHTTPServerTransport to handle MCP requests, either
+ * stateless (a new server per request, the default) or with sessions
+ * (MCP_SESSION_MODE=stateful) so clients can open an SSE stream for
+ * notifications.
 **************************/
 
 /**
@@ -25,6 +38,26 @@ const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 3000;
 const NODE_ENV = process.env.NODE_ENV || 'development';
 const HOST = process.env.HOST || '0.0.0.0';
 
+try {
+  loadConfig({ configPath: getConfigPath(process.argv) });
+} catch (error) {
+  logger.error('Invalid configuration', { error: error instanceof Error ? error.message : error });
+  process.exit(1);
+}
+
+// A single TableCheck service is shared by all requests so its response cache is reused
+const tableCheckService = new TableCheckService();
+registerCacheMetrics(() => tableCheckService.getCacheStats());
+
+// Availability watches are checked in the background and shared by all requests
+const watchService = createWatchService(tableCheckService);
+
+// Sessions are only used in stateful mode
+const sessionStore = new SessionStore();
+
+// Verifies API keys or OAuth access tokens; undefined when auth is disabled
+const tokenVerifier = createTokenVerifier();
+
 
 
 // Create Web Server
@@ -34,97 +67,230 @@ app.use(helmet({
   crossOriginEmbedderPolicy: false
 }));
 
-app.use(cors({
-  // origin: NODE_ENV === 'production' ? false : '*', // Allow all origins in dev
-  origin: '*',
-  credentials: true
-}));
+app.use(cors(createCorsOptions()));
 app.use(compression());
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Add Morgan logging middleware
-if (NODE_ENV === 'development') {
-  // Detailed logging for development
-  app.use(morgan('dev'));
-} else {
-  // Common log format for production
-  app.use(morgan('combined'));
+// Request IDs from upstream proxies are reused if they look safe to log
+const REQUEST_ID_PATTERN = /^[\w.-]{1,128}$/;
+
+// Correlation ID and access log: everything logged while handling a request,
+// down to TableCheck API calls, carries its request ID
+app.use((req: Request, res: Response, next: express.NextFunction) => {
+  const header = req.header('x-request-id');
+  const requestId = header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+  const start = Date.now();
+
+  res.set('X-Request-Id', requestId);
+  res.on('finish', () => {
+    logger.info('Request completed', {
+      request_id: requestId,
+      client_id: req.auth?.clientId,
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      duration_ms: Date.now() - start,
+    });
+  });
+
+  runWithLogContext({ request_id: requestId }, next);
+});
+
+// Authentication and per-client rate limits for the MCP endpoint; metrics
+// describe every client's traffic, so they need a valid token too
+if (tokenVerifier) {
+  app.use('/mcp', requireAuth(tokenVerifier, { requiredScopes: CONFIG.OAUTH_REQUIRED_SCOPES }), rateLimitByClient());
+  app.use('/metrics', requireAuth(tokenVerifier));
 }
 
-app.post('/mcp', async (req: Request, res: Response) => {
+// OAuth protected resource metadata, so clients can find the authorization server
+if (CONFIG.AUTH_MODE === 'oauth') {
+  app.get([PROTECTED_RESOURCE_METADATA_PATH, `${PROTECTED_RESOURCE_METADATA_PATH}/mcp`], protectedResourceMetadataHandler);
+}
+
+/**
+ * Sends a JSON-RPC error response that is not tied to a request ID
+ */
+function sendJsonRpcError(res: Response, status: number, code: number, message: string) {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: {
+      code: code,
+      message: message,
+    },
+    id: null,
+  });
+}
+
+/**
+ * Handles an MCP request in stateless mode
+ */
+async function handleStatelessRequest(req: Request, res: Response) {
   // In stateless mode, create a new instance of transport and server for each request
   // to ensure complete isolation. A single instance would cause request ID collisions
   // when multiple clients connect concurrently.
 
-  // Create MCP Server
-  const mcpServer = createMcpServer();
+  // Create MCP Server; the response ends with the request, so it cannot carry notifications later
+  const mcpServer = createMcpServer(tableCheckService, watchService, { notifications: false });
 
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: undefined,
+  });
+  res.on('close', () => {
+    transport.close();
+    mcpServer.close();
+  });
+  await mcpServer.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+}
+
+/**
+ * Handles an MCP POST in stateful mode: initialize requests open a new session,
+ * everything else is routed to the session named in the Mcp-Session-Id header
+ */
+async function handleStatefulPost(req: Request, res: Response) {
+  const sessionId = req.header('mcp-session-id');
+
+  if (sessionId) {
+    const session = sessionStore.touch(sessionId, getOwnerId(req.auth));
+    if (!session) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    await runWithLogContext({ session_id: sessionId }, () => session.transport.handleRequest(req, res, req.body));
+    return;
+  }
+
+  if (!isInitializeRequest(req.body)) {
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+    return;
+  }
+
+  if (!sessionStore.hasCapacity()) {
+    sendJsonRpcError(res, 503, -32000, 'Too many active sessions, try again later');
+    return;
+  }
+
+  // Each session gets its own server so subscriptions and notifications stay per client
+  const mcpServer = createMcpServer(tableCheckService, watchService);
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (id: string) => {
+      sessionStore.add(id, mcpServer, transport, getOwnerId(req.auth));
+      logger.info('MCP session opened', { session_id: id });
+    },
+  });
+  transport.onclose = () => {
+    const id = transport.sessionId;
+    if (id) {
+      sessionStore.close(id)
+        .then(closed => {
+          if (closed) {
+            logger.info('MCP session closed', { session_id: id });
+          }
+        })
+        .catch(error => logger.error('Error closing MCP session', { session_id: id, error }));
+    }
+  };
+  await mcpServer.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+}
+
+/**
+ * Handles a GET (SSE stream for server notifications) or DELETE (session
+ * termination) in stateful mode
+ */
+async function handleStatefulSessionRequest(req: Request, res: Response) {
+  const sessionId = req.header('mcp-session-id');
+  if (!sessionId) {
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+    return;
+  }
+
+  const session = sessionStore.touch(sessionId, getOwnerId(req.auth));
+  if (!session) {
+    sendJsonRpcError(res, 404, -32001, 'Session not found');
+    return;
+  }
+
+  await runWithLogContext({ session_id: sessionId }, () => session.transport.handleRequest(req, res));
+}
+
+app.post('/mcp', async (req: Request, res: Response) => {
   try {
-    // const server = getServer(); 
-    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-    });
-    res.on('close', () => {
-      console.error('Request closed');
-      transport.close();
-      mcpServer.close();
-    });
-    await mcpServer.connect(transport);
-    await transport.handleRequest(req, res, req.body);
+    if (CONFIG.MCP_SESSION_MODE === 'stateful') {
+      await handleStatefulPost(req, res);
+    } else {
+      await handleStatelessRequest(req, res);
+    }
   } catch (error) {
-    console.error('Error handling MCP request:', error);
+    logger.error('Error handling MCP request', { error });
     if (!res.headersSent) {
-      res.status(500).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32603,
-          message: 'Internal server error',
-        },
-        id: null,
-      });
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
     }
   }
 });
 
-// SSE notifications not supported in stateless mode
+// SSE stream for server-initiated notifications; not supported in stateless mode
 app.get('/mcp', async (req: Request, res: Response) => {
-  console.log('Received GET MCP request');
-  res.writeHead(405).end(JSON.stringify({
-    jsonrpc: "2.0",
-    error: {
-      code: -32000,
-      message: "Method not allowed."
-    },
-    id: null
-  }));
+  if (CONFIG.MCP_SESSION_MODE !== 'stateful') {
+    sendJsonRpcError(res, 405, -32000, 'Method not allowed.');
+    return;
+  }
+
+  try {
+    await handleStatefulSessionRequest(req, res);
+  } catch (error) {
+    logger.error('Error handling MCP SSE stream', { error });
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    }
+  }
 });
 
-// Session termination not needed in stateless mode
+// Session termination; not needed in stateless mode
 app.delete('/mcp', async (req: Request, res: Response) => {
-  console.log('Received DELETE MCP request');
-  res.writeHead(405).end(JSON.stringify({
-    jsonrpc: "2.0",
-    error: {
-      code: -32000,
-      message: "Method not allowed."
-    },
-    id: null
-  }));
+  if (CONFIG.MCP_SESSION_MODE !== 'stateful') {
+    sendJsonRpcError(res, 405, -32000, 'Method not allowed.');
+    return;
+  }
+
+  try {
+    await handleStatefulSessionRequest(req, res);
+  } catch (error) {
+    logger.error('Error terminating MCP session', { error });
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    }
+  }
 });
 
 /**
- * Health check endpoint
+ * Health check endpoint; open to load balancers, so it leaves usage details
+ * such as cache statistics to /metrics
  */
 app.get('/health', (req, res) => {
   res.json({ 
     status: 'healthy',
     timestamp: new Date().toISOString(),
     version: '1.0.0',
-    environment: NODE_ENV
+    environment: NODE_ENV,
+    sessions: {
+      mode: CONFIG.MCP_SESSION_MODE,
+      active: sessionStore.size
+    }
   });
 });
 
+/**
+ * Prometheus metrics endpoint
+ */
+app.get('/metrics', (req, res) => {
+  res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+  res.send(metrics.render());
+});
+
 /**
  * Server info endpoint
  */
@@ -134,9 +300,12 @@ app.get('/info', (req, res) => {
     version: '1.0.0',
     description: 'MCP server for TableCheck restaurant reservations',
     transport: 'sse',
+    session_mode: CONFIG.MCP_SESSION_MODE,
+    auth_mode: CONFIG.AUTH_MODE,
     endpoints: {
       mcp: '/mcp',
       health: '/health',
+      metrics: '/metrics',
       info: '/info'
     }
   });
@@ -146,7 +315,7 @@ app.get('/info', (req, res) => {
  * Error handling middleware
  */
 app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Express error:', error);
+  logger.error('Express error', { error });
   
   if (res.headersSent) {
     return next(error);
@@ -175,37 +344,53 @@ app.use((req, res) => {
 async function startServer() {
   try {
     const server = app.listen(PORT, HOST, () => {
-      console.error(`TableCheck MCP Server running on http://${HOST}:${PORT}`);
-      console.error(`Environment: ${NODE_ENV}`);
-      console.error(`MCP Endpoint: http://${HOST}:${PORT}/mcp`);
-      console.error(`Health check: http://${HOST}:${PORT}/health`);
+      logger.info('TableCheck MCP Server running', {
+        url: `http://${HOST}:${PORT}`,
+        environment: NODE_ENV,
+        auth_mode: CONFIG.AUTH_MODE,
+        session_mode: CONFIG.MCP_SESSION_MODE,
+        mcp_endpoint: `http://${HOST}:${PORT}/mcp`,
+        health_check: `http://${HOST}:${PORT}/health`,
+        metrics: `http://${HOST}:${PORT}/metrics`,
+      });
     });
 
+    const watchPoller = startWatchPoller(watchService);
+    if (CONFIG.MCP_SESSION_MODE === 'stateful') {
+      sessionStore.start();
+    }
+
     // Graceful shutdown
     process.on('SIGTERM', () => {
-      console.error('Received SIGTERM, shutting down gracefully...');
+      logger.info('Received SIGTERM, shutting down gracefully');
+      watchPoller.stop();
+      sessionStore.stop();
+      sessionStore.closeAll();
       server.close(() => {
-        console.error('Server closed');
+        logger.info('Server closed');
         process.exit(0);
       });
     });
 
     process.on('SIGINT', () => {
-      console.error('Received SIGINT, shutting down gracefully...');
+      logger.info('Received SIGINT, shutting down gracefully');
+      watchPoller.stop();
+      sessionStore.stop();
+      sessionStore.closeAll();
       server.close(() => {
-        console.error('Server closed');
+        logger.info('Server closed');
         process.exit(0);
       });
     });
 
   } catch (error) {
-    console.error('Failed to start server:', error);
+    logger.error('Failed to start server', { error });
     process.exit(1);
   }
 }
 
 // Start the server
 startServer().catch((error) => {
-  console.error('Fatal error starting server:', error);
+  logger.error('Fatal error starting server', { error });
   process.exit(1);
 }); 
\ No newline at end of file
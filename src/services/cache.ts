@@ -0,0 +1,218 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CONFIG } from '../config/constants.js';
+import { Clock, systemClock } from './clock.js';
+
+/**
+ * Storage backend for cached responses
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * In-memory LRU cache store
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  constructor(
+    private maxEntries: number = 500,
+    private clock: Clock = systemClock
+  ) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= this.clock.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.clock.now() + ttlMs });
+
+    // Evict least recently used entries
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * File-backed cache store, one JSON file per entry
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(
+    private directory: string,
+    private clock: Clock = systemClock
+  ) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const entry = JSON.parse(await fs.readFile(this.fileFor(key), 'utf8')) as CacheEntry<T>;
+      if (entry.expiresAt <= this.clock.now()) {
+        await this.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const entry: CacheEntry<T> = { value, expiresAt: this.clock.now() + ttlMs };
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.fileFor(key), JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
+
+/**
+ * Caches upstream API responses with per-endpoint TTLs and hit/miss counters
+ */
+export class ResponseCache {
+  private stats: Record<string, CacheStats> = {};
+  // Loads under way, by key, so concurrent misses for the same request share one upstream call
+  private loading = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private store: CacheStore = new MemoryCacheStore(),
+    private ttls: Record<string, number> = CONFIG.CACHE_TTLS
+  ) {}
+
+  /**
+   * Returns the cached value for a key, or loads and caches it. A miss while
+   * the same key is already loading waits for that load (and its failure)
+   * instead of calling the API again, and counts as a hit.
+   * @param endpoint Endpoint name, used to pick the TTL and count hits
+   * @param key Cache key
+   * @param loader Loads the value on a cache miss
+   * @returns Cached or freshly loaded value
+   */
+  async getOrLoad<T>(endpoint: string, key: string, loader: () => Promise<T>): Promise<T> {
+    const ttl = this.ttls[endpoint] || 0;
+    const stats = this.stats[endpoint] || (this.stats[endpoint] = { hits: 0, misses: 0 });
+
+    // Endpoints without a TTL are never cached or shared
+    if (ttl <= 0) {
+      stats.misses++;
+      return loader();
+    }
+
+    const cached = await this.store.get<T>(key);
+    if (cached !== undefined) {
+      stats.hits++;
+      return cached;
+    }
+
+    const loading = this.loading.get(key) as Promise<T> | undefined;
+    if (loading) {
+      stats.hits++;
+      return loading;
+    }
+
+    stats.misses++;
+    const load = (async () => {
+      const value = await loader();
+      await this.store.set(key, value, ttl);
+      return value;
+    })();
+    this.loading.set(key, load);
+    try {
+      return await load;
+    } finally {
+      this.loading.delete(key);
+    }
+  }
+
+  /**
+   * Gets hit/miss counters per endpoint
+   */
+  getStats(): Record<string, CacheStats> {
+    return JSON.parse(JSON.stringify(this.stats));
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
+
+/**
+ * Builds a cache key from a request URL and body, ignoring the randomize_geo
+ * cache-busting parameter
+ * @param url Request URL
+ * @param body Optional request body
+ * @returns Cache key
+ */
+export const buildCacheKey = (url: string, body?: unknown): string => {
+  const parsed = new URL(url);
+  parsed.searchParams.delete('randomize_geo');
+
+  return body === undefined ? parsed.toString() : `${parsed.toString()} ${JSON.stringify(body)}`;
+};
+
+/**
+ * Creates the configured cache store (memory by default, or file-backed)
+ */
+export const createCacheStore = (): CacheStore => {
+  if (CONFIG.CACHE_STORE === 'file') {
+    return new FileCacheStore(CONFIG.CACHE_DIR);
+  }
+  return new MemoryCacheStore(CONFIG.CACHE_MAX_ENTRIES);
+};
+
+let sharedResponseCache: ResponseCache | undefined;
+
+/**
+ * Gets the response cache shared by every TableCheckService instance,
+ * creating it from the loaded configuration on first use
+ */
+export const getSharedResponseCache = (): ResponseCache => {
+  sharedResponseCache = sharedResponseCache || new ResponseCache(createCacheStore());
+  return sharedResponseCache;
+};
@@ -0,0 +1,95 @@
+/**
+ * Source of the current time, so time-based behaviour can be driven by tests
+ */
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Clock that only moves when told to
+ */
+export class ManualClock implements Clock {
+  constructor(private current: number = Date.now()) {}
+
+  now(): number {
+    return this.current;
+  }
+
+  set(time: number | string | Date): void {
+    this.current = new Date(time).getTime();
+  }
+
+  advance(ms: number): void {
+    this.current += ms;
+  }
+}
+
+/**
+ * Runs callbacks at a fixed interval, so background jobs can be driven by tests
+ */
+export interface Scheduler {
+  /**
+   * Calls a function every interval until the returned function is called
+   */
+  every(intervalMs: number, callback: () => void): () => void;
+}
+
+/**
+ * Scheduler using timers that do not keep the process alive
+ */
+export const systemScheduler: Scheduler = {
+  every: (intervalMs, callback) => {
+    const timer = setInterval(callback, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
+  },
+};
+
+interface ScheduledTask {
+  intervalMs: number;
+  callback: () => void;
+  nextAt: number;
+}
+
+/**
+ * Scheduler that only fires when its clock is advanced
+ */
+export class ManualScheduler implements Scheduler {
+  private tasks = new Set<ScheduledTask>();
+
+  constructor(private clock: ManualClock) {}
+
+  every(intervalMs: number, callback: () => void): () => void {
+    const task: ScheduledTask = { intervalMs, callback, nextAt: this.clock.now() + intervalMs };
+    this.tasks.add(task);
+    return () => {
+      this.tasks.delete(task);
+    };
+  }
+
+  /**
+   * Moves the clock forward, running every callback that falls due on the way
+   * at the time it is due
+   */
+  advance(ms: number): void {
+    const target = this.clock.now() + ms;
+    for (;;) {
+      const due = Array.from(this.tasks)
+        .filter(task => task.nextAt <= target)
+        .sort((a, b) => a.nextAt - b.nextAt)[0];
+      if (!due) {
+        break;
+      }
+      // Like a timer, a callback left overdue by setting the clock runs once, now
+      const at = Math.max(due.nextAt, this.clock.now());
+      this.clock.set(at);
+      due.nextAt = at + due.intervalMs;
+      due.callback();
+    }
+    this.clock.set(target);
+  }
+}
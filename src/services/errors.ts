@@ -0,0 +1,76 @@
+import { ToolErrorCode } from '../types/index.js';
+
+export interface TableCheckErrorOptions {
+  // HTTP status of the failed TableCheck API response, if any
+  statusCode?: number;
+  response?: any;
+  retryAfterSeconds?: number;
+  // What the caller can do about it, e.g. which tool lists valid IDs
+  hint?: string;
+}
+
+/**
+ * Custom error class for TableCheck API errors and rejected tool arguments
+ */
+export class TableCheckError extends Error {
+  public statusCode?: number;
+  public response?: any;
+  public retryAfterSeconds?: number;
+  public hint?: string;
+
+  constructor(
+    message: string,
+    public code: ToolErrorCode,
+    options: TableCheckErrorOptions = {}
+  ) {
+    super(message);
+    this.name = 'TableCheckError';
+    this.statusCode = options.statusCode;
+    this.response = options.response;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+    this.hint = options.hint;
+  }
+}
+
+/**
+ * Creates an error for tool arguments that fail validation
+ * @param message What is wrong with the arguments
+ * @param hint How to find valid values
+ */
+export const validationError = (message: string, hint?: string): TableCheckError => {
+  return new TableCheckError(message, 'validation_error', { hint });
+};
+
+/**
+ * Maps an HTTP status from the TableCheck API to an error code
+ * @param statusCode HTTP status code
+ * @returns Error code
+ */
+export const errorCodeForStatus = (statusCode: number): ToolErrorCode => {
+  switch (statusCode) {
+    case 400:
+    case 422:
+      return 'validation_error';
+    case 404:
+      return 'not_found';
+    case 408:
+    case 504:
+      return 'timeout';
+    case 429:
+      return 'rate_limited';
+    default:
+      return 'upstream_unavailable';
+  }
+};
+
+/**
+ * Wraps anything thrown into a TableCheckError; unknown errors become internal errors
+ * @param error Thrown value
+ * @returns The error itself if it is already a TableCheckError
+ */
+export const toTableCheckError = (error: unknown): TableCheckError => {
+  if (error instanceof TableCheckError) {
+    return error;
+  }
+  return new TableCheckError(error instanceof Error ? error.message : 'Unknown error', 'internal_error');
+};
@@ -0,0 +1,113 @@
+import { readFile } from 'fs/promises';
+import { ExchangeRateProvider, ExchangeRates } from '../types/index.js';
+import { CONFIG } from '../config/constants.js';
+import { EXCHANGE_RATES } from '../config/exchange-rates.js';
+import { logger } from '../utils/logger.js';
+import { Clock, systemClock } from './clock.js';
+import { TableCheckError } from './errors.js';
+
+/**
+ * Checks that parsed JSON is an exchange rate table: a base currency and
+ * positive rates keyed by 3-letter currency code, including the base
+ * @param data Parsed JSON
+ * @returns Exchange rates with currency codes upper-cased
+ */
+export const checkExchangeRates = (data: unknown): ExchangeRates => {
+  const table = data as Partial<ExchangeRates> | null;
+  if (!table || typeof table !== 'object' || typeof table.base !== 'string' || !table.rates || typeof table.rates !== 'object') {
+    throw new Error('Exchange rates must be an object with "base" and "rates"');
+  }
+
+  const rates: Record<string, number> = {};
+  Object.entries(table.rates).forEach(([currency, rate]) => {
+    if (!/^[A-Za-z]{3}$/.test(currency) || typeof rate !== 'number' || !(rate > 0)) {
+      throw new Error(`Invalid exchange rate for "${currency}"`);
+    }
+    rates[currency.toUpperCase()] = rate;
+  });
+
+  const base = table.base.toUpperCase();
+  if (rates[base] === undefined) {
+    rates[base] = 1;
+  }
+
+  return { base, rates, updated_at: typeof table.updated_at === 'string' ? table.updated_at : undefined };
+};
+
+/**
+ * Rate provider backed by the bundled table of approximate rates
+ */
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'static';
+
+  constructor(private rates: ExchangeRates = EXCHANGE_RATES) {}
+
+  async getRates(): Promise<ExchangeRates> {
+    return this.rates;
+  }
+}
+
+/**
+ * Rate provider that reads a JSON rate table ({ base, rates, updated_at }) and
+ * reads it again once it is older than the refresh interval, so the file can
+ * be updated (e.g. by a cron job) without restarting the server. If a reload
+ * fails, the last rates read stay in use.
+ */
+export class FileExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'file';
+  private rates?: ExchangeRates;
+  private loadedAt = 0;
+
+  constructor(
+    private path: string,
+    private refreshMs: number = CONFIG.EXCHANGE_RATES_REFRESH_MS,
+    private clock: Clock = systemClock
+  ) {}
+
+  async getRates(): Promise<ExchangeRates> {
+    if (!this.rates || this.clock.now() - this.loadedAt >= this.refreshMs) {
+      return this.refresh();
+    }
+    return this.rates;
+  }
+
+  async refresh(): Promise<ExchangeRates> {
+    try {
+      this.rates = checkExchangeRates(JSON.parse(await readFile(this.path, 'utf8')));
+      this.loadedAt = this.clock.now();
+      logger.debug('Loaded exchange rates', { path: this.path, base: this.rates.base, updated_at: this.rates.updated_at });
+      return this.rates;
+    } catch (error) {
+      if (!this.rates) {
+        logger.error('Could not read exchange rates', { path: this.path, error });
+        throw new TableCheckError('Exchange rates are unavailable', 'internal_error', {
+          hint: 'Search without a currency, or ask the server operator to check EXCHANGE_RATES_PATH',
+        });
+      }
+      // Try again at the next refresh rather than on every request
+      this.loadedAt = this.clock.now();
+      logger.warn('Could not reload exchange rates, keeping the previous rates', { path: this.path, error });
+      return this.rates;
+    }
+  }
+}
+
+/**
+ * Creates the configured rate provider: the rates file when EXCHANGE_RATES_PATH
+ * is set, otherwise the bundled table
+ */
+export const createDefaultExchangeRateProvider = (): ExchangeRateProvider => {
+  return CONFIG.EXCHANGE_RATES_PATH
+    ? new FileExchangeRateProvider(CONFIG.EXCHANGE_RATES_PATH)
+    : new StaticExchangeRateProvider();
+};
+
+let sharedExchangeRateProvider: ExchangeRateProvider | undefined;
+
+/**
+ * Gets the rate provider shared by every TableCheckService instance
+ */
+export const getSharedExchangeRateProvider = (): ExchangeRateProvider => {
+  sharedExchangeRateProvider = sharedExchangeRateProvider || createDefaultExchangeRateProvider();
+  return sharedExchangeRateProvider;
+};
@@ -0,0 +1,279 @@
+import { Geocoder, GeocodeResult } from '../types/index.js';
+import { TOKYO_LOCATIONS, JAPAN_GAZETTEER, GazetteerEntry } from '../config/gazetteer.js';
+import { logger } from '../utils/logger.js';
+import { TableCheckError } from './errors.js';
+
+/**
+ * Error thrown when a location query cannot be resolved by any geocoder
+ */
+export class LocationNotFoundError extends TableCheckError {
+  constructor(
+    public query: string,
+    public suggestions: string[] = []
+  ) {
+    super(
+      suggestions.length > 0
+        ? `Could not resolve location "${query}". Did you mean: ${suggestions.join(', ')}?`
+        : `Could not resolve location "${query}"`,
+      'not_found',
+      { hint: 'Try a city, prefecture, neighborhood or station name, or pass coordinates ({ lat, lng }) instead' }
+    );
+    this.name = 'LocationNotFoundError';
+  }
+}
+
+/**
+ * Normalizes a place name for comparison (case, width, diacritics, spacing)
+ */
+const normalizeName = (name: string): string => {
+  return name
+    .normalize('NFKC')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\s\-_'’.・]/g, '')
+    .trim();
+};
+
+/**
+ * Computes the Levenshtein edit distance between two strings
+ */
+const editDistance = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Returns the candidate names closest to the query, best match first
+ */
+const closestNames = (query: string, candidates: string[], limit: number): string[] => {
+  const normalized = normalizeName(query);
+  const threshold = Math.max(1, Math.floor(normalized.length / 3));
+
+  return candidates
+    .map(candidate => ({ candidate, distance: editDistance(normalized, normalizeName(candidate)) }))
+    .filter(match => match.distance <= threshold)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(match => match.candidate);
+};
+
+/**
+ * Checks whether `text` contains `word` delimited by word boundaries
+ */
+const containsWord = (text: string, word: string): boolean => {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[\\s,-])${escaped}($|[\\s,-])`).test(text);
+};
+
+/**
+ * Geocoder backed by the built-in table of Tokyo neighborhoods
+ */
+export class KnownLocationsGeocoder implements Geocoder {
+  readonly name = 'known-locations';
+
+  constructor(private locations: Record<string, { lat: number, lng: number }> = TOKYO_LOCATIONS) {}
+
+  async geocode(query: string): Promise<GeocodeResult | null> {
+    const normalized = query.toLowerCase().trim();
+
+    // Direct match
+    if (this.locations[normalized]) {
+      return this.toResult(normalized);
+    }
+
+    // Whole-word partial matches, e.g. "shinjuku gyoen" or "tokyo"
+    const matchedKey = Object.keys(this.locations).find(key =>
+      containsWord(key, normalized) || containsWord(normalized, key)
+    );
+
+    return matchedKey ? this.toResult(matchedKey) : null;
+  }
+
+  suggest(query: string, limit: number): string[] {
+    return closestNames(query, Object.keys(this.locations), limit);
+  }
+
+  private toResult(key: string): GeocodeResult {
+    return { ...this.locations[key], name: key, source: this.name };
+  }
+}
+
+/**
+ * Geocoder backed by the bundled offline gazetteer of Japanese prefectures,
+ * cities, areas and major stations (romaji and kanji)
+ */
+export class GazetteerGeocoder implements Geocoder {
+  readonly name = 'gazetteer';
+  private index = new Map<string, GazetteerEntry>();
+
+  constructor(private entries: GazetteerEntry[] = JAPAN_GAZETTEER) {
+    entries.forEach(entry => {
+      [entry.name, ...entry.aliases].forEach(alias => {
+        const key = normalizeName(alias);
+        if (!this.index.has(key)) {
+          this.index.set(key, entry);
+        }
+      });
+    });
+  }
+
+  async geocode(query: string): Promise<GeocodeResult | null> {
+    // "Gion, Kyoto" or "Osaka, Japan": try the full query, then its first part
+    const candidates = [query, query.split(/[,、]/)[0]];
+
+    for (const candidate of candidates) {
+      const entry = this.lookup(normalizeName(candidate));
+      if (entry) {
+        return { lat: entry.lat, lng: entry.lng, name: entry.name, source: this.name };
+      }
+    }
+
+    return null;
+  }
+
+  suggest(query: string, limit: number): string[] {
+    return closestNames(query, this.entries.map(entry => entry.name), limit);
+  }
+
+  /**
+   * Looks up a normalized name, retrying without suffixes like "station", "駅" or "-shi"
+   */
+  private lookup(normalized: string): GazetteerEntry | undefined {
+    const exact = this.index.get(normalized);
+    if (exact) {
+      return exact;
+    }
+
+    const station = normalized.replace(/(station|eki|駅)$/, '');
+    if (station && station !== normalized) {
+      return this.index.get(`${station}station`) || this.index.get(station);
+    }
+
+    const place = normalized.replace(/(city|shi|prefecture|ken|fu|市|県|府|都)$/, '');
+    if (place && place !== normalized) {
+      return this.index.get(place);
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Place in a Nominatim search response; coordinates are decimal strings
+ */
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name?: unknown;
+}
+
+const isNominatimPlace = (value: unknown): value is NominatimPlace => {
+  return typeof value === 'object' && value !== null &&
+    'lat' in value && typeof value.lat === 'string' &&
+    'lon' in value && typeof value.lon === 'string';
+};
+
+/**
+ * Geocoder backed by a Nominatim-compatible HTTP search API
+ */
+export class HttpGeocoder implements Geocoder {
+  readonly name = 'http';
+
+  constructor(
+    private baseUrl: string,
+    private timeoutMs: number = 5000,
+    private userAgent: string = 'tablecheck-mcp/1.0.0'
+  ) {}
+
+  async geocode(query: string): Promise<GeocodeResult | null> {
+    const queryParams = new URLSearchParams();
+    queryParams.append('q', query);
+    queryParams.append('format', 'jsonv2');
+    queryParams.append('limit', '1');
+
+    const url = `${this.baseUrl.replace(/\/$/, '')}/search?${queryParams.toString()}`;
+    logger.debug('Geocoder request', { url });
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': this.userAgent,
+      },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Geocoding request failed: HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data: unknown = await response.json();
+    const place = Array.isArray(data) ? data[0] : undefined;
+    if (!isNominatimPlace(place)) {
+      return null;
+    }
+
+    const lat = parseFloat(place.lat);
+    const lng = parseFloat(place.lon);
+    if (isNaN(lat) || isNaN(lng)) {
+      return null;
+    }
+
+    return { lat, lng, name: typeof place.display_name === 'string' && place.display_name ? place.display_name : query, source: this.name };
+  }
+}
+
+/**
+ * Tries each geocoder in order and returns the first match.
+ * Throws a LocationNotFoundError with "did you mean" suggestions when none match.
+ */
+export class ChainGeocoder implements Geocoder {
+  readonly name = 'chain';
+
+  constructor(private geocoders: Geocoder[]) {}
+
+  async geocode(query: string): Promise<GeocodeResult> {
+    for (const geocoder of this.geocoders) {
+      try {
+        const result = await geocoder.geocode(query);
+        if (result) {
+          return result;
+        }
+      } catch (error) {
+        logger.warn('Geocoder failed', { geocoder: geocoder.name, error });
+      }
+    }
+
+    throw new LocationNotFoundError(query, this.suggest(query, 5));
+  }
+
+  suggest(query: string, limit: number): string[] {
+    const suggestions: string[] = [];
+
+    this.geocoders.forEach(geocoder => {
+      (geocoder.suggest ? geocoder.suggest(query, limit) : []).forEach(name => {
+        if (!suggestions.some(existing => normalizeName(existing) === normalizeName(name))) {
+          suggestions.push(name);
+        }
+      });
+    });
+
+    return suggestions.slice(0, limit);
+  }
+}
@@ -0,0 +1,180 @@
+import { CONFIG } from '../config/constants.js';
+import { TableCheckError, errorCodeForStatus } from './errors.js';
+import { logger } from '../utils/logger.js';
+
+export interface HttpClientOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetryAfterMs: number;
+  rateLimitCapacity: number;
+  rateLimitPerSecond: number;
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Client-side token bucket limiting how fast requests are sent
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Waits until a token is available and takes it
+   */
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000));
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * HTTP client for outbound TableCheck API calls with per-request timeouts,
+ * exponential backoff with jitter on 5xx/network errors, Retry-After handling
+ * on 429 and a client-side rate limit
+ */
+export class HttpClient {
+  private options: HttpClientOptions;
+  private bucket: TokenBucket;
+
+  constructor(options: Partial<HttpClientOptions> = {}) {
+    this.options = { ...CONFIG.HTTP_CLIENT, ...options };
+    this.bucket = new TokenBucket(this.options.rateLimitCapacity, this.options.rateLimitPerSecond);
+  }
+
+  /**
+   * Sends a request and parses the JSON response
+   * @param url Request URL
+   * @param init Fetch options
+   * @returns Parsed JSON response
+   */
+  async requestJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const isLastAttempt = attempt >= this.options.maxRetries;
+      await this.bucket.take();
+
+      let response: Response;
+      let body: string;
+      try {
+        ({ response, body } = await this.fetchWithTimeout(url, init));
+      } catch (error) {
+        if (isLastAttempt) {
+          throw this.classifyNetworkError(error);
+        }
+        logger.warn('Request failed, retrying', { attempt: attempt + 1, error: error instanceof Error ? error.message : error });
+        await sleep(this.backoffDelay(attempt));
+        continue;
+      }
+
+      if (response.ok) {
+        try {
+          return JSON.parse(body) as T;
+        } catch (error) {
+          throw new TableCheckError('Invalid JSON in TableCheck API response', 'invalid_response', { statusCode: response.status });
+        }
+      }
+
+      if (response.status === 429) {
+        const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        const delay = retryAfterMs ?? this.backoffDelay(attempt);
+
+        if (isLastAttempt || delay > this.options.maxRetryAfterMs) {
+          const retryAfterSeconds = retryAfterMs !== undefined ? Math.ceil(retryAfterMs / 1000) : undefined;
+          throw new TableCheckError('Rate limit exceeded', 'rate_limited', { statusCode: 429, retryAfterSeconds });
+        }
+        logger.warn('Rate limited, retrying', { attempt: attempt + 1, delay_ms: delay });
+        await sleep(delay);
+        continue;
+      }
+
+      if (response.status >= 500 && !isLastAttempt) {
+        logger.warn('Server error, retrying', { attempt: attempt + 1, status: response.status });
+        await sleep(this.backoffDelay(attempt));
+        continue;
+      }
+
+      throw new TableCheckError(`HTTP ${response.status}: ${response.statusText}`, errorCodeForStatus(response.status), { statusCode: response.status });
+    }
+  }
+
+  /**
+   * Sends a request and reads the whole body within the timeout, so a
+   * response that stalls after its headers is aborted too
+   */
+  private async fetchWithTimeout(url: string, init: RequestInit): Promise<{ response: Response, body: string }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      return { response, body: await response.text() };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.floor(Math.random() * ceiling);
+  }
+
+  private classifyNetworkError(error: unknown): TableCheckError {
+    // Aborts reject with a DOMException, which need not be an Error from this realm
+    if (typeof error === 'object' && error !== null && 'name' in error && error.name === 'AbortError') {
+      return new TableCheckError(`TableCheck API request timed out after ${this.options.timeoutMs}ms`, 'timeout');
+    }
+    return new TableCheckError(`TableCheck API is unreachable: ${error instanceof Error ? error.message : 'Unknown error'}`, 'upstream_unavailable');
+  }
+}
+
+let sharedHttpClient: HttpClient | undefined;
+
+/**
+ * Gets the HTTP client shared by every TableCheckService instance, so the
+ * rate limit applies globally
+ */
+export const getSharedHttpClient = (): HttpClient => {
+  sharedHttpClient = sharedHttpClient || new HttpClient();
+  return sharedHttpClient;
+};
@@ -0,0 +1,222 @@
+import { CacheStats } from './cache.js';
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string;
+}
+
+// Latency buckets in seconds, from cache hits to slow upstream calls
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Escapes a label value for the Prometheus text format
+ */
+const escapeLabel = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+};
+
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+/**
+ * Orders label values by the metric's label names so the same labels always
+ * map to the same series
+ */
+const seriesKey = (labelNames: string[], labels: Labels): string => {
+  return JSON.stringify(labelNames.map(name => labels[name] ?? ''));
+};
+
+const pickLabels = (labelNames: string[], labels: Labels): Labels => {
+  return Object.fromEntries(labelNames.map(name => [name, labels[name] ?? '']));
+};
+
+/**
+ * Monotonically increasing count, e.g. tool calls
+ */
+export class Counter implements Metric {
+  private series = new Map<string, { labels: Labels, value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private labelNames: string[] = []
+  ) {}
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = seriesKey(this.labelNames, labels);
+    const series = this.series.get(key) || { labels: pickLabels(this.labelNames, labels), value: 0 };
+    series.value += value;
+    this.series.set(key, series);
+  }
+
+  render(): string {
+    let output = `# HELP ${this.name} ${this.help}\n# TYPE ${this.name} counter\n`;
+    this.series.forEach(series => {
+      output += `${this.name}${formatLabels(series.labels)} ${series.value}\n`;
+    });
+    return output;
+  }
+}
+
+/**
+ * Distribution of observed values, e.g. latencies in seconds
+ */
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels, counts: number[], sum: number, count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private labelNames: string[] = [],
+    private buckets: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(this.labelNames, labels);
+    const series = this.series.get(key) || {
+      labels: pickLabels(this.labelNames, labels),
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  /**
+   * Starts a timer that records the elapsed seconds when called
+   */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => void {
+    const start = process.hrtime.bigint();
+    return (extraLabels: Labels = {}) => {
+      this.observe({ ...labels, ...extraLabels }, Number(process.hrtime.bigint() - start) / 1e9);
+    };
+  }
+
+  render(): string {
+    let output = `# HELP ${this.name} ${this.help}\n# TYPE ${this.name} histogram\n`;
+    this.series.forEach(series => {
+      this.buckets.forEach((bound, index) => {
+        output += `${this.name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${series.counts[index]}\n`;
+      });
+      output += `${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}\n`;
+      output += `${this.name}_sum${formatLabels(series.labels)} ${series.sum}\n`;
+      output += `${this.name}_count${formatLabels(series.labels)} ${series.count}\n`;
+    });
+    return output;
+  }
+}
+
+/**
+ * Metric whose values are read when metrics are scraped, e.g. from cache counters
+ */
+class CollectedMetric implements Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private type: 'counter' | 'gauge',
+    private collect: () => { labels: Labels, value: number }[]
+  ) {}
+
+  render(): string {
+    let output = `# HELP ${this.name} ${this.help}\n# TYPE ${this.name} ${this.type}\n`;
+    this.collect().forEach(sample => {
+      output += `${this.name}${formatLabels(sample.labels)} ${sample.value}\n`;
+    });
+    return output;
+  }
+}
+
+/**
+ * Holds metrics and renders them in the Prometheus text exposition format
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(name, new Counter(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(name, new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Registers a metric read from a callback at scrape time; replaces an earlier
+   * registration with the same name
+   */
+  collected(name: string, help: string, type: 'counter' | 'gauge', collect: () => { labels: Labels, value: number }[]): void {
+    this.metrics.set(name, new CollectedMetric(name, help, type, collect));
+  }
+
+  render(): string {
+    return Array.from(this.metrics.values()).map(metric => metric.render()).join('');
+  }
+
+  private register<T extends Metric>(name: string, metric: T): T {
+    if (this.metrics.has(name)) {
+      throw new Error(`Metric ${name} is already registered`);
+    }
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+export const toolCallsTotal = metrics.counter(
+  'tablecheck_mcp_tool_calls_total',
+  'MCP tool calls by tool and result (ok or error)',
+  ['tool', 'result']
+);
+
+export const toolCallDuration = metrics.histogram(
+  'tablecheck_mcp_tool_call_duration_seconds',
+  'MCP tool call latency',
+  ['tool']
+);
+
+export const apiRequestDuration = metrics.histogram(
+  'tablecheck_api_request_duration_seconds',
+  'TableCheck API request latency by endpoint, excluding cache hits',
+  ['endpoint']
+);
+
+export const apiErrorsTotal = metrics.counter(
+  'tablecheck_api_errors_total',
+  'Failed TableCheck API requests by endpoint, error code and HTTP status code',
+  ['endpoint', 'code', 'status_code']
+);
+
+export const apiDroppedRecordsTotal = metrics.counter(
+  'tablecheck_api_dropped_records_total',
+  'Malformed records dropped from TableCheck API responses by endpoint',
+  ['endpoint']
+);
+
+/**
+ * Exposes response cache hits, misses and hit ratio per endpoint
+ * @param getStats Reads the cache's counters
+ */
+export const registerCacheMetrics = (getStats: () => Record<string, CacheStats>): void => {
+  metrics.collected('tablecheck_cache_hits_total', 'Response cache hits by endpoint', 'counter', () =>
+    Object.entries(getStats()).map(([endpoint, stats]) => ({ labels: { endpoint }, value: stats.hits })));
+
+  metrics.collected('tablecheck_cache_misses_total', 'Response cache misses by endpoint', 'counter', () =>
+    Object.entries(getStats()).map(([endpoint, stats]) => ({ labels: { endpoint }, value: stats.misses })));
+
+  metrics.collected('tablecheck_cache_hit_ratio', 'Share of requests served from the response cache by endpoint', 'gauge', () =>
+    Object.entries(getStats())
+      .filter(([, stats]) => stats.hits + stats.misses > 0)
+      .map(([endpoint, stats]) => ({ labels: { endpoint }, value: stats.hits / (stats.hits + stats.misses) })));
+};
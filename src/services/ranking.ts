@@ -0,0 +1,249 @@
+import { SearchParams, RestaurantResult, RelevanceFactor, RelevanceComponent, RelevanceScore } from '../types/index.js';
+import { CONFIG } from '../config/constants.js';
+import { SHOP_TAGS } from '../config/tags.js';
+import { calculateDistance } from '../utils/location.js';
+import { getBudgetPrices } from '../utils/currency.js';
+import dayjs from 'dayjs';
+
+/**************************
+ * Relevance ranking for search results.
+ *
+ * Each result is scored from 0 to 1 on the factors the search asked about:
+ * how well the query matches its name or cuisine, distance from the search
+ * location, fit with the budget, how many days it has availability and how
+ * many of the wanted tags it carries. Factors the search did not ask about are
+ * left out and the remaining weights are scaled to add up to 1, so scores
+ * stay comparable within one search.
+**************************/
+
+const WEIGHTS: Record<RelevanceFactor, number> = {
+  text_match: 0.35,
+  distance: 0.25,
+  budget: 0.15,
+  availability: 0.15,
+  tags: 0.1,
+};
+
+// Radius used when the search has a location but no geo_distance
+const DEFAULT_RADIUS_KM = 5;
+
+type FactorScore = { score: number, reason: string };
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const normalize = (text: string): string => text.normalize('NFKC').toLowerCase().trim();
+
+// Splits text into words, including languages written without spaces
+const WORD_SEGMENTER = new Intl.Segmenter(undefined, { granularity: 'word' });
+
+const toWords = (text: string): string[] => {
+  return Array.from(WORD_SEGMENTER.segment(normalize(text)))
+    .filter(segment => segment.isWordLike)
+    .map(segment => segment.segment);
+};
+
+/**
+ * Checks whether a phrase appears in text as whole words, so "quiet" does not
+ * match "quietness"
+ * @param words Words of the text
+ * @param phrase Words of the phrase
+ */
+const containsWords = (words: string[], phrase: string[]): boolean => {
+  return phrase.length > 0 &&
+    words.some((_, start) => phrase.every((word, offset) => words[start + offset] === word));
+};
+
+/**
+ * Parses a geo_distance such as "5km" or "800m" into kilometers
+ */
+const parseRadiusKm = (distance: string | undefined): number => {
+  const match = distance ? /^(\d+(?:\.\d+)?)\s*(km|m)?$/i.exec(distance.trim()) : null;
+  if (!match) {
+    return DEFAULT_RADIUS_KM;
+  }
+  const value = parseFloat(match[1]);
+  return match[2] && match[2].toLowerCase() === 'm' ? value / 1000 : value;
+};
+
+/**
+ * Scores how well the query matches the restaurant's name, kana name or cuisines
+ */
+const scoreTextMatch = (restaurant: RestaurantResult, query: string): FactorScore => {
+  const text = normalize(query);
+  const words = text.split(/\s+/).filter(word => word !== '');
+  const name = normalize(restaurant.name);
+  const candidates: FactorScore[] = [{ score: 0, reason: `No match for "${query}"` }];
+
+  if (name === text) {
+    candidates.push({ score: 1, reason: `Name is "${query}"` });
+  } else if (name.startsWith(text)) {
+    candidates.push({ score: 0.9, reason: `Name starts with "${query}"` });
+  } else if (name.includes(text)) {
+    candidates.push({ score: 0.8, reason: `Name contains "${query}"` });
+  } else {
+    const inName = words.filter(word => name.includes(word));
+    if (inName.length > 0) {
+      candidates.push({
+        score: 0.7 * inName.length / words.length,
+        reason: `Name contains ${inName.length} of ${words.length} query words`,
+      });
+    }
+  }
+
+  if (restaurant.kana_name && normalize(restaurant.kana_name).includes(text)) {
+    candidates.push({ score: 0.8, reason: `Kana name contains "${query}"` });
+  }
+
+  // Cuisine IDs are hyphenated English, e.g. "yakitori" or "modern-french"
+  const cuisineQuery = words.join('-');
+  const cuisine = restaurant.cuisine.find(id => id === cuisineQuery || words.includes(id));
+  if (cuisine) {
+    candidates.push({ score: 0.6, reason: `Serves ${cuisine}` });
+  } else if (restaurant.matched_by && restaurant.matched_by.includes('cuisine')) {
+    candidates.push({ score: 0.5, reason: `Serves a cuisine matching "${query}"` });
+  }
+
+  return candidates.reduce((best, candidate) => candidate.score > best.score ? candidate : best);
+};
+
+/**
+ * Scores closeness to the search location, falling to 0 at the search radius
+ */
+const scoreDistance = (restaurant: RestaurantResult, origin: { lat: number, lng: number }, radiusKm: number): FactorScore => {
+  const { lat, lng } = restaurant.location;
+  if (lat === null || lng === null) {
+    return { score: 0, reason: 'Location unknown' };
+  }
+
+  const distanceKm = calculateDistance(origin.lat, origin.lng, lat, lng);
+  return {
+    score: Math.max(0, 1 - distanceKm / radiusKm),
+    reason: `${distanceKm.toFixed(1)} km away`,
+  };
+};
+
+/**
+ * Scores a price against the budget; prices outside it score by how far off
+ * they are (e.g. 20% over the maximum scores about 0.83)
+ */
+const scorePrice = (label: string, price: number, currency: string, min: number | undefined, max: number | undefined): FactorScore => {
+  const amount = `${label} ${price} ${currency}`;
+  if (min && price < min) {
+    return { score: price / min, reason: `${amount} is below the budget` };
+  }
+  if (max && price > max) {
+    return { score: max / price, reason: `${amount} is over the budget` };
+  }
+  return { score: 1, reason: `${amount} is within the budget` };
+};
+
+/**
+ * Scores the average price for the search's meal period against the budget,
+ * using the better of lunch and dinner when the search is for any meal
+ */
+const scoreBudget = (restaurant: RestaurantResult, params: SearchParams): FactorScore => {
+  const prices = getBudgetPrices(restaurant, params);
+  if (prices.length === 0) {
+    return { score: 0, reason: 'Average price unknown' };
+  }
+
+  return prices
+    .map(({ label, price, currency }) => scorePrice(label, price, currency, params.budget_min, params.budget_max))
+    .reduce((best, candidate) => candidate.score > best.score ? candidate : best);
+};
+
+/**
+ * Scores the share of the searched days with availability
+ */
+const scoreAvailability = (restaurant: RestaurantResult, params: SearchParams): FactorScore => {
+  const days = params.date_min && params.date_max
+    ? dayjs(params.date_max).diff(dayjs(params.date_min), 'day') + 1
+    : CONFIG.DEFAULT_AVAILABILITY_DAYS;
+  const available = restaurant.available_dates.length;
+
+  return {
+    score: Math.min(1, available / Math.max(1, days)),
+    reason: `Available on ${available} of ${days} days`,
+  };
+};
+
+/**
+ * Tags the search wants: the tags filter plus tags the query mentions by ID or
+ * name, matched as whole words
+ */
+const getWantedTags = (params: SearchParams): string[] => {
+  const wanted = new Set(params.tags || []);
+
+  if (params.query) {
+    const words = toWords(params.query);
+    SHOP_TAGS.forEach(tag => {
+      const names = [tag.id, ...tag.translations.map(translation => translation.translation)];
+      if (names.some(name => containsWords(words, toWords(name)))) {
+        wanted.add(tag.id);
+      }
+    });
+  }
+
+  return Array.from(wanted);
+};
+
+const scoreTags = (restaurant: RestaurantResult, wanted: string[]): FactorScore => {
+  const matched = wanted.filter(tag => restaurant.tags.includes(tag));
+  return {
+    score: matched.length / wanted.length,
+    reason: matched.length > 0
+      ? `Has ${matched.length} of ${wanted.length} wanted tags (${matched.join(', ')})`
+      : `Has none of the wanted tags (${wanted.join(', ')})`,
+  };
+};
+
+/**
+ * Scores a restaurant's relevance to a search
+ * @param restaurant Restaurant result
+ * @param params Search parameters
+ * @returns Score and per-factor breakdown
+ */
+export const scoreRelevance = (restaurant: RestaurantResult, params: SearchParams): RelevanceScore => {
+  const factors: Partial<Record<RelevanceFactor, FactorScore>> = {};
+  const wantedTags = getWantedTags(params);
+
+  if (params.query) {
+    factors.text_match = scoreTextMatch(restaurant, params.query);
+  }
+  if (params.location) {
+    factors.distance = scoreDistance(restaurant, params.location, parseRadiusKm(params.geo_distance));
+  }
+  if (params.budget_min || params.budget_max) {
+    factors.budget = scoreBudget(restaurant, params);
+  }
+  factors.availability = scoreAvailability(restaurant, params);
+  if (wantedTags.length > 0) {
+    factors.tags = scoreTags(restaurant, wantedTags);
+  }
+
+  const entries = Object.entries(factors) as [RelevanceFactor, FactorScore][];
+  const totalWeight = entries.reduce((sum, [factor]) => sum + WEIGHTS[factor], 0);
+  const components: RelevanceComponent[] = entries.map(([factor, { score, reason }]) => ({
+    factor,
+    score: round(score),
+    weight: round(WEIGHTS[factor] / totalWeight),
+    reason,
+  }));
+
+  return {
+    score: round(entries.reduce((sum, [factor, { score }]) => sum + score * WEIGHTS[factor], 0) / totalWeight),
+    components,
+  };
+};
+
+/**
+ * Scores results and sorts them by relevance, highest first; ties keep their order
+ * @param results Restaurant results
+ * @param params Search parameters
+ * @returns Results with their relevance set
+ */
+export const rankByRelevance = (results: RestaurantResult[], params: SearchParams): RestaurantResult[] => {
+  return results
+    .map(restaurant => ({ ...restaurant, relevance: scoreRelevance(restaurant, params) }))
+    .sort((a, b) => b.relevance.score - a.relevance.score);
+};
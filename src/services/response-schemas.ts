@@ -0,0 +1,319 @@
+import {
+  ApiTranslation,
+  ApiGeocode,
+  ApiShopImage,
+  ApiShop,
+  ShopSearchResponse,
+  ApiAutocompleteShop,
+  ApiAutocompleteCuisine,
+  AutocompleteResponse,
+  ApiCuisine,
+  CuisinesResponse,
+  AvailabilityCalendarResponse
+} from '../types/index.js';
+import { isValidTimezone } from '../utils/dates.js';
+import { TableCheckError } from './errors.js';
+
+/**************************
+ * Runtime checks for TableCheck API responses.
+ *
+ * Parsing is lenient: a response whose overall shape is wrong (e.g. `shops`
+ * is not an array) fails with an invalid_response error, but a malformed
+ * record inside it is dropped and reported, and an optional field of the
+ * wrong type is left out, so one bad shop does not fail a whole search.
+**************************/
+
+/**
+ * A checked response and the records dropped from it
+ */
+export interface ParsedResponse<T> {
+  value: T;
+  // One entry per dropped record, e.g. "shops[3]: no slug or id"
+  dropped: string[];
+}
+
+export type ResponseParser<T> = (data: unknown) => ParsedResponse<T>;
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const optionalString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+};
+
+const stringList = (value: unknown): string[] => {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+};
+
+const translationList = (value: unknown): ApiTranslation[] => {
+  return Array.isArray(value)
+    ? value.filter((item): item is ApiTranslation =>
+        isObject(item) && typeof item.locale === 'string' && typeof item.translation === 'string')
+    : [];
+};
+
+/**
+ * Parses an amount that the API may return as a string (e.g. "12500.0")
+ */
+const optionalAmount = (value: unknown): number | undefined => {
+  const amount = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+  return isFinite(amount) ? amount : undefined;
+};
+
+const optionalGeocode = (value: unknown): ApiGeocode | undefined => {
+  if (!isObject(value) || typeof value.lat !== 'number' || typeof value.lon !== 'number') {
+    return undefined;
+  }
+  if (Math.abs(value.lat) > 90 || Math.abs(value.lon) > 180) {
+    return undefined;
+  }
+  return { lat: value.lat, lon: value.lon };
+};
+
+const imageList = (value: unknown): ApiShopImage[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const images: ApiShopImage[] = [];
+  value.filter(isObject).forEach(image => {
+    const thumbnail = optionalString(image.thumbnail);
+    const original = optionalString(image.original) || thumbnail;
+    if (original) {
+      images.push({ original, thumbnail, caption: optionalString(image.caption) });
+    }
+  });
+  return images;
+};
+
+const invalidResponse = (problem: string): TableCheckError => {
+  return new TableCheckError(`Unexpected response from the TableCheck API: ${problem}`, 'invalid_response');
+};
+
+const requireObject = (value: unknown, path: string): Fields => {
+  if (!isObject(value)) {
+    throw invalidResponse(`${path} is not an object`);
+  }
+  return value;
+};
+
+/**
+ * Reads a list of records, which may be missing only when optional
+ */
+const requireList = (value: unknown, path: string, optional: boolean = false): unknown[] => {
+  if (value === undefined && optional) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw invalidResponse(`${path} is not an array`);
+  }
+  return value;
+};
+
+/**
+ * Parses each record of a list, dropping the ones the parser rejects
+ * @param items Raw records
+ * @param path Path of the list in the response, for reporting
+ * @param parseRecord Returns the record, or why it was rejected
+ * @param dropped Receives a description of each dropped record
+ * @returns Accepted records
+ */
+const parseRecords = <T>(items: unknown[], path: string, parseRecord: (item: unknown) => T | string, dropped: string[]): T[] => {
+  const records: T[] = [];
+  items.forEach((item, index) => {
+    const result = parseRecord(item);
+    if (typeof result === 'string') {
+      dropped.push(`${path}[${index}]: ${result}`);
+    } else {
+      records.push(result);
+    }
+  });
+  return records;
+};
+
+const parseShop = (item: unknown): ApiShop | string => {
+  if (!isObject(item)) {
+    return 'not an object';
+  }
+
+  const slug = optionalString(item.slug) || optionalString(item.id);
+  if (!slug) {
+    return 'no slug or id';
+  }
+
+  return {
+    _id: optionalString(item._id),
+    id: optionalString(item.id),
+    slug: slug,
+    name: stringList(item.name),
+    name_translations: translationList(item.name_translations),
+    kana_name: optionalString(item.kana_name),
+    cuisines: stringList(item.cuisines),
+    tags: stringList(item.tags),
+    geocode: optionalGeocode(item.geocode),
+    currency: optionalString(item.currency),
+    budget_avg: optionalAmount(item.budget_avg),
+    budget_lunch_min: optionalAmount(item.budget_lunch_min),
+    budget_lunch_max: optionalAmount(item.budget_lunch_max),
+    budget_lunch_avg: optionalAmount(item.budget_lunch_avg),
+    budget_dinner_min: optionalAmount(item.budget_dinner_min),
+    budget_dinner_max: optionalAmount(item.budget_dinner_max),
+    budget_dinner_avg: optionalAmount(item.budget_dinner_avg),
+    availability: stringList(item.availability),
+    search_image: optionalString(item.search_image),
+    images: imageList(item.images),
+    content_title_translations: translationList(item.content_title_translations),
+    tagline_translations: translationList(item.tagline_translations),
+    content_body_translations: translationList(item.content_body_translations),
+    location_name_translations: translationList(item.location_name_translations),
+    location_kana_name: optionalString(item.location_kana_name),
+    time_zone: optionalString(item.time_zone),
+    locale: optionalString(item.locale),
+    service_modes: stringList(item.service_modes),
+    is_smartpay: item.is_smartpay === true,
+    booking_page_mode: optionalString(item.booking_page_mode),
+  };
+};
+
+/**
+ * Checks a shop_search response (also used for shop details)
+ */
+export const checkShopSearchResponse: ResponseParser<ShopSearchResponse> = (data: unknown) => {
+  const body = requireObject(data, 'response');
+  const dropped: string[] = [];
+  const shops = parseRecords(requireList(body.shops, 'shops'), 'shops', parseShop, dropped);
+
+  // Without usable paging details the page is treated as the only one
+  const meta = isObject(body.meta) && typeof body.meta.record_count === 'number'
+    ? {
+        record_count: body.meta.record_count,
+        search_after: optionalString(body.meta.search_after) || null,
+        last_page: body.meta.last_page === true,
+      }
+    : undefined;
+
+  return { value: { shops, meta }, dropped };
+};
+
+const parseAutocompleteShop = (item: unknown): ApiAutocompleteShop | string => {
+  if (!isObject(item)) {
+    return 'not an object';
+  }
+
+  const slug = isObject(item.payload) ? optionalString(item.payload.shop_slug) : undefined;
+  if (!slug) {
+    return 'no payload.shop_slug';
+  }
+
+  return {
+    text: optionalString(item.text) || slug,
+    payload: { shop_slug: slug },
+    cuisines: stringList(item.cuisines),
+    tags: stringList(item.tags),
+    geocode: optionalGeocode(item.geocode),
+    currency: optionalString(item.currency),
+    budget_avg: optionalAmount(item.budget_avg),
+    budget_lunch_min: optionalAmount(item.budget_lunch_min),
+    budget_lunch_max: optionalAmount(item.budget_lunch_max),
+    budget_dinner_min: optionalAmount(item.budget_dinner_min),
+    budget_dinner_max: optionalAmount(item.budget_dinner_max),
+  };
+};
+
+const parseAutocompleteCuisine = (item: unknown): ApiAutocompleteCuisine | string => {
+  if (!isObject(item)) {
+    return 'not an object';
+  }
+
+  const term = isObject(item.payload) ? optionalString(item.payload.term) : undefined;
+  if (!term) {
+    return 'no payload.term';
+  }
+
+  return { text: optionalString(item.text) || term, payload: { term } };
+};
+
+/**
+ * Checks an autocomplete response; either list may be missing when nothing matched
+ */
+export const checkAutocompleteResponse: ResponseParser<AutocompleteResponse> = (data: unknown) => {
+  const body = requireObject(data, 'response');
+  const dropped: string[] = [];
+
+  return {
+    value: {
+      cuisines: parseRecords(requireList(body.cuisines, 'cuisines', true), 'cuisines', parseAutocompleteCuisine, dropped),
+      shops: parseRecords(requireList(body.shops, 'shops', true), 'shops', parseAutocompleteShop, dropped),
+    },
+    dropped,
+  };
+};
+
+const parseCuisine = (item: unknown): ApiCuisine | string => {
+  if (!isObject(item)) {
+    return 'not an object';
+  }
+
+  const field = optionalString(item.field);
+  if (!field) {
+    return 'no field';
+  }
+
+  return { field, text_translations: translationList(item.text_translations) };
+};
+
+/**
+ * Checks a cuisines response
+ */
+export const checkCuisinesResponse: ResponseParser<CuisinesResponse> = (data: unknown) => {
+  const body = requireObject(data, 'response');
+  const dropped: string[] = [];
+
+  return {
+    value: { cuisines: parseRecords(requireList(body.cuisines, 'cuisines'), 'cuisines', parseCuisine, dropped) },
+    dropped,
+  };
+};
+
+/**
+ * Checks an availability_calendar response. Each slot counts as a record: days
+ * that are not objects and slots that are not a time mapped to a boolean are dropped.
+ */
+export const checkAvailabilityCalendarResponse: ResponseParser<AvailabilityCalendarResponse> = (data: unknown) => {
+  const body = requireObject(data, 'response');
+  const calendar = requireObject(body.availability_calendar, 'availability_calendar');
+  const days = calendar.data === undefined ? {} : requireObject(calendar.data, 'availability_calendar.data');
+  const dropped: string[] = [];
+  const slotsByDate: Record<string, Record<string, boolean>> = {};
+
+  Object.entries(days).forEach(([date, times]) => {
+    if (!isObject(times)) {
+      dropped.push(`availability_calendar.data.${date}: not an object`);
+      return;
+    }
+
+    slotsByDate[date] = {};
+    Object.entries(times).forEach(([time, available]) => {
+      if (typeof available !== 'boolean' || isNaN(Date.parse(time))) {
+        dropped.push(`availability_calendar.data.${date}.${time}: not a slot time mapped to true or false`);
+        return;
+      }
+      slotsByDate[date][time] = available;
+    });
+  });
+
+  const timeZone = optionalString(calendar.time_zone);
+
+  return {
+    value: {
+      availability_calendar: {
+        time_zone: timeZone && isValidTimezone(timeZone) ? timeZone : undefined,
+        closed_dates: stringList(calendar.closed_dates),
+        data: slotsByDate,
+      },
+    },
+    dropped,
+  };
+};
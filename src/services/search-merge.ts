@@ -0,0 +1,87 @@
+import { SearchParams, RestaurantResult, SearchMatch } from '../types/index.js';
+import { calculateDistance } from '../utils/location.js';
+
+/**************************
+ * Merging of text query results.
+ *
+ * A text query runs two searches: autocomplete matches restaurant names, and
+ * shop_search matches the cuisines the query resolved to. The same restaurant
+ * often comes back from both, so the results are merged into one list with a
+ * single record per slug that says how it matched.
+**************************/
+
+/**
+ * Adds match reasons to a restaurant, keeping them in a fixed order
+ */
+const withMatches = (restaurant: RestaurantResult, matches: SearchMatch[]): RestaurantResult => {
+  const matchedBy = (['name', 'cuisine'] as SearchMatch[]).filter(match =>
+    matches.includes(match) || (restaurant.matched_by || []).includes(match)
+  );
+  return { ...restaurant, matched_by: matchedBy };
+};
+
+/**
+ * Merges name and cuisine matches into one list without duplicate slugs.
+ * Shop search records carry more data than autocomplete ones, so they win when
+ * a restaurant is in both lists.
+ * @param nameMatches Restaurants whose name matched, in autocomplete order
+ * @param cuisineMatches Restaurants with a matching cuisine, in shop search order
+ * @param params Search parameters with the requested sort
+ * @returns Name matches, then the remaining cuisine matches, unless a sort was requested
+ */
+export const mergeSearchResults = (
+  nameMatches: RestaurantResult[],
+  cuisineMatches: RestaurantResult[],
+  params: SearchParams
+): RestaurantResult[] => {
+  const merged = new Map<string, RestaurantResult>();
+
+  nameMatches.forEach(restaurant => {
+    const existing = merged.get(restaurant.slug);
+    merged.set(restaurant.slug, withMatches(existing || restaurant, ['name']));
+  });
+
+  cuisineMatches.forEach(restaurant => {
+    const existing = merged.get(restaurant.slug);
+    merged.set(restaurant.slug, withMatches(restaurant, existing ? ['name', 'cuisine'] : ['cuisine']));
+  });
+
+  return sortSearchResults(Array.from(merged.values()), params);
+};
+
+/**
+ * Applies the requested sort to merged results, since shop search only sorted
+ * its own records. Restaurants without a price or coordinates go last, and
+ * ties keep their merged order.
+ * @param results Merged restaurant results
+ * @param params Search parameters with sort_by, sort_order and location
+ * @returns Sorted restaurant results
+ */
+const sortSearchResults = (results: RestaurantResult[], params: SearchParams): RestaurantResult[] => {
+  const direction = params.sort_order === 'desc' ? -1 : 1;
+  const origin = params.location;
+
+  let sortKey: ((restaurant: RestaurantResult) => number | undefined) | undefined;
+  if (params.sort_by === 'price') {
+    sortKey = restaurant => restaurant.price_avg;
+  } else if (params.sort_by === 'distance' && origin) {
+    sortKey = ({ location }) => location.lat !== null && location.lng !== null
+      ? calculateDistance(origin.lat, origin.lng, location.lat, location.lng)
+      : undefined;
+  }
+
+  if (!sortKey) {
+    return results;
+  }
+
+  const getKey = sortKey;
+  return results
+    .map(restaurant => ({ restaurant, key: getKey(restaurant) }))
+    .sort((a, b) => {
+      if (a.key === undefined || b.key === undefined) {
+        return (a.key === undefined ? 1 : 0) - (b.key === undefined ? 1 : 0);
+      }
+      return (a.key - b.key) * direction;
+    })
+    .map(({ restaurant }) => restaurant);
+};
@@ -1,65 +1,365 @@
-import { SearchParams, RestaurantResult, AvailabilityParams, AvailabilitySlot, Cuisine, AutocompleteResponse, ShopSearchResponse } from '../types/index.js';
+import { createHash } from 'crypto';
+import { SearchParams, RestaurantResult, RestaurantDetails, RestaurantSearchPage, AvailabilityParams, AvailabilityCalendar, AvailabilitySlot, ShopAvailability, ProgressCallback, FindTableParams, TableMatch, Cuisine, Tag, ApiShop, ShopSearchResponse, AutocompleteResponse, AvailabilityCalendarResponse, CuisinesResponse, ExchangeRates, ExchangeRateProvider } from '../types/index.js';
 import { CONFIG } from '../config/constants.js';
-import { buildShopSearchUrl, buildAutocompleteUrl, buildCuisinesUrl, buildAvailabilityUrl, buildReservationUrl } from '../utils/url-builder.js';
+import { SHOP_TAGS } from '../config/tags.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { ResponseCache, CacheStats, buildCacheKey, getSharedResponseCache } from './cache.js';
+import { HttpClient, getSharedHttpClient } from './http-client.js';
+import { TableCheckError, toTableCheckError, validationError } from './errors.js';
+import { getSharedExchangeRateProvider } from './exchange-rates.js';
+import { apiRequestDuration, apiErrorsTotal, apiDroppedRecordsTotal } from './metrics.js';
+import { mergeSearchResults } from './search-merge.js';
+import { rankByRelevance } from './ranking.js';
+import { ResponseParser, checkShopSearchResponse, checkAutocompleteResponse, checkCuisinesResponse, checkAvailabilityCalendarResponse } from './response-schemas.js';
+import { logger } from '../utils/logger.js';
+import { calculateDistance } from '../utils/location.js';
+import { isValidTimezone, startOfShopDate } from '../utils/dates.js';
+import { pickTranslation } from '../utils/locale.js';
+import { withConvertedPrices, getBudgetPrices, convertBudget } from '../utils/currency.js';
+import { buildShopSearchUrl, buildShopDetailsUrl, buildAutocompleteUrl, buildCuisinesUrl, buildAvailabilityUrl, buildReservationUrl } from '../utils/url-builder.js';
+import dayjs from 'dayjs';
+import timezone from 'dayjs/plugin/timezone.js';
+import utc from 'dayjs/plugin/utc.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export { TableCheckError };
+
+const SHOP_NOT_FOUND_HINT = 'Call search_restaurants to find valid shop IDs';
 
 /**
- * Custom error class for TableCheck API errors
+ * Handles API errors and throws a TableCheckError with a message and hint the
+ * caller can act on
+ * @param error Error thrown while calling the API or reading its response
+ * @param notFoundMessage Message for a 404, when it means the restaurant does not exist
  */
-export class TableCheckError extends Error {
-  constructor(
-    message: string,
-    public statusCode?: number,
-    public response?: any
-  ) {
-    super(message);
-    this.name = 'TableCheckError';
+const handleApiError = (error: unknown, notFoundMessage?: string): never => {
+  if (!(error instanceof TableCheckError)) {
+    // Anything else broke while reading the response, e.g. a missing field
+    throw new TableCheckError(
+      `Unexpected response from the TableCheck API: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'invalid_response'
+    );
+  }
+  if (error.statusCode === 404 && notFoundMessage) {
+    throw new TableCheckError(notFoundMessage, 'not_found', { statusCode: 404, hint: SHOP_NOT_FOUND_HINT });
   }
+  if (error.statusCode === 429) {
+    const retryHint = error.retryAfterSeconds !== undefined ? `, retry after ${error.retryAfterSeconds}s` : '';
+    throw new TableCheckError(`Rate limit exceeded${retryHint}`, 'rate_limited', { statusCode: 429, retryAfterSeconds: error.retryAfterSeconds });
+  }
+  if (error.statusCode === 400 || error.statusCode === 422) {
+    throw new TableCheckError('TableCheck rejected the request parameters', 'validation_error', {
+      statusCode: error.statusCode,
+      hint: 'Check the arguments; call list_cuisines and list_tags for valid cuisine and tag IDs',
+    });
+  }
+  throw error;
+};
+
+/**
+ * Whether a search filters, merges or orders results in a way the API cannot,
+ * so API pages would come back short or overfull, with a wrong record_count,
+ * or ranked on their own; such searches are paged locally. Text queries merge
+ * name matches into the cuisine search, so they are always paged locally.
+ * @param params Search parameters
+ */
+const needsLocalPagination = (params: SearchParams): boolean => {
+  return !!params.query ||
+    (params.exclude_tags || []).length > 0 ||
+    filtersBudgetLocally(params) ||
+    params.sort_by === 'relevance';
+};
+
+/**
+ * Whether the budget is checked on the results rather than by the API: the API
+ * filters one meal's budget, in each shop's own currency, so budgets for any
+ * meal and budgets in another currency when the universe mixes currencies are
+ * checked on converted prices here
+ * @param params Search parameters
+ */
+const filtersBudgetLocally = (params: SearchParams): boolean => {
+  return !!(params.budget_min || params.budget_max) &&
+    (params.meal_period === 'any' || (!!params.currency && !CONFIG.SHOP_UNIVERSE_CURRENCY));
+};
+
+/**
+ * How a cursor continues a search: from the API's search_after position, or
+ * from an offset into a locally paged result list
+ */
+type CursorKind = 'search_after' | 'offset';
+
+interface SearchCursor {
+  kind: CursorKind;
+  position: string | number;
+  // Hash of the search arguments, so a cursor only continues the search it came from
+  search: string;
 }
 
+const isSearchCursor = (value: unknown): value is SearchCursor => {
+  if (typeof value !== 'object' || value === null || !('kind' in value) || !('position' in value) ||
+      !('search' in value) || typeof value.search !== 'string') {
+    return false;
+  }
+  return value.kind === 'offset'
+    ? Number.isInteger(value.position) && (value.position as number) >= 0
+    : value.kind === 'search_after' && typeof value.position === 'string' && value.position !== '';
+};
+
+/**
+ * Hashes the search arguments a cursor belongs to; the page size may change
+ * between pages
+ */
+const fingerprintSearch = (params: SearchParams): string => {
+  const entries = Object.entries(params)
+    .filter(([key, value]) => key !== 'cursor' && key !== 'page_size' && value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha256').update(JSON.stringify(entries)).digest('base64url').slice(0, 16);
+};
+
 /**
- * Handles API errors and throws appropriate TableCheckError
+ * Encodes the position of the next page as an opaque cursor
+ * @param kind How the position continues the search
+ * @param position API search_after value or offset
+ * @param params Search parameters the page was fetched with
  */
-const handleApiError = (error: any): never => {
-  if (error.response?.status === 404) {
-    throw new TableCheckError('Restaurant not found', 404);
+const encodeCursor = (kind: CursorKind, position: string | number, params: SearchParams): string => {
+  const cursor: SearchCursor = { kind, position, search: fingerprintSearch(params) };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+/**
+ * Reads the position from a cursor, checking it was issued for this search
+ * and the same kind of paging
+ * @param cursor Cursor from the previous page, if any
+ * @param kind How this search is paged
+ * @param params Search parameters
+ * @returns Position to continue from, or undefined for the first page
+ */
+function decodeCursor(cursor: string | undefined, kind: 'offset', params: SearchParams): number | undefined;
+function decodeCursor(cursor: string | undefined, kind: 'search_after', params: SearchParams): string | undefined;
+function decodeCursor(cursor: string | undefined, kind: CursorKind, params: SearchParams): string | number | undefined {
+  if (!cursor) {
+    return undefined;
   }
-  if (error.response?.status === 429) {
-    throw new TableCheckError('Rate limit exceeded', 429);
+  const hint = 'Pass the next_cursor from the previous page of the same search, with the same arguments, or leave cursor out to start over';
+
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (error) {
+    // Reported below
   }
-  if (error.response?.status === 400) {
-    throw new TableCheckError('Invalid request parameters', 400);
+  if (!isSearchCursor(decoded)) {
+    throw validationError('Invalid cursor', hint);
   }
-  throw new TableCheckError('API request failed', error.response?.status || 500);
-};
+  if (decoded.kind !== kind || decoded.search !== fingerprintSearch(params)) {
+    throw validationError('This cursor belongs to a different search', hint);
+  }
+  return decoded.position;
+}
 
 /**
  * TableCheck API service for restaurant search and reservations
  */
 export class TableCheckService {
-  private baseUrl = CONFIG.API_BASE_URL;
+  constructor(
+    private cache: ResponseCache = getSharedResponseCache(),
+    private httpClient: HttpClient = getSharedHttpClient(),
+    private exchangeRates: ExchangeRateProvider = getSharedExchangeRateProvider()
+  ) {}
+
+  /**
+   * Sends a request to the TableCheck API, serving it from the response cache when possible
+   * @param endpoint Endpoint name used for cache TTLs and counters
+   * @param url Request URL
+   * @param parse Checks the response, dropping malformed records
+   * @param body JSON body; the request is a POST when provided
+   * @returns Checked response
+   */
+  private async request<T>(endpoint: string, url: string, parse: ResponseParser<T>, body?: unknown): Promise<T> {
+    return this.cache.getOrLoad(endpoint, buildCacheKey(url, body), async () => {
+      logger.debug('TableCheck API request', { endpoint, url });
+      const endTimer = apiRequestDuration.startTimer({ endpoint });
+
+      try {
+        const data = await this.httpClient.requestJson<unknown>(url, {
+          method: body === undefined ? 'GET' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+        const { value, dropped } = parse(data);
+        if (dropped.length > 0) {
+          apiDroppedRecordsTotal.inc({ endpoint }, dropped.length);
+          logger.warn('Dropped malformed records from TableCheck API response', { endpoint, url, count: dropped.length, records: dropped.slice(0, 10) });
+        }
+        return value;
+      } catch (error) {
+        const apiError = toTableCheckError(error);
+        apiErrorsTotal.inc({ endpoint, code: apiError.code, status_code: apiError.statusCode ? String(apiError.statusCode) : 'none' });
+        logger.warn('TableCheck API request failed', { endpoint, url, error });
+        throw error;
+      } finally {
+        endTimer();
+      }
+    });
+  }
+
+  /**
+   * Gets response cache hit/miss counters per endpoint
+   */
+  getCacheStats(): Record<string, CacheStats> {
+    return this.cache.getStats();
+  }
 
   /**
    * Searches for restaurants using either text search or parameter-based search
-   * @param params Search parameters
-   * @returns Array of restaurant results
+   * @param params Search parameters (pass `cursor` to fetch the next page)
+   * @returns One page of restaurant results with the cursor for the next page
    */
-  async searchRestaurants(params: SearchParams): Promise<RestaurantResult[]> {
+  async searchRestaurants(params: SearchParams): Promise<RestaurantSearchPage> {
     try {
-      if (params.query) {
-        const cuisines = await this.searchCuisines(params.query, params.locale);
-        params.cuisines = cuisines;
-        const paramSearch = await this.parameterSearch(params);
-        const textSearch = await this.textSearch(params);
-        return [...textSearch, ...paramSearch];
-      } else {
-        return await this.parameterSearch(params);
+      // Checked first so an unsupported currency fails before searching
+      const currency = params.currency;
+      const rates = currency ? await this.getExchangeRates(currency) : undefined;
+      const convert = (results: RestaurantResult[]) => currency && rates
+        ? results.map(restaurant => withConvertedPrices(restaurant, currency, rates))
+        : results;
+      // The API compares budgets with prices in each shop's own currency, so a
+      // budget in another currency is only sent when the universe uses one currency
+      const apiParams = !rates ? params
+        : CONFIG.SHOP_UNIVERSE_CURRENCY ? convertBudget(params, CONFIG.SHOP_UNIVERSE_CURRENCY, rates)
+        : { ...params, budget_min: undefined, budget_max: undefined };
+
+      if (needsLocalPagination(params)) {
+        return await this.searchAndPaginate(params, apiParams, convert);
       }
+
+      const page = await this.parameterSearch({ ...apiParams, cursor: decodeCursor(params.cursor, 'search_after', params) });
+
+      return {
+        ...page,
+        restaurants: convert(page.restaurants),
+        next_cursor: page.next_cursor ? encodeCursor('search_after', page.next_cursor, params) : undefined,
+      };
     } catch (error) {
-      console.error('Search error:', error);
+      logger.error('Restaurant search failed', { error });
       return handleApiError(error);
     }
   }
 
+  /**
+   * Runs a search the API cannot page for us, because its results are filtered
+   * or ranked by relevance here: fetches up to MAX_LOCALLY_PAGED_RESULTS
+   * matches, filters and ranks them all, then serves them in full pages, so
+   * record_count counts what is returned
+   * @param params Search parameters; `cursor` is an offset cursor from a previous page of this search
+   * @param apiParams Search parameters with the budget in the universe currency, or without one
+   * @param convert Converts prices to the search currency
+   * @returns One page of restaurant results with the cursor for the next page
+   */
+  private async searchAndPaginate(
+    params: SearchParams,
+    apiParams: SearchParams,
+    convert: (results: RestaurantResult[]) => RestaurantResult[]
+  ): Promise<RestaurantSearchPage> {
+    const offset = decodeCursor(params.cursor, 'offset', params) || 0;
+    const first = { ...apiParams, cursor: undefined };
+    const all = params.query
+      ? await this.querySearch(params.query, first)
+      : await this.fetchAllPages(first);
+
+    const filtered = this.filterByBudget(convert(all.restaurants), params);
+    const restaurants = params.sort_by === 'relevance' ? rankByRelevance(filtered, params) : filtered;
+    const end = offset + (params.page_size || CONFIG.DEFAULT_PER_PAGE);
+
+    return {
+      restaurants: restaurants.slice(offset, end),
+      record_count: restaurants.length,
+      next_cursor: end < restaurants.length ? encodeCursor('offset', end, params) : undefined,
+    };
+  }
+
+  /**
+   * Fetches every page of a shop search, up to MAX_LOCALLY_PAGED_RESULTS matches
+   * @param params Search parameters
+   * @returns All fetched restaurant results as a single page
+   */
+  private async fetchAllPages(params: SearchParams): Promise<RestaurantSearchPage> {
+    const restaurants: RestaurantResult[] = [];
+    let fetched = 0;
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.parameterSearch({ ...params, page_size: CONFIG.MAX_PER_PAGE, cursor });
+      restaurants.push(...page.restaurants);
+      fetched += CONFIG.MAX_PER_PAGE;
+      cursor = page.next_cursor;
+    } while (cursor && fetched < CONFIG.MAX_LOCALLY_PAGED_RESULTS);
+
+    if (cursor) {
+      logger.debug('Search has more matches than are paged locally', { limit: CONFIG.MAX_LOCALLY_PAGED_RESULTS });
+    }
+    return { restaurants, record_count: restaurants.length };
+  }
+
+  /**
+   * Searches by text query, matching restaurant names and the cuisines the
+   * query resolves to, and merges both into one list without duplicates
+   * @param query Query text
+   * @param params Search parameters
+   * @returns Every match, up to MAX_LOCALLY_PAGED_RESULTS from the cuisine search, for paging locally
+   */
+  private async querySearch(query: string, params: SearchParams): Promise<RestaurantSearchPage> {
+    const cuisines = await this.searchCuisines(query, params.locale);
+    const nameMatches = this.filterByTags(await this.textSearch(params), params);
+
+    // A query that names no cuisine only matches by name
+    const cuisineSearch: RestaurantSearchPage = cuisines.length > 0
+      ? await this.fetchAllPages({ ...params, cuisines })
+      : { restaurants: [], record_count: 0 };
+
+    const found = new Set(cuisineSearch.restaurants.map(restaurant => restaurant.slug));
+    const enriched = await mapWithConcurrency(nameMatches, CONFIG.MAX_CONCURRENT_REQUESTS, async (restaurant: RestaurantResult) =>
+      found.has(restaurant.slug) ? restaurant : this.enrichTextMatch(restaurant, params)
+    );
+    const restaurants = mergeSearchResults(enriched, cuisineSearch.restaurants, params);
+
+    return { restaurants, record_count: restaurants.length };
+  }
+
+  /**
+   * Replaces an autocomplete match with the full shop record, which adds
+   * availability, the preview image and the remaining fields autocomplete lacks
+   * @param restaurant Restaurant result from autocomplete
+   * @param params Search parameters used for the name locale, dates and reservation link
+   * @returns Full restaurant result, or the autocomplete one if the lookup fails
+   */
+  private async enrichTextMatch(restaurant: RestaurantResult, params: SearchParams): Promise<RestaurantResult> {
+    try {
+      const shop = await this.fetchShop(restaurant.slug);
+      if (!shop) {
+        return restaurant;
+      }
+
+      // The lookup returns the default availability window, not the requested dates
+      const result = this.parseShop(shop, params);
+      return {
+        ...result,
+        available_dates: result.available_dates.filter(date =>
+          (!params.date_min || date >= params.date_min) && (!params.date_max || date <= params.date_max)
+        ),
+      };
+    } catch (error) {
+      logger.warn('Could not load full details for a text match', { slug: restaurant.slug, error });
+      return restaurant;
+    }
+  }
+
   /**
    * Performs text-based search using the autocomplete endpoint
    * @param params Search parameters with query text
@@ -67,45 +367,82 @@ export class TableCheckService {
    */
   private async textSearch(params: SearchParams): Promise<RestaurantResult[]> {
     const url = buildAutocompleteUrl(params);
-    console.error('Autocomplete URL:', url);
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new TableCheckError(`HTTP ${response.status}: ${response.statusText}`, response.status);
-    }
 
-    const data = await response.json() as AutocompleteResponse;
+    const data = await this.request('autocomplete', url, checkAutocompleteResponse);
     return this.parseAutocompleteResponse(data, params);
   }
 
   /**
    * Performs parameter-based search using the shop_search endpoint
    * @param params Search parameters
-   * @returns Array of restaurant results
+   * @returns One page of restaurant results
    */
-  private async parameterSearch(params: SearchParams): Promise<RestaurantResult[]> {
+  private async parameterSearch(params: SearchParams): Promise<RestaurantSearchPage> {
     const url = buildShopSearchUrl(params);
-    console.error('Shop search URL:', url);
 
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+    const data = await this.request('shop_search', url, checkShopSearchResponse);
+    const restaurants = this.filterByTags(this.parseShopSearchResponse(data, params), params);
+    const meta = data.meta;
+
+    return {
+      restaurants,
+      record_count: meta ? meta.record_count : restaurants.length,
+      next_cursor: meta && !meta.last_page && meta.search_after ? meta.search_after : undefined,
+    };
+  }
+
+  /**
+   * Keeps only restaurants carrying every requested tag and none of the excluded ones
+   * @param results Restaurant results
+   * @param params Search parameters with tag filters
+   * @returns Filtered restaurant results
+   */
+  private filterByTags(results: RestaurantResult[], params: SearchParams): RestaurantResult[] {
+    const include = params.tags || [];
+    const exclude = params.exclude_tags || [];
+
+    return results.filter((restaurant: RestaurantResult) => {
+      return include.every(tag => restaurant.tags.includes(tag)) &&
+        !exclude.some(tag => restaurant.tags.includes(tag));
     });
+  }
 
-    if (!response.ok) {
-      throw new TableCheckError(`HTTP ${response.status}: ${response.statusText}`, response.status);
+  /**
+   * Keeps restaurants whose average price fits a budget the API could not
+   * filter (see filtersBudgetLocally)
+   * @param results Restaurant results, with converted prices for the search currency
+   * @param params Search parameters with the budget, meal period and currency
+   * @returns Filtered restaurant results; restaurants without known prices are kept
+   */
+  private filterByBudget(results: RestaurantResult[], params: SearchParams): RestaurantResult[] {
+    if (!filtersBudgetLocally(params)) {
+      return results;
     }
 
-    const data = await response.json() as ShopSearchResponse;
-    return this.parseShopSearchResponse(data, params);
+    const fits = (price: number) =>
+      (!params.budget_min || price >= params.budget_min) &&
+      (!params.budget_max || price <= params.budget_max);
+
+    return results.filter((restaurant: RestaurantResult) => {
+      const prices = getBudgetPrices(restaurant, params);
+      return prices.length === 0 || prices.some(({ price }) => fits(price));
+    });
+  }
+
+  /**
+   * Gets exchange rates for converting prices to a currency
+   * @param currency ISO 4217 currency code
+   * @returns Exchange rates that include the currency
+   */
+  private async getExchangeRates(currency: string): Promise<ExchangeRates> {
+    const rates = await this.exchangeRates.getRates();
+    if (rates.rates[currency] === undefined) {
+      throw validationError(
+        `Unsupported currency: ${currency}`,
+        `Use one of: ${Object.keys(rates.rates).sort().join(', ')}`
+      );
+    }
+    return rates;
   }
 
   /**
@@ -117,37 +454,36 @@ export class TableCheckService {
   private parseAutocompleteResponse(response: AutocompleteResponse, params: SearchParams): RestaurantResult[] {
     const results: RestaurantResult[] = [];
 
-    if (response.shops && response.shops.length > 0) {
-      response.shops.forEach((shop: any) => {
-        const slug = shop.payload ? shop.payload.shop_slug : null
-        const result: RestaurantResult = {
-          id: slug,
-          name: shop.text || 'Unknown Restaurant',
-          slug: slug,
-          cuisine: shop.cuisines || [],
-          location: {
-            lat: shop.geocode ? shop.geocode.lat : null,
-            lng: shop.geocode ? shop.geocode.lon : null,
-          },
+    response.shops.forEach(shop => {
+      const slug = shop.payload.shop_slug;
+      const result: RestaurantResult = {
+        id: slug,
+        name: shop.text,
+        slug: slug,
+        cuisine: shop.cuisines,
+        location: {
+          lat: shop.geocode ? shop.geocode.lat : null,
+          lng: shop.geocode ? shop.geocode.lon : null,
+        },
+        currency: shop.currency || 'JPY',
+        price_avg: shop.budget_avg,
+        lunch_price_range: {
+          min: shop.budget_lunch_min,
+          max: shop.budget_lunch_max,
           currency: shop.currency || 'JPY',
-          price_avg: shop.budget_avg,
-          lunch_price_range: {
-            min: shop.budget_lunch_min,
-            max: shop.budget_lunch_max,
-            currency: shop.currency || 'JPY',
-          },
-          dinner_price_range: {
-            min: shop.budget_dinner_min,
-            max: shop.budget_dinner_max,
-            currency: shop.currency || 'JPY',
-          },
-          available_dates: [],
-          image_url: "",
-          reservation_url: buildReservationUrl(slug, params, params.locale),
-        };
-        results.push(result);
-      });
-    }
+        },
+        dinner_price_range: {
+          min: shop.budget_dinner_min,
+          max: shop.budget_dinner_max,
+          currency: shop.currency || 'JPY',
+        },
+        available_dates: [],
+        tags: shop.tags,
+        image_url: undefined,
+        reservation_url: buildReservationUrl(slug, params, params.locale),
+      };
+      results.push(result);
+    });
 
     return results;
   }
@@ -159,40 +495,117 @@ export class TableCheckService {
    * @returns Array of restaurant results
    */
   private parseShopSearchResponse(response: ShopSearchResponse, params: SearchParams): RestaurantResult[] {
-    const results: RestaurantResult[] = [];
+    return response.shops.map(shop => this.parseShop(shop, params));
+  }
 
-    if (response.shops && response.shops.length > 0) {
-      response.shops.forEach((shop: any) => {
-        const result: RestaurantResult = {
-          id: shop.id || shop.slug,
-          name: shop.name[0] || 'Unknown Restaurant',
-          slug: shop.slug || shop.id,
-          cuisine: shop.cuisines || [],
-          location: {
-            lat: shop.geocode ? shop.geocode.lat : null,
-            lng: shop.geocode ? shop.geocode.lon : null,
-          },
-          price_avg: shop.budget_avg,
-          currency: shop.currency || 'JPY',
-          lunch_price_range: {
-            min: shop.budget_lunch_min,
-            max: shop.budget_lunch_min,
-            currency: shop.currency || 'JPY',
-          },
-          dinner_price_range: {
-            min: shop.budget_dinner_min,
-            max: shop.budget_dinner_max,
-            currency: shop.currency || 'JPY',
-          },
-          available_dates: shop.availability,
-          image_url: shop.search_image,
-          reservation_url: buildReservationUrl(shop.slug || shop.id, params, params.locale),
-        };
-        results.push(result);
-      });
+  /**
+   * Parses a single shop from a shop search response into a restaurant result
+   * @param shop Shop from the shop search API
+   * @param params Search parameters used for the name locale and reservation link
+   * @returns Restaurant result
+   */
+  private parseShop(shop: ApiShop, params: Partial<SearchParams>): RestaurantResult {
+    return {
+      id: shop.id || shop.slug,
+      name: pickTranslation(shop.name_translations, params.locale || CONFIG.DEFAULT_LOCALE) || shop.name[0] || 'Unknown Restaurant',
+      kana_name: shop.kana_name,
+      slug: shop.slug,
+      cuisine: shop.cuisines,
+      location: {
+        lat: shop.geocode ? shop.geocode.lat : null,
+        lng: shop.geocode ? shop.geocode.lon : null,
+      },
+      price_avg: shop.budget_avg,
+      lunch_price_avg: shop.budget_lunch_avg,
+      dinner_price_avg: shop.budget_dinner_avg,
+      currency: shop.currency || 'JPY',
+      lunch_price_range: {
+        min: shop.budget_lunch_min,
+        max: shop.budget_lunch_max,
+        currency: shop.currency || 'JPY',
+      },
+      dinner_price_range: {
+        min: shop.budget_dinner_min,
+        max: shop.budget_dinner_max,
+        currency: shop.currency || 'JPY',
+      },
+      available_dates: shop.availability,
+      tags: shop.tags,
+      image_url: shop.search_image,
+      reservation_url: buildReservationUrl(shop.slug, params, params.locale),
+    };
+  }
+
+  /**
+   * Gets the full profile of a restaurant
+   * @param shopId Restaurant slug or ID
+   * @param locale Language locale for names and descriptions
+   * @returns Restaurant details
+   */
+  async getRestaurantDetails(shopId: string, locale: string = CONFIG.DEFAULT_LOCALE): Promise<RestaurantDetails> {
+    try {
+      const shop = await this.fetchShop(shopId);
+      if (!shop) {
+        throw new TableCheckError('Restaurant not found', 'not_found', { hint: SHOP_NOT_FOUND_HINT });
+      }
+
+      return this.parseShopDetails(shop, locale);
+    } catch (error) {
+      logger.error('Restaurant details request failed', { error });
+      return handleApiError(error, 'Restaurant not found');
     }
+  }
 
-    return results;
+  /**
+   * Gets the time zone a restaurant's dates and opening hours are in
+   * @param shopId Restaurant slug or ID
+   * @returns The shop's time zone, or the default shop time zone when it has none
+   */
+  async getShopTimeZone(shopId: string): Promise<string> {
+    const shop = await this.fetchShop(shopId);
+    return shop?.time_zone && isValidTimezone(shop.time_zone) ? shop.time_zone : CONFIG.DEFAULT_SHOP_TIMEZONE;
+  }
+
+  /**
+   * Looks up a single shop by slug or ID
+   * @param shopId Restaurant slug or ID
+   * @returns The shop, or undefined when there is none with that slug or ID
+   */
+  private async fetchShop(shopId: string): Promise<ApiShop | undefined> {
+    const url = buildShopDetailsUrl(shopId);
+
+    const data = await this.request('shop_details', url, checkShopSearchResponse);
+    return data.shops.find(candidate =>
+      candidate.slug === shopId || candidate._id === shopId || candidate.id === shopId
+    );
+  }
+
+  /**
+   * Parses a shop into its full profile, keeping the fields search results leave out
+   * @param shop Shop from the shop search API
+   * @param locale Language locale
+   * @returns Restaurant details
+   */
+  private parseShopDetails(shop: ApiShop, locale: string): RestaurantDetails {
+    return {
+      ...this.parseShop(shop, { locale: locale as SearchParams['locale'] }),
+      internal_id: shop._id,
+      title: pickTranslation(shop.content_title_translations, locale),
+      tagline: pickTranslation(shop.tagline_translations, locale),
+      description: pickTranslation(shop.content_body_translations, locale),
+      images: shop.images.map(image => ({
+        url: image.original,
+        thumbnail_url: image.thumbnail,
+        caption: image.caption,
+      })),
+      area_name: pickTranslation(shop.location_name_translations, locale),
+      area_kana_name: shop.location_kana_name,
+      time_zone: shop.time_zone,
+      primary_locale: shop.locale,
+      service_modes: shop.service_modes,
+      smartpay: shop.is_smartpay,
+      booking_page_mode: shop.booking_page_mode,
+    };
   }
 
   /**
@@ -201,9 +614,19 @@ export class TableCheckService {
    * @returns Array of availability slots
    */
   async getAvailability(params: AvailabilityParams): Promise<AvailabilitySlot[]> {
+    const calendar = await this.getAvailabilityCalendar(params);
+    return calendar.slots;
+  }
+
+  /**
+   * Gets the availability calendar for a specific restaurant, with the shop's
+   * own time zone and closed dates
+   * @param params Availability parameters
+   * @returns Availability calendar
+   */
+  async getAvailabilityCalendar(params: AvailabilityParams): Promise<AvailabilityCalendar> {
     try {
       const url = buildAvailabilityUrl();
-      console.error('Availability URL:', url);
 
       const requestBody = {
         locale: params.locale || CONFIG.DEFAULT_LOCALE,
@@ -212,24 +635,134 @@ export class TableCheckService {
         num_people: params.num_people.toString(),
       };
 
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
+      const data = await this.request('availability_calendar', url, checkAvailabilityCalendarResponse, requestBody);
+      const calendar = data.availability_calendar;
+
+      return {
+        shop_id: params.shop_id,
+        time_zone: calendar.time_zone || CONFIG.DEFAULT_SHOP_TIMEZONE,
+        closed_dates: calendar.closed_dates,
+        slots: this.parseAvailabilityResponse(data, params.num_people),
+      };
+    } catch (error) {
+      logger.error('Availability request failed', { error });
+      return handleApiError(error, 'Restaurant not found');
+    }
+  }
 
-      if (!response.ok) {
-        throw new TableCheckError(`HTTP ${response.status}: ${response.statusText}`, response.status);
+  /**
+   * Gets availability for several restaurants concurrently. A failure for one
+   * restaurant is reported on its entry instead of failing the whole call.
+   * @param shopIds Restaurant IDs or slugs
+   * @param params Availability parameters shared by all restaurants; with a
+   * date, each restaurant is checked from midnight in its own time zone
+   * @param onProgress Called as each restaurant finishes
+   * @returns Availability per restaurant, in the order of shopIds
+   */
+  async getAvailabilityForShops(shopIds: string[], params: Omit<AvailabilityParams, 'shop_id'>, onProgress?: ProgressCallback): Promise<ShopAvailability[]> {
+    let completed = 0;
+
+    return mapWithConcurrency(shopIds, CONFIG.MAX_CONCURRENT_REQUESTS, async (shopId: string) => {
+      let result: ShopAvailability;
+      try {
+        const timeZone = params.date ? await this.getShopTimeZone(shopId) : undefined;
+        const startAt = params.date && timeZone ? startOfShopDate(params.date, timeZone).start_at : params.start_at;
+        const slots = await this.getAvailability({ ...params, shop_id: shopId, start_at: startAt });
+        result = { shop_id: shopId, time_zone: timeZone, slots };
+      } catch (error) {
+        const apiError = toTableCheckError(error);
+        result = {
+          shop_id: shopId,
+          slots: [],
+          error: apiError.message,
+          error_code: apiError.code,
+        };
       }
 
-      const data = await response.json() as any;
-      return this.parseAvailabilityResponse(data, params.num_people);
-    } catch (error) {
-      console.error('Availability error:', error);
-      return handleApiError(error);
+      completed++;
+      await onProgress?.(completed, shopIds.length, `Checked availability for ${shopId}`);
+      return result;
+    });
+  }
+
+  /**
+   * Finds restaurants with a confirmed open slot in a time window by chaining a
+   * search with per-restaurant availability checks. The date and window are
+   * read at each restaurant, in its own time zone.
+   * @param params Search criteria, time window and fan-out cap
+   * @param onProgress Called as each candidate's availability is checked
+   * @returns Matches ranked by closeness to the requested time, then distance
+   */
+  async findTable(params: FindTableParams, onProgress?: ProgressCallback): Promise<TableMatch[]> {
+    const page = await this.searchRestaurants({
+      ...params.search,
+      date_min: params.date,
+      date_max: params.date,
+      time: params.time || params.time_from,
+    });
+
+    // Prefer restaurants the search reports as available that day; text matches
+    // whose details could not be loaded carry no availability, so they are only
+    // checked if there is room left
+    const candidates = [
+      ...page.restaurants.filter(restaurant => restaurant.available_dates.includes(params.date)),
+      ...page.restaurants.filter(restaurant => restaurant.available_dates.length === 0),
+    ].slice(0, params.max_candidates);
+
+    if (candidates.length === 0) {
+      return [];
     }
+
+    const shops = await this.getAvailabilityForShops(candidates.map(restaurant => restaurant.slug), {
+      start_at: startOfShopDate(params.date, CONFIG.DEFAULT_SHOP_TIMEZONE).start_at,
+      date: params.date,
+      timezone: params.timezone,
+      num_people: params.search.num_people || 2,
+      locale: params.search.locale,
+    }, onProgress);
+
+    const matches: TableMatch[] = [];
+
+    shops.forEach((shop, index) => {
+      const timeZone = shop.time_zone || CONFIG.DEFAULT_SHOP_TIMEZONE;
+      const requested = dayjs.tz(`${params.date}T${params.time || params.time_from}`, timeZone);
+      const slots = shop.slots
+        .filter(slot => {
+          const local = dayjs(slot.time).tz(timeZone);
+          const localTime = local.format('HH:mm');
+          return slot.available &&
+            local.format('YYYY-MM-DD') === params.date &&
+            localTime >= params.time_from.padStart(5, '0') &&
+            localTime <= params.time_to.padStart(5, '0');
+        })
+        .map(slot => slot.time);
+
+      if (slots.length === 0) {
+        return;
+      }
+
+      const minutesFrom = (time: string) => Math.abs(dayjs(time).diff(requested, 'minute'));
+      const bestSlot = slots.reduce((best, time) => minutesFrom(time) < minutesFrom(best) ? time : best);
+      const restaurant = candidates[index];
+      const origin = params.search.location;
+      const { lat, lng } = restaurant.location;
+
+      matches.push({
+        restaurant,
+        time_zone: timeZone,
+        slots,
+        best_slot: bestSlot,
+        minutes_from_requested: minutesFrom(bestSlot),
+        distance_km: origin && lat !== null && lng !== null
+          ? calculateDistance(origin.lat, origin.lng, lat, lng)
+          : undefined,
+      });
+    });
+
+    return matches.sort((a, b) =>
+      a.minutes_from_requested - b.minutes_from_requested ||
+      (a.distance_km ?? Infinity) - (b.distance_km ?? Infinity)
+    );
   }
 
   /**
@@ -237,21 +770,19 @@ export class TableCheckService {
    * @param response Availability API response
    * @returns Array of availability slots
    */
-  private parseAvailabilityResponse(response: any, party_size: number): AvailabilitySlot[] {
+  private parseAvailabilityResponse(response: AvailabilityCalendarResponse, party_size: number): AvailabilitySlot[] {
     const slots: AvailabilitySlot[] = [];
 
-    if (response.availability_calendar && response.availability_calendar.data) {
-      Object.entries(response.availability_calendar.data).forEach(([date, times]) => {
-        Object.entries(times as Record<string, boolean>).forEach(([time, available]) => {
-          slots.push({
-            date: date,
-            time: time,
-            available: available,
-            party_size: party_size,
-          });
+    Object.entries(response.availability_calendar.data).forEach(([date, times]) => {
+      Object.entries(times).forEach(([time, available]) => {
+        slots.push({
+          date: date,
+          time: time,
+          available: available,
+          party_size: party_size,
         });
       });
-    }
+    });
 
     return slots;
   }
@@ -263,25 +794,12 @@ export class TableCheckService {
    */
   async getCuisines(locale: string = 'en'): Promise<Cuisine[]> {
     try {
-      const url = buildCuisinesUrl(locale);
-      console.error('Cuisines URL:', url);
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      const url = buildCuisinesUrl();
 
-
-      if (!response.ok) {
-        throw new TableCheckError(`HTTP ${response.status}: ${response.statusText}`, response.status);
-      }
-
-      const data = await response.json() as any;
+      const data = await this.request('cuisines', url, checkCuisinesResponse);
       return this.parseCuisinesResponse(data, locale);
     } catch (error) {
-      console.error('Cuisines error:', error);
+      logger.error('Cuisines request failed', { error });
       return handleApiError(error);
     }
   }
@@ -292,26 +810,15 @@ export class TableCheckService {
    * @param locale Language locale
    * @returns Array of cuisines
    */
-  private parseCuisinesResponse(response: any, locale: string): Cuisine[] {
-    const cuisines: Cuisine[] = [];
-
-    if (response && response["cuisines"] && Array.isArray(response["cuisines"])) {
-      response["cuisines"].forEach((cuisine: any) => {
-        const cuisine_for_locale = cuisine.text_translations.find((translation: any) => translation.locale === locale)
-        const cuisine_en = cuisine.text_translations.find((translation: any) => translation.locale === 'en')
-        const cuisine_ja = cuisine.text_translations.find((translation: any) => translation.locale === 'ja')
-
-        cuisines.push({
-          id: cuisine.field,
-          name: cuisine_for_locale.translation,
-          name_en: cuisine_en.translation,
-          name_ja: cuisine_ja.translation,
-          locale: locale,
-        });
-      });
-    }
-
-    return cuisines;
+  private parseCuisinesResponse(response: CuisinesResponse, locale: string): Cuisine[] {
+    // Missing translations fall back through the locale chain, then to the cuisine ID
+    return response.cuisines.map(cuisine => ({
+      id: cuisine.field,
+      name: pickTranslation(cuisine.text_translations, locale) || cuisine.field,
+      name_en: pickTranslation(cuisine.text_translations, 'en') || cuisine.field,
+      name_ja: pickTranslation(cuisine.text_translations, 'ja') || cuisine.field,
+      locale: locale,
+    }));
   }
 
   async searchCuisines(query: string, locale: string = 'en'): Promise<string[]> {
@@ -332,6 +839,21 @@ export class TableCheckService {
     });
   }
 
+  /**
+   * Gets list of shop tags that can be used to filter searches
+   * @param locale Language locale
+   * @returns Array of tags
+   */
+  getTags(locale: string = 'en'): Tag[] {
+    return SHOP_TAGS.map(tag => ({
+      id: tag.id,
+      name: pickTranslation(tag.translations, locale) || tag.id,
+      name_en: pickTranslation(tag.translations, 'en') || tag.id,
+      name_ja: pickTranslation(tag.translations, 'ja') || tag.id,
+      locale: locale,
+    }));
+  }
+
   /**
    * Generates a reservation link for a specific restaurant
    * @param shopId Restaurant slug or ID
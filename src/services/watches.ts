@@ -0,0 +1,389 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import dayjs from 'dayjs';
+import timezone from 'dayjs/plugin/timezone.js';
+import utc from 'dayjs/plugin/utc.js';
+import { CONFIG } from '../config/constants.js';
+import { AvailabilityWatch, CreateWatchParams, WatchStatus } from '../types/index.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { startOfShopDate } from '../utils/dates.js';
+import { logger, runWithLogContext } from '../utils/logger.js';
+import { Clock, Scheduler, systemClock, systemScheduler } from './clock.js';
+import { validationError } from './errors.js';
+import { TableCheckService } from './tablecheck.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * Storage backend for availability watches
+ */
+export interface WatchStore {
+  list(): Promise<AvailabilityWatch[]>;
+  get(id: string): Promise<AvailabilityWatch | undefined>;
+  save(watch: AvailabilityWatch): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * In-memory watch store, lost on restart
+ */
+export class MemoryWatchStore implements WatchStore {
+  private watches = new Map<string, AvailabilityWatch>();
+
+  async list(): Promise<AvailabilityWatch[]> {
+    return Array.from(this.watches.values()).map(watch => ({ ...watch }));
+  }
+
+  async get(id: string): Promise<AvailabilityWatch | undefined> {
+    const watch = this.watches.get(id);
+    return watch ? { ...watch } : undefined;
+  }
+
+  async save(watch: AvailabilityWatch): Promise<void> {
+    this.watches.set(watch.id, { ...watch });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.watches.delete(id);
+  }
+}
+
+/**
+ * Watch store persisted to a single JSON file. Writes go through a temporary
+ * file and are serialized so concurrent saves cannot interleave.
+ */
+export class FileWatchStore implements WatchStore {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async list(): Promise<AvailabilityWatch[]> {
+    await this.pending;
+    return Object.values(await this.read());
+  }
+
+  async get(id: string): Promise<AvailabilityWatch | undefined> {
+    await this.pending;
+    return (await this.read())[id];
+  }
+
+  async save(watch: AvailabilityWatch): Promise<void> {
+    await this.update(watches => {
+      watches[watch.id] = watch;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    let deleted = false;
+    await this.update(watches => {
+      deleted = id in watches;
+      delete watches[id];
+    });
+    return deleted;
+  }
+
+  private update(change: (watches: Record<string, AvailabilityWatch>) => void): Promise<void> {
+    const next = this.pending.then(async () => {
+      const watches = await this.read();
+      change(watches);
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const temporary = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(watches, null, 2));
+      await fs.rename(temporary, this.filePath);
+    });
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+
+  private async read(): Promise<Record<string, AvailabilityWatch>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Creates the configured watch store (file-backed by default, or in memory)
+ */
+export const createWatchStore = (): WatchStore => {
+  if (CONFIG.WATCH_STORE === 'memory') {
+    return new MemoryWatchStore();
+  }
+  return new FileWatchStore(CONFIG.WATCH_STORE_PATH);
+};
+
+/**
+ * Called when a watch finds a matching slot
+ */
+export type WatchListener = (watch: AvailabilityWatch) => void | Promise<void>;
+
+/**
+ * Builds the MCP resource URI for a watch
+ */
+export const watchResourceUri = (id: string): string => `tablecheck://watches/${id}`;
+
+/**
+ * Posts a matched watch to a webhook
+ * @param url Webhook URL
+ * @returns Listener that delivers matches to the webhook
+ */
+export const createWebhookListener = (url: string): WatchListener => async (watch: AvailabilityWatch) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ event: 'availability_watch.matched', resource_uri: watchResourceUri(watch.id), watch }),
+    signal: AbortSignal.timeout(CONFIG.HTTP_CLIENT.timeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook responded with HTTP ${response.status}`);
+  }
+};
+
+/**
+ * Keeps track of availability watches and checks them against the availability API
+ */
+export class WatchService {
+  private listeners = new Set<WatchListener>();
+
+  constructor(
+    private store: WatchStore,
+    private tableCheckService: TableCheckService,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Creates a watch for an open slot at a restaurant
+   * @param params Restaurant, date, party size and optional time window
+   * @param ownerId Authenticated caller creating the watch, which becomes its owner
+   * @returns The new watch
+   */
+  async create(params: CreateWatchParams, ownerId: string | undefined): Promise<AvailabilityWatch> {
+    const active = await this.list(ownerId, 'active');
+    if (active.length >= CONFIG.MAX_ACTIVE_WATCHES) {
+      throw validationError(`Too many active watches (maximum ${CONFIG.MAX_ACTIVE_WATCHES})`, 'Delete watches you no longer need with delete_availability_watch');
+    }
+
+    const watch: AvailabilityWatch = {
+      ...params,
+      ...(ownerId ? { owner_id: ownerId } : {}),
+      id: randomUUID(),
+      status: 'active',
+      created_at: new Date(this.clock.now()).toISOString(),
+      checks: 0,
+      matched_slots: [],
+    };
+
+    await this.store.save(watch);
+    return watch;
+  }
+
+  /**
+   * Lists an owner's watches, newest first
+   * @param ownerId Authenticated caller; without one, only watches created without authentication are listed
+   * @param status Only return watches with this status
+   */
+  async list(ownerId: string | undefined, status?: WatchStatus): Promise<AvailabilityWatch[]> {
+    const watches = await this.store.list();
+    return watches
+      .filter(watch => watch.owner_id === ownerId && (!status || watch.status === status))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  /**
+   * Gets a watch, if it belongs to the caller
+   * @param id Watch ID
+   * @param ownerId Authenticated caller
+   */
+  async get(id: string, ownerId: string | undefined): Promise<AvailabilityWatch | undefined> {
+    const watch = await this.store.get(id);
+    return watch && watch.owner_id === ownerId ? watch : undefined;
+  }
+
+  /**
+   * Deletes a watch, if it belongs to the caller
+   * @param id Watch ID
+   * @param ownerId Authenticated caller
+   * @returns False when the caller has no watch with this ID
+   */
+  async delete(id: string, ownerId: string | undefined): Promise<boolean> {
+    return await this.get(id, ownerId) ? this.store.delete(id) : false;
+  }
+
+  /**
+   * Registers a listener for matched watches
+   * @returns Function that removes the listener
+   */
+  onMatch(listener: WatchListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Checks every client's active watches once, expiring watches whose date has passed
+   * @returns Watches that matched during this check
+   */
+  async checkAll(): Promise<AvailabilityWatch[]> {
+    const active = (await this.store.list()).filter(watch => watch.status === 'active');
+    const checked = await mapWithConcurrency(active, CONFIG.MAX_CONCURRENT_REQUESTS, watch => this.check(watch));
+    const matched = checked.filter(watch => watch.status === 'matched');
+
+    for (const watch of matched) {
+      await this.notify(watch);
+    }
+
+    return matched;
+  }
+
+  /**
+   * Checks a single watch and saves the result
+   */
+  private async check(watch: AvailabilityWatch): Promise<AvailabilityWatch> {
+    const now = dayjs(this.clock.now());
+    const timeZone = watch.time_zone || CONFIG.DEFAULT_SHOP_TIMEZONE;
+    const updated: AvailabilityWatch = { ...watch, last_checked_at: now.toISOString() };
+
+    if (now.tz(timeZone).format('YYYY-MM-DD') > watch.date) {
+      updated.status = 'expired';
+      await this.store.save(updated);
+      return updated;
+    }
+
+    try {
+      const calendar = await this.tableCheckService.getAvailabilityCalendar({
+        shop_id: watch.shop_id,
+        start_at: startOfShopDate(watch.date, timeZone).start_at,
+        timezone: timeZone,
+        num_people: watch.num_people,
+      });
+
+      const slots = calendar.slots
+        .filter(slot => {
+          const local = dayjs(slot.time).tz(calendar.time_zone).format('HH:mm');
+          return slot.available &&
+            slot.date === watch.date &&
+            dayjs(slot.time).valueOf() > now.valueOf() &&
+            (!watch.time_from || local >= watch.time_from.padStart(5, '0')) &&
+            (!watch.time_to || local <= watch.time_to.padStart(5, '0'));
+        })
+        .map(slot => slot.time)
+        .sort();
+
+      updated.checks = watch.checks + 1;
+      updated.time_zone = calendar.time_zone;
+      updated.last_error = undefined;
+
+      if (slots.length > 0) {
+        updated.status = 'matched';
+        updated.matched_at = now.toISOString();
+        updated.matched_slots = slots;
+      }
+    } catch (error) {
+      updated.checks = watch.checks + 1;
+      updated.last_error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    // The watch may have been deleted while it was being checked
+    if (await this.store.get(watch.id)) {
+      await this.store.save(updated);
+    }
+    return updated;
+  }
+
+  private async notify(watch: AvailabilityWatch): Promise<void> {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        await listener(watch);
+      } catch (error) {
+        logger.error('Watch notification failed', { watch_id: watch.id, error });
+      }
+    }
+  }
+}
+
+/**
+ * Creates a watch service with the configured store, delivering matches to the
+ * configured webhook if there is one
+ * @param tableCheckService TableCheck service used to check availability
+ */
+export const createWatchService = (tableCheckService: TableCheckService): WatchService => {
+  const watchService = new WatchService(createWatchStore(), tableCheckService);
+
+  if (CONFIG.WATCH_WEBHOOK_URL) {
+    watchService.onMatch(createWebhookListener(CONFIG.WATCH_WEBHOOK_URL));
+  }
+
+  return watchService;
+};
+
+/**
+ * Periodically checks availability watches in the background
+ */
+export class WatchPoller {
+  private cancel?: () => void;
+  private running?: Promise<void>;
+
+  constructor(
+    private watchService: WatchService,
+    private intervalMs: number = CONFIG.WATCH_POLL_INTERVAL_MS,
+    private scheduler: Scheduler = systemScheduler
+  ) {}
+
+  start(): void {
+    if (this.cancel) {
+      return;
+    }
+    this.cancel = this.scheduler.every(this.intervalMs, () => {
+      this.tick().catch(error => logger.error('Watch poller failed', { error }));
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.cancel?.();
+    this.cancel = undefined;
+    await this.running;
+  }
+
+  /**
+   * Runs one check of every active watch, skipping it if the previous check is still running
+   */
+  async tick(): Promise<void> {
+    if (this.running) {
+      return this.running;
+    }
+    // Each run gets its own correlation ID so its API calls can be traced
+    this.running = runWithLogContext({ request_id: randomUUID() }, () => this.watchService.checkAll())
+      .then(matched => {
+        if (matched.length > 0) {
+          logger.info('Availability watches matched', { count: matched.length });
+        }
+      })
+      .finally(() => {
+        this.running = undefined;
+      });
+    return this.running;
+  }
+}
+
+let sharedWatchPoller: WatchPoller | undefined;
+
+/**
+ * Starts the process's watch poller, or returns the one already running, so
+ * watches are never checked twice per interval
+ * @param watchService Watch service to poll; only used by the first call
+ */
+export const startWatchPoller = (watchService: WatchService): WatchPoller => {
+  if (!sharedWatchPoller) {
+    sharedWatchPoller = new WatchPoller(watchService);
+    sharedWatchPoller.start();
+  }
+  return sharedWatchPoller;
+};
@@ -1,3 +1,11 @@
+import { Locale } from '../config/locales.js';
+
+export type { Locale };
+
+// Meal the search is for; decides which budget is filtered and the time
+// assumed for availability
+export type MealPeriod = 'lunch' | 'dinner' | 'any';
+
 export interface SearchParams {
   query?: string;
   location?: {
@@ -5,50 +13,167 @@ export interface SearchParams {
     lng: number;
   };
   cuisines?: string[];
+  tags?: string[];
+  exclude_tags?: string[];
   date_min?: string;
   date_max?: string;
   num_people?: number;
   time?: string;
   budget_max?: number;
   budget_min?: number;
-  sort_by?: 'distance' | 'price';
+  // Budgets apply to dinner when omitted
+  meal_period?: MealPeriod;
+  // ISO 4217 code that budgets are in and prices are converted to
+  currency?: string;
+  // relevance is ranked locally, within each page
+  sort_by?: 'distance' | 'price' | 'relevance';
   sort_order?: 'asc' | 'desc';
   geo_distance?: string;
-  locale?: 'en' | 'jp';
+  locale?: Locale;
+  cursor?: string;
+  page_size?: number;
+}
+
+// How a restaurant matched a text query: by its name (autocomplete) or by a
+// cuisine the query resolved to (shop search)
+export type SearchMatch = 'name' | 'cuisine';
+
+// Factors that make up a search result's relevance score
+export type RelevanceFactor = 'text_match' | 'distance' | 'budget' | 'availability' | 'tags';
+
+export interface RelevanceComponent {
+  factor: RelevanceFactor;
+  // 0 to 1
+  score: number;
+  // Share of the total score; only factors the search asked about are weighted
+  weight: number;
+  // Why the factor scored as it did, e.g. "1.2 km away"
+  reason: string;
+}
+
+export interface RelevanceScore {
+  // Weighted sum of the components, 0 to 1
+  score: number;
+  components: RelevanceComponent[];
 }
 
 export interface RestaurantResult {
   id: string;
   name: string;
+  kana_name?: string;
   slug: string;
   cuisine: string[];
+  // Null when the API has no usable coordinates for the restaurant
   location: {
-    lat: number;
-    lng: number;
+    lat: number | null;
+    lng: number | null;
   };
   currency: string;
-  price_avg: number;
-  lunch_price_range: {
-    min?: number;
-    max?: number;
-    currency: string;
-  };
-  dinner_price_range: {
-    min?: number;
-    max?: number;
-    currency: string;
-  };
+  price_avg?: number;
+  lunch_price_avg?: number;
+  dinner_price_avg?: number;
+  lunch_price_range: PriceRange;
+  dinner_price_range: PriceRange;
   available_dates: string[];
+  tags: string[];
   image_url?: string;
   reservation_url: string;
+  // Set on results of a text query search
+  matched_by?: SearchMatch[];
+  // Set when sorting by relevance
+  relevance?: RelevanceScore;
+  // Set when the search asked for a currency other than the restaurant's
+  converted_prices?: ConvertedPrices;
+}
+
+export interface PriceRange {
+  min?: number;
+  max?: number;
+  currency: string;
+}
+
+/**
+ * A restaurant's prices converted to another currency
+ */
+export interface ConvertedPrices {
+  currency: string;
+  // Units of `currency` per unit of the restaurant's currency
+  rate: number;
+  price_avg?: number;
+  lunch_price_avg?: number;
+  dinner_price_avg?: number;
+  lunch_price_range: PriceRange;
+  dinner_price_range: PriceRange;
+}
+
+export interface RestaurantImage {
+  url: string;
+  thumbnail_url?: string;
+  caption?: string;
+}
+
+export interface RestaurantDetails extends RestaurantResult {
+  internal_id?: string;
+  title?: string;
+  tagline?: string;
+  description?: string;
+  images: RestaurantImage[];
+  area_name?: string;
+  area_kana_name?: string;
+  time_zone?: string;
+  primary_locale?: string;
+  service_modes: string[];
+  smartpay: boolean;
+  booking_page_mode?: string;
+}
+
+export interface RestaurantSearchPage {
+  restaurants: RestaurantResult[];
+  record_count: number;
+  next_cursor?: string;
+  // How date and time arguments given in words were read
+  interpreted?: DateTimeInterpretation[];
+}
+
+/**
+ * How a date or time argument given in words (e.g. "next Friday") was read
+ */
+export interface DateTimeInterpretation {
+  field: string;
+  input: string;
+  value: string;
 }
 
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
 export interface AvailabilityParams {
   shop_id: string;
   start_at: string;
+  // Date to start from at each restaurant, when several with different time zones are checked at once
+  date?: string;
   timezone: string;
   num_people: number;
-  locale?: 'en' | 'jp';
+  locale?: Locale;
+  time_from?: string;
+  time_to?: string;
+  days?: number;
+  weekdays?: Weekday[];
+  only_available?: boolean;
+  detail?: boolean;
+}
+
+export interface AvailabilityDaySummary {
+  date: string;
+  closed: boolean;
+  open_slots: number;
+  first_open?: string;
+  last_open?: string;
+}
+
+export interface AvailabilitySummary {
+  first_available?: string;
+  total_open_slots: number;
+  days: AvailabilityDaySummary[];
 }
 
 export interface AvailabilitySlot {
@@ -58,6 +183,87 @@ export interface AvailabilitySlot {
   party_size: number;
 }
 
+export interface AvailabilityCalendar {
+  shop_id: string;
+  time_zone: string;
+  closed_dates: string[];
+  slots: AvailabilitySlot[];
+}
+
+export type WatchStatus = 'active' | 'matched' | 'expired';
+
+export interface CreateWatchParams {
+  shop_id: string;
+  date: string;
+  num_people: number;
+  time_from?: string;
+  time_to?: string;
+  note?: string;
+}
+
+export interface AvailabilityWatch extends CreateWatchParams {
+  id: string;
+  // Authenticated caller that created the watch (see getOwnerId); only it can see or delete it
+  owner_id?: string;
+  status: WatchStatus;
+  created_at: string;
+  checks: number;
+  last_checked_at?: string;
+  last_error?: string;
+  matched_at?: string;
+  matched_slots: string[];
+  time_zone?: string;
+}
+
+export interface CompareAvailabilityParams {
+  shop_ids: string[];
+  start_at: string;
+  timezone: string;
+  num_people: number;
+  time_from?: string;
+  time_to?: string;
+  locale?: Locale;
+}
+
+export interface ShopAvailability {
+  shop_id: string;
+  // Time zone of the restaurant, when availability was checked for a date there
+  time_zone?: string;
+  slots: AvailabilitySlot[];
+  error?: string;
+  error_code?: ToolErrorCode;
+}
+
+// Reports how much of a long-running tool call is done, e.g. shops checked out of shops to check
+export type ProgressCallback = (progress: number, total: number, message?: string) => void | Promise<void>;
+
+// Per-call context passed from the MCP server to tool handlers
+export interface ToolContext {
+  // Authenticated caller that owns watches created in the call (remote server with auth enabled)
+  ownerId?: string;
+  onProgress?: ProgressCallback;
+}
+
+export interface FindTableParams {
+  search: SearchParams;
+  date: string;
+  time_from: string;
+  time_to: string;
+  time?: string;
+  timezone: string;
+  max_candidates: number;
+}
+
+export interface TableMatch {
+  restaurant: RestaurantResult;
+  // Time zone the date and time window were read in
+  time_zone: string;
+  slots: string[];
+  best_slot: string;
+  minutes_from_requested: number;
+  distance_km?: number;
+}
+
 export interface Cuisine {
   id: string;
   name: string;
@@ -66,19 +272,175 @@ export interface Cuisine {
   locale: string;
 }
 
+export interface Tag {
+  id: string;
+  name: string;
+  name_en: string;
+  name_ja: string;
+  locale: string;
+}
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  name: string;
+  source: string;
+}
+
+export interface Geocoder {
+  readonly name: string;
+  geocode(query: string): Promise<GeocodeResult | null>;
+  suggest?(query: string, limit: number): string[];
+}
+
+/**
+ * Exchange rates as units of each currency per unit of the base currency
+ */
+export interface ExchangeRates {
+  base: string;
+  rates: Record<string, number>;
+  // When the rates were published (ISO 8601)
+  updated_at?: string;
+}
+
+export interface ExchangeRateProvider {
+  readonly name: string;
+  getRates(): Promise<ExchangeRates>;
+  // Reloads the rates now instead of when they next expire
+  refresh?(): Promise<ExchangeRates>;
+}
+
+export type AuthMode = 'none' | 'api-key' | 'oauth';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// Machine-readable error categories returned to MCP clients with failed tool calls
+export type ToolErrorCode =
+  | 'validation_error'
+  | 'not_found'
+  | 'rate_limited'
+  | 'upstream_unavailable'
+  | 'timeout'
+  | 'invalid_response'
+  | 'internal_error';
+
+export interface ApiKeyConfig {
+  client_id: string;
+  key: string;
+  // Overrides RATE_LIMIT_PER_MINUTE for this client
+  rate_limit_per_minute?: number;
+}
+
 export interface ApiResponse<T> {
   data?: T;
   errors?: string[];
 }
 
+/*
+ * TableCheck API responses, as checked by services/response-schemas.ts.
+ * Optional fields are left out when the API sends something unusable, and
+ * amounts are converted to numbers.
+ */
+
+export interface ApiTranslation {
+  locale: string;
+  translation: string;
+}
+
+export interface ApiGeocode {
+  lat: number;
+  lon: number;
+}
+
+export interface ApiShopImage {
+  // Falls back to the thumbnail when the API sends no original
+  original: string;
+  thumbnail?: string;
+  caption?: string;
+}
+
+export interface ApiShop {
+  _id?: string;
+  id?: string;
+  // Falls back to id when the API sends no slug
+  slug: string;
+  name: string[];
+  name_translations: ApiTranslation[];
+  kana_name?: string;
+  cuisines: string[];
+  tags: string[];
+  geocode?: ApiGeocode;
+  currency?: string;
+  budget_avg?: number;
+  budget_lunch_min?: number;
+  budget_lunch_max?: number;
+  budget_lunch_avg?: number;
+  budget_dinner_min?: number;
+  budget_dinner_max?: number;
+  budget_dinner_avg?: number;
+  // Dates (YYYY-MM-DD) with open slots
+  availability: string[];
+  search_image?: string;
+  images: ApiShopImage[];
+  content_title_translations: ApiTranslation[];
+  tagline_translations: ApiTranslation[];
+  content_body_translations: ApiTranslation[];
+  location_name_translations: ApiTranslation[];
+  location_kana_name?: string;
+  time_zone?: string;
+  locale?: string;
+  service_modes: string[];
+  is_smartpay: boolean;
+  booking_page_mode?: string;
+}
+
 export interface ShopSearchResponse {
-  shops: any[];
-  total_count: number;
-  page: number;
-  per_page: number;
+  shops: ApiShop[];
+  meta?: {
+    record_count: number;
+    search_after: string | null;
+    last_page: boolean;
+  };
+}
+
+export interface ApiAutocompleteShop {
+  text: string;
+  payload: { shop_slug: string };
+  cuisines: string[];
+  tags: string[];
+  geocode?: ApiGeocode;
+  currency?: string;
+  budget_avg?: number;
+  budget_lunch_min?: number;
+  budget_lunch_max?: number;
+  budget_dinner_min?: number;
+  budget_dinner_max?: number;
+}
+
+export interface ApiAutocompleteCuisine {
+  text: string;
+  payload: { term: string };
 }
 
 export interface AutocompleteResponse {
-  cuisines?: any[];
-  shops?: any[];
-} 
\ No newline at end of file
+  cuisines: ApiAutocompleteCuisine[];
+  shops: ApiAutocompleteShop[];
+}
+
+export interface ApiCuisine {
+  field: string;
+  text_translations: ApiTranslation[];
+}
+
+export interface CuisinesResponse {
+  cuisines: ApiCuisine[];
+}
+
+export interface AvailabilityCalendarResponse {
+  availability_calendar: {
+    time_zone?: string;
+    closed_dates: string[];
+    // Date (YYYY-MM-DD) -> slot start time (ISO 8601, UTC) -> open
+    data: Record<string, Record<string, boolean>>;
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Maps over items with an async function, running at most `limit` calls at once
+ * @param items Items to process
+ * @param limit Maximum number of concurrent calls
+ * @param fn Async function applied to each item
+ * @returns Results in the same order as the items
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker());
+  await Promise.all(workers);
+
+  return results;
+};
@@ -0,0 +1,127 @@
+import { SearchParams, RestaurantResult, ExchangeRates, ConvertedPrices, PriceRange } from '../types/index.js';
+
+/**
+ * Number of decimal places used for amounts in a currency (0 for JPY, 2 for USD)
+ */
+const minorUnits = (currency: string): number => {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+};
+
+/**
+ * Gets the rate to convert from one currency to another
+ * @param from Currency to convert from
+ * @param to Currency to convert to
+ * @param rates Exchange rates
+ * @returns Units of `to` per unit of `from`, or undefined if either currency has no rate
+ */
+export const getConversionRate = (from: string, to: string, rates: ExchangeRates): number | undefined => {
+  if (from === to) {
+    return 1;
+  }
+  const fromRate = rates.rates[from];
+  const toRate = rates.rates[to];
+  return fromRate && toRate ? toRate / fromRate : undefined;
+};
+
+/**
+ * Converts an amount, rounded to the target currency's minor units
+ */
+const convert = (amount: number | undefined, rate: number, currency: string): number | undefined => {
+  if (amount === undefined) {
+    return undefined;
+  }
+  const factor = Math.pow(10, minorUnits(currency));
+  return Math.round(amount * rate * factor) / factor;
+};
+
+const convertRange = (range: PriceRange, rate: number, currency: string): PriceRange => ({
+  min: convert(range.min, rate, currency),
+  max: convert(range.max, rate, currency),
+  currency: currency,
+});
+
+/**
+ * Adds a restaurant's prices converted to the search currency
+ * @param restaurant Restaurant result
+ * @param currency Currency to convert to
+ * @param rates Exchange rates
+ * @returns Restaurant with converted_prices set, or unchanged when it already
+ * uses the currency or its currency has no rate
+ */
+export const withConvertedPrices = (restaurant: RestaurantResult, currency: string, rates: ExchangeRates): RestaurantResult => {
+  if (restaurant.currency === currency) {
+    return restaurant;
+  }
+  const rate = getConversionRate(restaurant.currency, currency, rates);
+  if (rate === undefined) {
+    return restaurant;
+  }
+
+  const converted: ConvertedPrices = {
+    currency: currency,
+    rate: rate,
+    price_avg: convert(restaurant.price_avg, rate, currency),
+    lunch_price_avg: convert(restaurant.lunch_price_avg, rate, currency),
+    dinner_price_avg: convert(restaurant.dinner_price_avg, rate, currency),
+    lunch_price_range: convertRange(restaurant.lunch_price_range, rate, currency),
+    dinner_price_range: convertRange(restaurant.dinner_price_range, rate, currency),
+  };
+  return { ...restaurant, converted_prices: converted };
+};
+
+/**
+ * Converts a search's budget from its currency to another, widened to whole
+ * units so rounding never drops a restaurant priced at the edge of the budget
+ * @param params Search parameters with the budget and its currency
+ * @param currency Currency to convert to
+ * @param rates Exchange rates
+ * @returns Search parameters with the budget in `currency`; the budget is left
+ * out when there is no rate to convert it
+ */
+export const convertBudget = (params: SearchParams, currency: string, rates: ExchangeRates): SearchParams => {
+  const rate = getConversionRate(params.currency || currency, currency, rates);
+  if (rate === undefined) {
+    return { ...params, budget_min: undefined, budget_max: undefined };
+  }
+  return {
+    ...params,
+    budget_min: params.budget_min ? Math.floor(params.budget_min * rate) : params.budget_min,
+    budget_max: params.budget_max ? Math.ceil(params.budget_max * rate) : params.budget_max,
+  };
+};
+
+/**
+ * Gets the average prices that budgets are compared with: the searched meal's
+ * average (lunch and dinner for any meal), or the overall average when those
+ * are unknown, in the search currency when one was asked for
+ * @param restaurant Restaurant result, with converted_prices set when needed
+ * @param params Search parameters with the meal period and currency
+ * @returns Known prices with labels; empty when there are none or they cannot be converted
+ */
+export const getBudgetPrices = (restaurant: RestaurantResult, params: SearchParams): { label: string, price: number, currency: string }[] => {
+  const prices = !params.currency || params.currency === restaurant.currency ? restaurant : restaurant.converted_prices;
+  if (!prices) {
+    return [];
+  }
+  const currency = params.currency || restaurant.currency;
+
+  const candidates: { label: string, price?: number }[] = [];
+  if (params.meal_period === 'lunch' || params.meal_period === 'any') {
+    candidates.push({ label: 'Lunch average', price: prices.lunch_price_avg });
+  }
+  if (params.meal_period !== 'lunch') {
+    candidates.push({ label: 'Dinner average', price: prices.dinner_price_avg });
+  }
+
+  const known = candidates
+    .filter((candidate): candidate is { label: string, price: number } => !!candidate.price)
+    .map(candidate => ({ ...candidate, currency }));
+  if (known.length === 0 && prices.price_avg) {
+    known.push({ label: 'Average price', price: prices.price_avg, currency });
+  }
+  return known;
+};
@@ -0,0 +1,204 @@
+import dayjs, { Dayjs } from 'dayjs';
+import timezone from 'dayjs/plugin/timezone.js';
+import utc from 'dayjs/plugin/utc.js';
+import 'dayjs/locale/ar.js';
+import 'dayjs/locale/de.js';
+import 'dayjs/locale/es.js';
+import 'dayjs/locale/fr.js';
+import 'dayjs/locale/he.js';
+import 'dayjs/locale/hi.js';
+import 'dayjs/locale/id.js';
+import 'dayjs/locale/it.js';
+import 'dayjs/locale/ja.js';
+import 'dayjs/locale/km.js';
+import 'dayjs/locale/ko.js';
+import 'dayjs/locale/lo.js';
+import 'dayjs/locale/ms.js';
+import 'dayjs/locale/nl.js';
+import 'dayjs/locale/pt.js';
+import 'dayjs/locale/ru.js';
+import 'dayjs/locale/th.js';
+import 'dayjs/locale/tl-ph.js';
+import 'dayjs/locale/tr.js';
+import 'dayjs/locale/vi.js';
+import 'dayjs/locale/zh-cn.js';
+import 'dayjs/locale/zh-tw.js';
+import { CONFIG } from '../config/constants.js';
+import { Weekday, DateTimeInterpretation } from '../types/index.js';
+import { validationError } from '../services/errors.js';
+import { interpretDate, interpretDateTime } from './natural-dates.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+export interface ResolvedStartAt {
+  // ISO 8601 date-time with offset, as sent to the availability API
+  start_at: string;
+  // Calendar date the caller asked for, when start_at was given as a date rather than a time
+  date?: string;
+  // Number of days covered, when start_at was given as a range such as "this weekend"
+  days?: number;
+  // How start_at was read, when it was not given as an ISO date-time or date
+  interpretation?: DateTimeInterpretation[];
+}
+
+// Indexed like Dayjs#day(), Sunday first
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const RELATIVE_UNITS: Record<string, 'day' | 'week' | 'hour'> = {
+  d: 'day',
+  day: 'day',
+  days: 'day',
+  w: 'week',
+  week: 'week',
+  weeks: 'week',
+  h: 'hour',
+  hour: 'hour',
+  hours: 'hour',
+};
+
+/**
+ * Checks whether a string is an IANA time zone name known to the runtime
+ * @param zone Time zone name (e.g. Asia/Tokyo)
+ * @returns True if the time zone is valid
+ */
+export const isValidTimezone = (zone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Resolves an availability start into an ISO 8601 date-time with offset.
+ * Accepts ISO date-times (with or without offset), plain dates (YYYY-MM-DD),
+ * "now", "today", "tomorrow", offsets such as "+3d", "in 2 weeks" or "+6h",
+ * and natural-language dates and times such as "next Friday", "this weekend",
+ * "July 20 7pm" or "明日19時" (see natural-dates.ts).
+ * Dates are taken to be dates at the restaurant, so they start at midnight in
+ * the shop's time zone; times without an offset and relative days are read in
+ * the requester's time zone.
+ * @param input start_at from the MCP client
+ * @param requesterTimezone Time zone of the person booking
+ * @param shopTimezone Time zone of the restaurant
+ * @param now Current time, for relative values
+ * @returns Resolved start, with the requested date for date-only input and
+ * how the input was read when it was not in ISO 8601
+ */
+export const resolveStartAt = (
+  input: string,
+  requesterTimezone: string,
+  shopTimezone: string = CONFIG.DEFAULT_SHOP_TIMEZONE,
+  now: Dayjs = dayjs()
+): ResolvedStartAt => {
+  const value = input.trim();
+  const lower = value.toLowerCase();
+  const today = now.tz(requesterTimezone);
+
+  if (lower === 'now') {
+    return interpreted(input, { start_at: today.format() });
+  }
+
+  if (lower === 'today' || lower === 'tomorrow') {
+    return interpreted(input, startOfShopDate(today.add(lower === 'tomorrow' ? 1 : 0, 'day').format('YYYY-MM-DD'), shopTimezone));
+  }
+
+  const relative = /^(?:\+|in\s+)(\d+)\s*(d|days?|w|weeks?|h|hours?)$/.exec(lower);
+  if (relative) {
+    const unit = RELATIVE_UNITS[relative[2]];
+    const shifted = today.add(parseInt(relative[1], 10), unit);
+    return interpreted(input, unit === 'hour' ? { start_at: shifted.format() } : startOfShopDate(shifted.format('YYYY-MM-DD'), shopTimezone));
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    if (!dayjs(value, 'YYYY-MM-DD').isValid() || dayjs(value).format('YYYY-MM-DD') !== value) {
+      throw validationError(`Invalid start_at date "${input}". Use YYYY-MM-DD`);
+    }
+    return startOfShopDate(value, shopTimezone);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(value)) {
+    return { start_at: dayjs.tz(value, requesterTimezone).format() };
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(value) && dayjs(value).isValid()) {
+    return { start_at: value };
+  }
+
+  const date = interpretDate(value, requesterTimezone, now);
+  if (date) {
+    return interpreted(input, { ...startOfShopDate(date.start, shopTimezone), days: spanDays(date.start, date.end) });
+  }
+
+  const dateTime = interpretDateTime(value, requesterTimezone, now);
+  if (dateTime) {
+    const { date: range, time } = dateTime;
+    return interpreted(input, {
+      start_at: dayjs.tz(`${range.start}T${time}`, requesterTimezone).format(),
+      days: spanDays(range.start, range.end),
+    });
+  }
+
+  throw validationError(
+    `Invalid start_at "${input}"`,
+    'Use an ISO 8601 date-time, a date (YYYY-MM-DD), an offset such as "+3d", or a date such as "tomorrow", "next Friday" or "this weekend", optionally with a time such as "7pm"'
+  );
+};
+
+/**
+ * Records how start_at was read
+ */
+const interpreted = (input: string, resolved: ResolvedStartAt): ResolvedStartAt => {
+  return { ...resolved, interpretation: [{ field: 'start_at', input, value: resolved.date || resolved.start_at }] };
+};
+
+/**
+ * Counts the days from start to end inclusive, or undefined for a single day
+ */
+const spanDays = (start: string, end: string): number | undefined => {
+  const days = dayjs(end).diff(dayjs(start), 'day') + 1;
+  return days > 1 ? days : undefined;
+};
+
+/**
+ * Starts a calendar date at midnight at the restaurant
+ * @param date Date at the restaurant (YYYY-MM-DD)
+ * @param shopTimezone Time zone of the restaurant
+ * @returns Start of the date, with the date itself
+ */
+export const startOfShopDate = (date: string, shopTimezone: string): ResolvedStartAt => ({
+  start_at: dayjs.tz(`${date}T00:00`, shopTimezone).format(),
+  date,
+});
+
+/**
+ * Gets the dayjs locale for a TableCheck locale, e.g. "zh-TW" -> "zh-tw"
+ * @param locale TableCheck locale
+ * @returns Name of a locale loaded above
+ */
+export const dayjsLocale = (locale: string): string => {
+  return locale === 'tl' ? 'tl-ph' : locale.toLowerCase();
+};
+
+/**
+ * Formats an instant for people, e.g. "Tue 15 Jul, 17:30"
+ * @param time ISO 8601 date-time
+ * @param zone Time zone to render in
+ * @param locale TableCheck locale for day and month names
+ * @returns Formatted date and time
+ */
+export const formatLocalDateTime = (time: string, zone: string, locale: string = 'en'): string => {
+  return dayjs(time).tz(zone).locale(dayjsLocale(locale)).format('ddd D MMM, HH:mm');
+};
+
+/**
+ * Formats a calendar date for people, e.g. "Tue 15 Jul 2025"
+ * @param date Date (YYYY-MM-DD)
+ * @param locale TableCheck locale for day and month names
+ * @returns Formatted date
+ */
+export const formatCalendarDate = (date: string, locale: string = 'en'): string => {
+  return dayjs(date).locale(dayjsLocale(locale)).format('ddd D MMM YYYY');
+};
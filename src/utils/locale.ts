@@ -0,0 +1,81 @@
+import { CONFIG } from '../config/constants.js';
+import { LOCALES, LOCALE_ALIASES, LOCALE_FALLBACKS, Locale } from '../config/locales.js';
+import { MESSAGES } from '../config/messages.js';
+import { validationError } from '../services/errors.js';
+
+/**
+ * Normalizes a locale argument to a TableCheck locale (e.g. "jp" -> "ja", "zh-tw" -> "zh-TW")
+ * @param locale Locale from the MCP client
+ * @returns TableCheck locale, or the default locale when none is given
+ */
+export const normalizeLocale = (locale?: string): Locale => {
+  if (!locale) {
+    return CONFIG.DEFAULT_LOCALE as Locale;
+  }
+
+  const lower = locale.trim().replace(/_/g, '-').toLowerCase();
+  const canonical = LOCALES.find(supported => supported.toLowerCase() === lower) || LOCALE_ALIASES[lower];
+  if (canonical) {
+    return canonical;
+  }
+
+  // Fall back to the language part of a regional locale such as "fr-CA"
+  const language = lower.split('-')[0];
+  const byLanguage = LOCALES.find(supported => supported === language) || LOCALE_ALIASES[language];
+  if (byLanguage) {
+    return byLanguage;
+  }
+
+  throw validationError(`Unsupported locale "${locale}". Supported locales: ${LOCALES.join(', ')}`);
+};
+
+/**
+ * Gets the locales to try, in order, for a requested locale
+ * @param locale Requested locale
+ * @returns Requested locale, its close relatives, then English and Japanese
+ */
+export const getLocaleChain = (locale: string): string[] => {
+  const chain = [locale, ...(LOCALE_FALLBACKS[locale as Locale] || []), 'en', 'ja'];
+  return chain.filter((item, index) => chain.indexOf(item) === index);
+};
+
+/**
+ * Picks the best translation for a locale from a TableCheck translations array
+ * @param translations Array of { locale, translation } objects
+ * @param locale Requested locale
+ * @returns Translation following the fallback chain, or undefined if there are none
+ */
+export const pickTranslation = (
+  translations: { locale: string, translation: string }[] | undefined,
+  locale: string
+): string | undefined => {
+  if (!Array.isArray(translations) || translations.length === 0) {
+    return undefined;
+  }
+
+  for (const candidate of getLocaleChain(locale)) {
+    const match = translations.find(translation => translation && translation.locale === candidate && translation.translation);
+    if (match) {
+      return match.translation;
+    }
+  }
+
+  const first = translations.find(translation => translation && translation.translation);
+  return first ? first.translation : undefined;
+};
+
+/**
+ * Translates a tool output message, substituting {placeholders}
+ * @param locale Requested locale
+ * @param key Message key
+ * @param params Values for placeholders
+ * @returns Localized message, falling back to English
+ */
+export const t = (locale: string, key: string, params: Record<string, string | number> = {}): string => {
+  const catalog = getLocaleChain(locale).map(candidate => MESSAGES[candidate]).find(messages => messages && messages[key]);
+  const template = (catalog || MESSAGES.en)[key] || key;
+
+  return template.replace(/\{(\w+)\}/g, (placeholder: string, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+};
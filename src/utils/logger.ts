@@ -0,0 +1,92 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { CONFIG } from '../config/constants.js';
+import { LogLevel } from '../types/index.js';
+
+/**
+ * Fields attached to every log line written while handling a request
+ */
+export interface LogContext {
+  // Correlation ID: the HTTP request's X-Request-Id, or generated per tool call
+  request_id?: string;
+  client_id?: string;
+  session_id?: string;
+  tool?: string;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Runs a function with fields added to the log context of everything it calls,
+ * including async work it starts
+ * @param context Fields to add to the current context
+ * @param fn Function to run
+ * @returns The function's result
+ */
+export const runWithLogContext = <T>(context: LogContext, fn: () => T): T => {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+};
+
+/**
+ * Gets the log context of the code currently running
+ */
+export const getLogContext = (): LogContext => {
+  return storage.getStore() || {};
+};
+
+/**
+ * Converts errors to plain objects so they survive JSON serialization
+ */
+const serializeError = (error: unknown): unknown => {
+  if (!(error instanceof Error)) {
+    return error;
+  }
+
+  const serialized: Record<string, unknown> = { name: error.name, message: error.message };
+  if ('code' in error && (typeof error.code === 'string' || typeof error.code === 'number')) {
+    serialized.code = error.code;
+  }
+  if ('statusCode' in error && typeof error.statusCode === 'number') {
+    serialized.status_code = error.statusCode;
+  }
+  if (error.stack) {
+    serialized.stack = error.stack;
+  }
+  return serialized;
+};
+
+const write = (level: LogLevel, message: string, fields: Record<string, unknown> = {}): void => {
+  if (LEVELS[level] < LEVELS[CONFIG.LOG_LEVEL]) {
+    return;
+  }
+
+  const entry: Record<string, unknown> = {
+    time: new Date().toISOString(),
+    level: level,
+    msg: message,
+    ...getLogContext(),
+  };
+  Object.entries(fields).forEach(([key, value]) => {
+    entry[key] = serializeError(value);
+  });
+
+  // Always stderr: in stdio mode stdout carries the MCP protocol
+  process.stderr.write(`${JSON.stringify(entry)}\n`);
+};
+
+/**
+ * Structured logger writing one JSON object per line to stderr, tagged with
+ * the current log context (request, client, session and tool)
+ */
+export const logger = {
+  debug: (message: string, fields?: Record<string, unknown>) => write('debug', message, fields),
+  info: (message: string, fields?: Record<string, unknown>) => write('info', message, fields),
+  warn: (message: string, fields?: Record<string, unknown>) => write('warn', message, fields),
+  error: (message: string, fields?: Record<string, unknown>) => write('error', message, fields),
+};
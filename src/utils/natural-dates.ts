@@ -0,0 +1,454 @@
+import dayjs, { Dayjs } from 'dayjs';
+import timezone from 'dayjs/plugin/timezone.js';
+import utc from 'dayjs/plugin/utc.js';
+import { DateTimeInterpretation } from '../types/index.js';
+import { validationError } from '../services/errors.js';
+import { t } from './locale.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**************************
+ * Interpretation of dates and times written the way people (and LLMs) write
+ * them: "tomorrow", "next Friday", "this weekend", "July 20", "7pm", "19時".
+ *
+ * Expressions are read relative to the current date in a reference time zone.
+ * Input that is already in the strict format (YYYY-MM-DD, HH:MM) is left as
+ * is, unrecognized input is left for the usual validation to reject, and
+ * input with more than one reasonable reading (e.g. "7/8" or "at 7") is
+ * rejected with an error asking which was meant.
+**************************/
+
+/**
+ * Calendar dates an expression covers; the same date twice for a single day
+ */
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * Arguments to interpret, by kind
+ */
+export interface DateTimeFields {
+  // Start and end of a date range; an expression covering several days in the
+  // start also fills the end when it is not given
+  range?: [string, string];
+  // Fields that take exactly one date
+  dates?: string[];
+  // Fields that take a time of day (HH:MM)
+  times?: string[];
+}
+
+const STRICT_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const STRICT_TIME = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+// Indexed like Dayjs#day(), Sunday first
+const WEEKDAY_NAMES: string[][] = [
+  ['sunday', 'sun'],
+  ['monday', 'mon'],
+  ['tuesday', 'tue', 'tues'],
+  ['wednesday', 'wed'],
+  ['thursday', 'thu', 'thur', 'thurs'],
+  ['friday', 'fri'],
+  ['saturday', 'sat'],
+];
+const JA_WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+// Days from today
+const DAY_WORDS = new Map<string, number>([
+  ['today', 0], ['tonight', 0], ['今日', 0], ['本日', 0], ['今夜', 0], ['今晩', 0],
+  ['tomorrow', 1], ['tmrw', 1], ['明日', 1], ['あした', 1], ['あす', 1],
+  ['day after tomorrow', 2], ['the day after tomorrow', 2], ['明後日', 2], ['あさって', 2],
+]);
+
+/**
+ * Normalizes width, case and spacing, so "７ＰＭ" reads like "7pm"
+ */
+const normalize = (input: string): string => {
+  return input.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const single = (day: Dayjs): DateRange => {
+  const date = day.format('YYYY-MM-DD');
+  return { start: date, end: date };
+};
+
+const span = (start: Dayjs, end: Dayjs): DateRange => ({
+  start: start.format('YYYY-MM-DD'),
+  end: end.format('YYYY-MM-DD'),
+});
+
+/**
+ * Monday of the week containing the day
+ */
+const startOfWeek = (day: Dayjs): Dayjs => day.subtract((day.day() + 6) % 7, 'day');
+
+const findWeekday = (name: string): number => {
+  return WEEKDAY_NAMES.findIndex(names => names.includes(name));
+};
+
+/**
+ * Finds a month by its full name or abbreviation ("jul", "sept")
+ */
+const findMonth = (name: string): number => {
+  return MONTH_NAMES.findIndex(month => name.length >= 3 && month.startsWith(name));
+};
+
+/**
+ * Resolves a weekday relative to today: "this" (or no prefix) is the next one
+ * on or after today, "next" is the one in next week (weeks start on Monday)
+ */
+const resolveWeekday = (weekday: number, which: 'this' | 'next', today: Dayjs): DateRange => {
+  if (which === 'next') {
+    return single(startOfWeek(today).add(7 + (weekday + 6) % 7, 'day'));
+  }
+  return single(today.add((weekday - today.day() + 7) % 7, 'day'));
+};
+
+/**
+ * Resolves this or next weekend; this weekend starts today when today is Sunday
+ */
+const resolveWeekend = (which: 'this' | 'next', today: Dayjs): DateRange => {
+  const saturday = startOfWeek(today).add(which === 'next' ? 12 : 5, 'day');
+  return span(saturday.isBefore(today, 'day') ? today : saturday, saturday.add(1, 'day'));
+};
+
+/**
+ * Resolves this week (today to Sunday) or next week (Monday to Sunday)
+ */
+const resolveWeek = (which: 'this' | 'next', today: Dayjs): DateRange => {
+  const monday = startOfWeek(today).add(which === 'next' ? 7 : 0, 'day');
+  return span(which === 'next' ? monday : today, monday.add(6, 'day'));
+};
+
+/**
+ * Builds a calendar date, in the next year when no year is given and the date
+ * has already passed this year
+ */
+const calendarDate = (input: string, year: number | undefined, month: number, day: number, today: Dayjs): DateRange => {
+  const build = (y: number) => `${y}-${pad(month)}-${pad(day)}`;
+  let date = build(year ?? today.year());
+  if (month < 1 || month > 12 || dayjs(date).format('YYYY-MM-DD') !== date) {
+    throw validationError(`"${input}" is not a valid date`, 'Give the date as YYYY-MM-DD');
+  }
+  if (year === undefined && date < today.format('YYYY-MM-DD')) {
+    date = build(today.year() + 1);
+  }
+  return { start: date, end: date };
+};
+
+/**
+ * Interprets a date expression
+ * @param input Date expression, e.g. "next Friday", "this weekend", "7月20日"
+ * @param zone Reference time zone that decides what "today" is
+ * @param now Current time
+ * @returns Dates the expression covers, or undefined if it is not a recognized expression
+ */
+export const interpretDate = (input: string, zone: string, now: Dayjs = dayjs()): DateRange | undefined => {
+  const text = normalize(input);
+  const today = now.tz(zone).startOf('day');
+  let match: RegExpExecArray | null;
+
+  if (STRICT_DATE.test(text)) {
+    return { start: text, end: text };
+  }
+
+  const days = DAY_WORDS.get(text);
+  if (days !== undefined) {
+    return single(today.add(days, 'day'));
+  }
+
+  // Weekdays: "friday", "this fri", "next friday", "金曜日", "来週の金曜"
+  if ((match = /^(?:(this|next|coming) )?([a-z]+)$/.exec(text)) && findWeekday(match[2]) !== -1) {
+    return resolveWeekday(findWeekday(match[2]), match[1] === 'next' ? 'next' : 'this', today);
+  }
+  if ((match = /^(今週の?|来週の?|今度の|次の)?([日月火水木金土])曜日?$/.exec(text))) {
+    return resolveWeekday(JA_WEEKDAYS.indexOf(match[2]), match[1] && match[1].startsWith('来週') ? 'next' : 'this', today);
+  }
+
+  if ((match = /^(?:(this|next) )?weekend$/.exec(text))) {
+    return resolveWeekend(match[1] === 'next' ? 'next' : 'this', today);
+  }
+  if (/^(今週末|週末|今週の週末)$/.test(text)) {
+    return resolveWeekend('this', today);
+  }
+  if (/^(来週末|来週の週末)$/.test(text)) {
+    return resolveWeekend('next', today);
+  }
+
+  if ((match = /^(this|next) week$/.exec(text)) || (match = /^(今週|来週)$/.exec(text))) {
+    return resolveWeek(match[1] === 'next' || match[1] === '来週' ? 'next' : 'this', today);
+  }
+
+  // Offsets: "+3d", "in 2 weeks", "3 days from now", "3日後", "2週間後"
+  if ((match = /^(?:\+|in )(\d+) ?(d|days?|w|weeks?)$/.exec(text)) ||
+      (match = /^(\d+) (days?|weeks?) from (?:now|today)$/.exec(text))) {
+    return single(today.add(parseInt(match[1], 10), match[2].startsWith('w') ? 'week' : 'day'));
+  }
+  if ((match = /^(\d+)(日|週間)後$/.exec(text))) {
+    return single(today.add(parseInt(match[1], 10), match[2] === '週間' ? 'week' : 'day'));
+  }
+
+  // Month and day: "july 20", "jul 20th, 2026", "20 july", "7月20日", "2026年7月20日"
+  if ((match = /^([a-z]+)\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/.exec(text)) && findMonth(match[1]) !== -1) {
+    return calendarDate(input, match[3] ? parseInt(match[3], 10) : undefined, findMonth(match[1]) + 1, parseInt(match[2], 10), today);
+  }
+  if ((match = /^(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]+)\.?(?:,? (\d{4}))?$/.exec(text)) && findMonth(match[2]) !== -1) {
+    return calendarDate(input, match[3] ? parseInt(match[3], 10) : undefined, findMonth(match[2]) + 1, parseInt(match[1], 10), today);
+  }
+  if ((match = /^(?:(\d{4})年)?(\d{1,2})月(\d{1,2})日(?:\(.\))?$/.exec(text))) {
+    return calendarDate(input, match[1] ? parseInt(match[1], 10) : undefined, parseInt(match[2], 10), parseInt(match[3], 10), today);
+  }
+  if ((match = /^(\d{4})[/.](\d{1,2})[/.](\d{1,2})$/.exec(text))) {
+    return calendarDate(input, parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10), today);
+  }
+
+  // Numeric day and month without a year are only read when the order is clear
+  if ((match = /^(\d{1,2})[/.](\d{1,2})(?:[/.](\d{4}))?$/.exec(text))) {
+    const first = parseInt(match[1], 10);
+    const second = parseInt(match[2], 10);
+    const year = match[3] ? parseInt(match[3], 10) : undefined;
+    if (first <= 12 && second <= 12 && first !== second) {
+      const monthName = (month: number) => dayjs(`2000-${pad(month)}-01`).format('MMMM');
+      throw validationError(
+        `Ambiguous date "${input}": it could be ${monthName(first)} ${second} or ${monthName(second)} ${first}`,
+        'Give the date as YYYY-MM-DD or with the month name, e.g. "July 20"'
+      );
+    }
+    return first > 12
+      ? calendarDate(input, year, second, first, today)
+      : calendarDate(input, year, first, second, today);
+  }
+
+  return undefined;
+};
+
+/**
+ * Time of day read from an expression, with whether it falls after midnight
+ * of the day it was said on ("夜12時" is 00:00 the next day)
+ */
+interface TimeOfDay {
+  time: string;
+  nextDay: boolean;
+}
+
+/**
+ * Interprets a time of day
+ * @param input Time expression, e.g. "7pm", "7:30 p.m.", "19時半", "午後7時", "noon"
+ * @returns Time as HH:MM, or undefined if it is not a recognized expression
+ */
+export const interpretTime = (input: string): string | undefined => {
+  const time = readTime(input);
+  if (time && time.nextDay) {
+    throw validationError(
+      `"${input}" is ${time.time} on the next day`,
+      'Use "23:59" for the end of the day, or "00:00" with the next day\'s date'
+    );
+  }
+  return time && time.time;
+};
+
+/**
+ * Reads a time of day, see interpretTime
+ */
+const readTime = (input: string): TimeOfDay | undefined => {
+  const text = normalize(input).replace(/^at /, '');
+  const sameDay = (time: string): TimeOfDay => ({ time, nextDay: false });
+  let match: RegExpExecArray | null;
+
+  if (STRICT_TIME.test(text)) {
+    return sameDay(text);
+  }
+  if (text === 'noon' || text === 'midday' || text === '正午') {
+    return sameDay('12:00');
+  }
+  if (text === 'midnight') {
+    return sameDay('00:00');
+  }
+
+  // 12-hour clock: "7pm", "7:30 pm", "7.30 p.m."
+  if ((match = /^(\d{1,2})(?:[:.](\d{2}))? ?([ap])\.?m\.?$/.exec(text))) {
+    const hour = parseInt(match[1], 10);
+    const minute = match[2] ? parseInt(match[2], 10) : 0;
+    if (hour < 1 || hour > 12 || minute > 59) {
+      return undefined;
+    }
+    return sameDay(`${pad(hour % 12 + (match[3] === 'p' ? 12 : 0))}:${pad(minute)}`);
+  }
+
+  // Japanese: "19時", "19時30分", "19時半", "午後7時", "夜7時"
+  if ((match = /^(午前|午後|夜)?(\d{1,2})時(?:(\d{1,2})分|(半))?$/.exec(text))) {
+    const hour = parseInt(match[2], 10);
+    const minute = match[4] ? 30 : match[3] ? parseInt(match[3], 10) : 0;
+    if (hour > 23 || minute > 59 || (match[1] && hour > 12)) {
+      return undefined;
+    }
+    if (!match[1]) {
+      return sameDay(clockTime(input, hour, minute));
+    }
+    // Night runs from the evening into the small hours: 夜7時 is 19:00, but
+    // 夜12時 and 夜1時 are after midnight
+    if (match[1] === '夜' && (hour === 12 || hour <= 4)) {
+      return { time: `${pad(hour % 12)}:${pad(minute)}`, nextDay: true };
+    }
+    return sameDay(`${pad(match[1] === '午前' ? hour % 12 : hour % 12 + 12)}:${pad(minute)}`);
+  }
+
+  // Bare hours: "19", "19h", "7 o'clock"
+  if ((match = /^(\d{1,2})(?:h| ?o'?clock)?$/.exec(text))) {
+    const hour = parseInt(match[1], 10);
+    return hour <= 23 ? sameDay(clockTime(input, hour, 0)) : undefined;
+  }
+
+  return undefined;
+};
+
+/**
+ * Reads an hour without am or pm, which is only clear from 13:00 on (or for
+ * 0 and 12)
+ */
+const clockTime = (input: string, hour: number, minute: number): string => {
+  if (hour >= 1 && hour <= 11) {
+    throw validationError(
+      `Ambiguous time "${input}": it could be ${pad(hour)}:${pad(minute)} or ${pad(hour + 12)}:${pad(minute)}`,
+      `Use 24-hour HH:MM (e.g. "${pad(hour + 12)}:${pad(minute)}") or add am/pm`
+    );
+  }
+  return `${pad(hour)}:${pad(minute)}`;
+};
+
+/**
+ * Interprets a date and time such as "tomorrow 7pm", "next friday at 19:00"
+ * or "明日19時"
+ * @param input Date and time expression
+ * @param zone Reference time zone that decides what "today" is
+ * @param now Current time
+ * @returns Date and time, or undefined if it is not a recognized expression
+ */
+export const interpretDateTime = (input: string, zone: string, now: Dayjs = dayjs()): { date: DateRange, time: string } | undefined => {
+  const text = normalize(input);
+  const splits: [string, string][] = [];
+
+  const words = text.split(' ');
+  for (let i = 1; i < words.length; i++) {
+    splits.push([words.slice(0, i).join(' '), words.slice(i).join(' ')]);
+  }
+  const japanese = /^(.+?(?:日|曜日?|週末))の?(.+時.*)$/.exec(text);
+  if (japanese) {
+    splits.push([japanese[1], japanese[2]]);
+  }
+
+  for (const [datePart, timePart] of splits) {
+    const date = interpretDate(datePart, zone, now);
+    if (date) {
+      const time = readTime(timePart);
+      if (time && time.nextDay) {
+        return { date: span(dayjs(date.start).add(1, 'day'), dayjs(date.end).add(1, 'day')), time: time.time };
+      }
+      if (time) {
+        return { date, time: time.time };
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Interprets the date and time arguments of a tool call, leaving strict values
+ * and unrecognized input unchanged
+ * @param args Tool arguments
+ * @param fields Which arguments hold dates, date ranges and times
+ * @param zone Reference time zone that decides what "today" is
+ * @param now Current time
+ * @returns Arguments with interpreted values, and how each changed argument was read
+ */
+export const interpretDateTimeArgs = <T extends Record<string, unknown>>(
+  args: T,
+  fields: DateTimeFields,
+  zone: string,
+  now: Dayjs = dayjs()
+): { args: T, interpretations: DateTimeInterpretation[] } => {
+  const result: Record<string, unknown> = { ...args };
+  const interpretations: DateTimeInterpretation[] = [];
+  const record = (field: string, input: string, value: string) => {
+    result[field] = value;
+    if (value !== input) {
+      interpretations.push({ field, input, value });
+    }
+  };
+  const textOf = (field: string): string | undefined => {
+    const value = args[field];
+    return typeof value === 'string' && value.trim() !== '' ? value : undefined;
+  };
+
+  if (fields.range) {
+    const [startField, endField] = fields.range;
+    const startText = textOf(startField);
+    const endText = textOf(endField);
+    const start = startText ? interpretDate(startText, zone, now) : undefined;
+    const end = endText ? interpretDate(endText, zone, now) : undefined;
+
+    if (startText && start) {
+      record(startField, startText, start.start);
+      if (!endText && start.end !== start.start) {
+        record(endField, startText, start.end);
+      }
+    }
+    if (endText && end) {
+      record(endField, endText, end.end);
+    }
+  }
+
+  (fields.dates || []).forEach(field => {
+    const text = textOf(field);
+    const date = text ? interpretDate(text, zone, now) : undefined;
+    if (!text || !date) {
+      return;
+    }
+    if (date.start !== date.end) {
+      throw validationError(
+        `"${text}" covers ${date.start} to ${date.end}, but ${field} must be a single date`,
+        `Pick one day, e.g. ${field}: "${date.start}"`
+      );
+    }
+    record(field, text, date.start);
+  });
+
+  (fields.times || []).forEach(field => {
+    const text = textOf(field);
+    const time = text ? interpretTime(text) : undefined;
+    if (text && time) {
+      record(field, text, time);
+    }
+  });
+
+  // Only string arguments are replaced, with strings
+  return { args: result as T, interpretations };
+};
+
+/**
+ * Formats how arguments were read, one line each, e.g.
+ * 'Interpreted date_min "this weekend" as 2026-10-24 (Sat)'
+ * @param interpretations Interpreted arguments
+ * @param locale Output locale
+ * @returns Formatted lines ending in a blank line, or an empty string if there are none
+ */
+export const formatInterpretations = (interpretations: DateTimeInterpretation[], locale: string = 'en'): string => {
+  if (interpretations.length === 0) {
+    return '';
+  }
+  const lines = interpretations.map(({ field, input, value }) => t(locale, 'interpreted', {
+    field,
+    input,
+    value: STRICT_DATE.test(value) ? `${value} (${dayjs(value).format('ddd')})` : value,
+  }));
+  return `${lines.join('\n')}\n\n`;
+};
@@ -1,6 +1,34 @@
 import { SearchParams } from '../types/index.js';
 import { CONFIG } from '../config/constants.js';
 
+/**
+ * Adds the time and budget filters for the search's meal period. Without a
+ * time, lunch and dinner searches assume a typical time for that meal. The API
+ * filters one meal's budget at a time, so budgets for "any" meal are checked on
+ * the results instead. Budgets must already be in the shop universe's currency.
+ * @param queryParams Query parameters to add to
+ * @param params Search parameters
+ */
+const appendMealPeriodParams = (queryParams: URLSearchParams, params: Partial<SearchParams>): void => {
+  const time = params.time ||
+    (params.meal_period === 'lunch' || params.meal_period === 'dinner' ? CONFIG.MEAL_PERIOD_TIMES[params.meal_period] : undefined);
+  if (time) {
+    queryParams.append('time', time);
+    queryParams.append('availability_mode', 'same_meal_time');
+  }
+
+  if (params.meal_period === 'any') {
+    return;
+  }
+  const budgetField = params.meal_period === 'lunch' ? 'budget_lunch_avg' : 'budget_dinner_avg';
+  if (params.budget_min) {
+    queryParams.append(`${budgetField}_min`, params.budget_min.toString());
+  }
+  if (params.budget_max) {
+    queryParams.append(`${budgetField}_max`, params.budget_max.toString());
+  }
+};
+
 /**
  * Builds a reservation URL for a specific restaurant
  * @param shopId Restaurant slug or ID
@@ -13,7 +41,7 @@ export const buildReservationUrl = (
   params: Partial<SearchParams> = {},
   locale: string = 'en'
 ): string => {
-  const baseUrl = `https://www.tablecheck.com/${locale}/${shopId}`;
+  const baseUrl = `${CONFIG.RESERVATION_BASE_URL}/${locale}/${shopId}`;
   const queryParams = new URLSearchParams();
   
   // Add standard parameters
@@ -32,16 +60,7 @@ export const buildReservationUrl = (
   if (params.date_max) {
     queryParams.append('date_max', params.date_max);
   }
-  if (params.time) {
-    queryParams.append('time', params.time);
-    queryParams.append('availability_mode', 'same_meal_time');
-  }
-  if (params.budget_min) {
-    queryParams.append('budget_dinner_avg_min', params.budget_min.toString());
-  }
-  if (params.budget_max) {
-    queryParams.append('budget_dinner_avg_max', params.budget_max.toString());
-  }
+  appendMealPeriodParams(queryParams, params);
   if (params.location) {
     queryParams.append('geo_latitude', params.location.lat.toString());
     queryParams.append('geo_longitude', params.location.lng.toString());
@@ -49,10 +68,11 @@ export const buildReservationUrl = (
   if (params.geo_distance) {
     queryParams.append('geo_distance', params.geo_distance);
   }
-  if (params.sort_by) {
+  // Relevance is not an API sort; results are ranked after they are fetched
+  if (params.sort_by && params.sort_by !== 'relevance') {
     queryParams.append('sort_by', params.sort_by);
   }
-  if (params.sort_order) {
+  if (params.sort_order && params.sort_by !== 'relevance') {
     queryParams.append('sort_order', params.sort_order);
   }
   
@@ -74,7 +94,7 @@ export const buildShopSearchUrl = (params: SearchParams): string => {
   queryParams.append('availability_format', 'date');
   queryParams.append('service_mode', CONFIG.DEFAULT_SERVICE_MODE);
   queryParams.append('venue_type', CONFIG.DEFAULT_VENUE_TYPE);
-  queryParams.append('per_page', CONFIG.DEFAULT_PER_PAGE.toString());
+  queryParams.append('per_page', (params.page_size || CONFIG.DEFAULT_PER_PAGE).toString());
   queryParams.append('include_ids', 'true');
   
   // Add randomization to prevent caching issues
@@ -97,20 +117,12 @@ export const buildShopSearchUrl = (params: SearchParams): string => {
   if (params.num_people) {
     queryParams.append('num_people', params.num_people.toString());
   }
-  if (params.time) {
-    queryParams.append('time', params.time);
-    queryParams.append('availability_mode', 'same_meal_time');
-  }
-  if (params.budget_min) {
-    queryParams.append('budget_dinner_avg_min', params.budget_min.toString());
-  }
-  if (params.budget_max) {
-    queryParams.append('budget_dinner_avg_max', params.budget_max.toString());
-  }
-  if (params.sort_by) {
+  appendMealPeriodParams(queryParams, params);
+  // Relevance is not an API sort; results are ranked after they are fetched
+  if (params.sort_by && params.sort_by !== 'relevance') {
     queryParams.append('sort_by', params.sort_by);
   }
-  if (params.sort_order) {
+  if (params.sort_order && params.sort_by !== 'relevance') {
     queryParams.append('sort_order', params.sort_order);
   }
   if (params.cuisines && params.cuisines.length > 0) {
@@ -118,6 +130,40 @@ export const buildShopSearchUrl = (params: SearchParams): string => {
       queryParams.append('cuisines[]', cuisine);
     });
   }
+  if (params.tags && params.tags.length > 0) {
+    params.tags.forEach(tag => {
+      queryParams.append('tags[]', tag);
+    });
+  }
+  if (params.cursor) {
+    queryParams.append('search_after', params.cursor);
+  }
+  
+  return `${baseUrl}?${queryParams.toString()}`;
+};
+
+/**
+ * Builds a shop search URL that looks up a single shop by slug or ID
+ * @param shopId Restaurant slug or 24-character TableCheck ID
+ * @returns Complete API URL for the shop lookup
+ */
+export const buildShopDetailsUrl = (shopId: string): string => {
+  const baseUrl = `${CONFIG.API_BASE_URL}/shop_search`;
+  const queryParams = new URLSearchParams();
+  
+  // Add required parameters
+  queryParams.append('shop_universe_id', CONFIG.SHOP_UNIVERSE_ID);
+  queryParams.append('availability_days_limit', CONFIG.DEFAULT_AVAILABILITY_DAYS.toString());
+  queryParams.append('availability_format', 'date');
+  queryParams.append('service_mode', CONFIG.DEFAULT_SERVICE_MODE);
+  queryParams.append('venue_type', CONFIG.DEFAULT_VENUE_TYPE);
+  queryParams.append('include_ids', 'true');
+  
+  if (/^[0-9a-f]{24}$/.test(shopId)) {
+    queryParams.append('shop_ids[]', shopId);
+  } else {
+    queryParams.append('shop_slugs[]', shopId);
+  }
   
   return `${baseUrl}?${queryParams.toString()}`;
 };
@@ -143,11 +189,10 @@ export const buildAutocompleteUrl = (params: SearchParams): string => {
 };
 
 /**
- * Builds a cuisines list URL
- * @param locale Language locale
+ * Builds a cuisines list URL; the response has every locale's names
  * @returns Complete API URL for cuisines
  */
-export const buildCuisinesUrl = (locale: string = 'en'): string => {
+export const buildCuisinesUrl = (): string => {
   return `${CONFIG.API_BASE_URL}/cuisines`;
 };
 
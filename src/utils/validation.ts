@@ -1,37 +1,85 @@
-import { SearchParams } from '../types/index.js';
+import { SearchParams, MealPeriod, Weekday } from '../types/index.js';
+import { CONFIG } from '../config/constants.js';
+import { SHOP_TAGS } from '../config/tags.js';
+import { isValidTimezone, WEEKDAYS } from './dates.js';
+import { validationError } from '../services/errors.js';
+
+const MEAL_PERIODS: MealPeriod[] = ['lunch', 'dinner', 'any'];
 
 export const validateSearchParams = (params: SearchParams): void => {
   if (params.date_min && !isValidDate(params.date_min)) {
-    throw new Error('Invalid date_min format. Use YYYY-MM-DD');
+    throw validationError('Invalid date_min format. Use YYYY-MM-DD');
   }
   if (params.date_max && !isValidDate(params.date_max)) {
-    throw new Error('Invalid date_max format. Use YYYY-MM-DD');
+    throw validationError('Invalid date_max format. Use YYYY-MM-DD');
   }
   if (params.num_people && (params.num_people < 1 || params.num_people > 20)) {
-    throw new Error('num_people must be between 1 and 20');
+    throw validationError('num_people must be between 1 and 20');
   }
   if (params.time && !isValidTime(params.time)) {
-    throw new Error('Invalid time format. Use HH:MM');
+    throw validationError('Invalid time format. Use HH:MM');
   }
   if (params.budget_min && params.budget_min < 0) {
-    throw new Error('budget_min must be positive');
+    throw validationError('budget_min must be positive');
   }
   if (params.budget_max && params.budget_max < 0) {
-    throw new Error('budget_max must be positive');
+    throw validationError('budget_max must be positive');
   }
   if (params.budget_min && params.budget_max && params.budget_min > params.budget_max) {
-    throw new Error('budget_min cannot be greater than budget_max');
+    throw validationError('budget_min cannot be greater than budget_max');
+  }
+  if (params.meal_period !== undefined && !MEAL_PERIODS.includes(params.meal_period)) {
+    throw validationError(`meal_period must be one of: ${MEAL_PERIODS.join(', ')}`);
+  }
+  if (params.currency !== undefined && (typeof params.currency !== 'string' || !/^[A-Z]{3}$/.test(params.currency))) {
+    throw validationError('currency must be a 3-letter ISO 4217 code, e.g. USD');
+  }
+  if (params.page_size !== undefined && (!Number.isInteger(params.page_size) || params.page_size < 1 || params.page_size > CONFIG.MAX_PER_PAGE)) {
+    throw validationError(`page_size must be an integer between 1 and ${CONFIG.MAX_PER_PAGE}`);
+  }
+  if (params.tags) {
+    validateTags(params.tags, 'tags');
+  }
+  if (params.exclude_tags) {
+    validateTags(params.exclude_tags, 'exclude_tags');
   }
   if (params.location) {
     if (!isValidLatitude(params.location.lat)) {
-      throw new Error('Invalid latitude. Must be between -90 and 90');
+      throw validationError('Invalid latitude. Must be between -90 and 90');
     }
     if (!isValidLongitude(params.location.lng)) {
-      throw new Error('Invalid longitude. Must be between -180 and 180');
+      throw validationError('Invalid longitude. Must be between -180 and 180');
     }
   }
 };
 
+export const validateCreateWatchParams = (params: any): void => {
+  if (!params.shop_id) {
+    throw validationError('shop_id is required');
+  }
+  if (!params.date || !isValidDate(params.date)) {
+    throw validationError('Invalid date format. Use YYYY-MM-DD');
+  }
+  if (!params.num_people) {
+    throw validationError('num_people is required');
+  }
+  if (params.num_people < 1 || params.num_people > 20) {
+    throw validationError('num_people must be between 1 and 20');
+  }
+  if (params.time_from && !isValidTime(params.time_from)) {
+    throw validationError('Invalid time_from format. Use HH:MM');
+  }
+  if (params.time_to && !isValidTime(params.time_to)) {
+    throw validationError('Invalid time_to format. Use HH:MM');
+  }
+  if (params.time_from && params.time_to && params.time_from.padStart(5, '0') > params.time_to.padStart(5, '0')) {
+    throw validationError('time_from cannot be later than time_to');
+  }
+  if (params.note !== undefined && (typeof params.note !== 'string' || params.note.length > 200)) {
+    throw validationError('note must be a string of at most 200 characters');
+  }
+};
+
 const isValidDate = (date: string): boolean => {
   return /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date));
 };
@@ -40,6 +88,13 @@ const isValidTime = (time: string): boolean => {
   return /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(time);
 };
 
+const validateTags = (tags: string[], field: string): void => {
+  const unknownTags = tags.filter(tag => !SHOP_TAGS.some(known => known.id === tag));
+  if (unknownTags.length > 0) {
+    throw validationError(`Unknown ${field}: ${unknownTags.join(', ')}`, 'Call list_tags for valid tag IDs');
+  }
+};
+
 const isValidLatitude = (lat: number): boolean => {
   return lat >= -90 && lat <= 90;
 };
@@ -50,15 +105,93 @@ const isValidLongitude = (lng: number): boolean => {
 
 export const validateAvailabilityParams = (params: any): void => {
   if (!params.shop_id) {
-    throw new Error('shop_id is required');
+    throw validationError('shop_id is required');
+  }
+  if (!params.start_at) {
+    throw validationError('start_at is required');
+  }
+  if (!params.num_people) {
+    throw validationError('num_people is required');
+  }
+  if (params.num_people < 1 || params.num_people > 20) {
+    throw validationError('num_people must be between 1 and 20');
+  }
+  if (params.timezone && !isValidTimezone(params.timezone)) {
+    throw validationError(`Unknown timezone "${params.timezone}". Use an IANA time zone such as Asia/Tokyo or America/Chicago`);
+  }
+  if (params.time_from && !isValidTime(params.time_from)) {
+    throw validationError('Invalid time_from format. Use HH:MM');
+  }
+  if (params.time_to && !isValidTime(params.time_to)) {
+    throw validationError('Invalid time_to format. Use HH:MM');
+  }
+  if (params.time_from && params.time_to && params.time_from.padStart(5, '0') > params.time_to.padStart(5, '0')) {
+    throw validationError('time_from cannot be later than time_to');
+  }
+  if (params.days !== undefined && (!Number.isInteger(params.days) || params.days < 1 || params.days > CONFIG.MAX_AVAILABILITY_DAYS)) {
+    throw validationError(`days must be an integer between 1 and ${CONFIG.MAX_AVAILABILITY_DAYS}`);
+  }
+  if (params.weekdays !== undefined) {
+    if (!Array.isArray(params.weekdays) || params.weekdays.length === 0) {
+      throw validationError('weekdays must be a non-empty array');
+    }
+    const unknownWeekdays = params.weekdays.filter((weekday: string) => !WEEKDAYS.includes(weekday as Weekday));
+    if (unknownWeekdays.length > 0) {
+      throw validationError(`Unknown weekdays: ${unknownWeekdays.join(', ')}. Use ${WEEKDAYS.join(', ')}`);
+    }
+  }
+};
+
+export const validateCompareAvailabilityParams = (params: any): void => {
+  if (!Array.isArray(params.shop_ids) || params.shop_ids.length === 0) {
+    throw validationError('shop_ids must be a non-empty array');
+  }
+  if (params.shop_ids.length > CONFIG.MAX_COMPARE_SHOPS) {
+    throw validationError(`shop_ids cannot contain more than ${CONFIG.MAX_COMPARE_SHOPS} restaurants`);
   }
   if (!params.start_at) {
-    throw new Error('start_at is required');
+    throw validationError('start_at is required');
   }
   if (!params.num_people) {
-    throw new Error('num_people is required');
+    throw validationError('num_people is required');
   }
   if (params.num_people < 1 || params.num_people > 20) {
-    throw new Error('num_people must be between 1 and 20');
+    throw validationError('num_people must be between 1 and 20');
+  }
+  if (params.time_from && !isValidTime(params.time_from)) {
+    throw validationError('Invalid time_from format. Use HH:MM');
+  }
+  if (params.time_to && !isValidTime(params.time_to)) {
+    throw validationError('Invalid time_to format. Use HH:MM');
+  }
+  if (params.timezone && !isValidTimezone(params.timezone)) {
+    throw validationError(`Unknown timezone "${params.timezone}". Use an IANA time zone such as Asia/Tokyo or America/Chicago`);
+  }
+};
+
+export const validateFindTableParams = (params: any): void => {
+  if (!params.date || !isValidDate(params.date)) {
+    throw validationError('Invalid date format. Use YYYY-MM-DD');
+  }
+  if (!params.time_from || !isValidTime(params.time_from)) {
+    throw validationError('Invalid time_from format. Use HH:MM');
+  }
+  if (!params.time_to || !isValidTime(params.time_to)) {
+    throw validationError('Invalid time_to format. Use HH:MM');
+  }
+  if (params.time_from.padStart(5, '0') > params.time_to.padStart(5, '0')) {
+    throw validationError('time_from cannot be later than time_to');
+  }
+  if (params.time && !isValidTime(params.time)) {
+    throw validationError('Invalid time format. Use HH:MM');
+  }
+  if (!params.search.num_people) {
+    throw validationError('num_people is required');
+  }
+  if (!Number.isInteger(params.max_candidates) || params.max_candidates < 1 || params.max_candidates > CONFIG.MAX_FIND_TABLE_CANDIDATES) {
+    throw validationError(`max_candidates must be an integer between 1 and ${CONFIG.MAX_FIND_TABLE_CANDIDATES}`);
+  }
+  if (params.timezone && !isValidTimezone(params.timezone)) {
+    throw validationError(`Unknown timezone "${params.timezone}". Use an IANA time zone such as Asia/Tokyo or America/Chicago`);
   }
 };
@@ -0,0 +1,19 @@
+import { createCorsOptions } from '../../src/auth/middleware.js';
+
+describe('createCorsOptions', () => {
+  it('allows any origin for "*", without credentials', () => {
+    expect(createCorsOptions(['*'])).toMatchObject({ origin: '*', credentials: false });
+    expect(createCorsOptions(['https://app.example.com', '*'])).toMatchObject({ origin: '*', credentials: false });
+  });
+
+  it('allows credentials for origins listed by name', () => {
+    expect(createCorsOptions(['https://app.example.com'])).toMatchObject({
+      origin: ['https://app.example.com'],
+      credentials: true,
+    });
+  });
+
+  it('allows no cross-origin requests for an empty list', () => {
+    expect(createCorsOptions([])).toMatchObject({ origin: false, credentials: false });
+  });
+});
@@ -0,0 +1,172 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync, sign, KeyObject } from 'crypto';
+import { ApiKeyVerifier, JwksTokenVerifier, JsonWebKeySet, getOwnerId } from '../../src/auth/verifiers.js';
+import { ManualClock } from '../../src/services/clock.js';
+
+const ISSUER = 'https://auth.example.com';
+const AUDIENCE = 'https://mcp.example.com/mcp';
+
+const signingKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const otherKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const keySet: JsonWebKeySet = {
+  keys: [{ ...signingKey.publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig', alg: 'RS256' }],
+};
+
+const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const createToken = (
+  claims: Record<string, unknown>,
+  header: Record<string, unknown> = { alg: 'RS256', kid: 'key-1' },
+  privateKey: KeyObject = signingKey.privateKey
+): string => {
+  const signingInput = `${encode(header)}.${encode(claims)}`;
+  return `${signingInput}.${sign('sha256', Buffer.from(signingInput), privateKey).toString('base64url')}`;
+};
+
+describe('JwksTokenVerifier', () => {
+  let server: Server;
+  let jwksUrl: string;
+  let clock: ManualClock;
+  let now: number;
+
+  const verifier = () => new JwksTokenVerifier(jwksUrl, { issuer: ISSUER, audience: AUDIENCE, clock });
+
+  const claims = (overrides: Record<string, unknown> = {}) => ({
+    iss: ISSUER,
+    aud: AUDIENCE,
+    sub: 'user-1',
+    client_id: 'client-1',
+    scope: 'search watch',
+    exp: now + 300,
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    server = createServer((_request, response) => {
+      response.writeHead(200, { 'content-type': 'application/json' });
+      response.end(JSON.stringify(keySet));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    jwksUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/.well-known/jwks.json`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    clock = new ManualClock(Date.parse('2026-10-01T12:00:00Z'));
+    now = Math.floor(clock.now() / 1000);
+  });
+
+  it('accepts a token signed with a key from the key set', async () => {
+    const token = createToken(claims());
+
+    const auth = await verifier().verifyAccessToken(token);
+
+    expect(auth).toMatchObject({
+      token,
+      clientId: 'client-1',
+      scopes: ['search', 'watch'],
+      expiresAt: now + 300,
+      extra: { subject: 'user-1' },
+    });
+  });
+
+  it('rejects a token signed with another key', async () => {
+    const token = createToken(claims(), { alg: 'RS256', kid: 'key-1' }, otherKey.privateKey);
+
+    await expect(verifier().verifyAccessToken(token)).rejects.toThrow('Invalid token signature');
+  });
+
+  it('rejects a token whose payload was changed after signing', async () => {
+    const [header, , signature] = createToken(claims()).split('.');
+    const token = `${header}.${encode(claims({ client_id: 'someone-else' }))}.${signature}`;
+
+    await expect(verifier().verifyAccessToken(token)).rejects.toThrow('Invalid token signature');
+  });
+
+  it('rejects an expired token once the clock skew has passed', async () => {
+    const token = createToken(claims({ exp: now - 30 }));
+    await expect(verifier().verifyAccessToken(token)).resolves.toBeDefined();
+
+    clock.advance(60 * 1000);
+    await expect(verifier().verifyAccessToken(token)).rejects.toThrow('Token has expired');
+  });
+
+  it('rejects a token for another audience', async () => {
+    const token = createToken(claims({ aud: ['https://other.example.com/mcp'] }));
+
+    await expect(verifier().verifyAccessToken(token)).rejects.toThrow('Token was not issued for this server');
+  });
+
+  it('rejects a token from another issuer', async () => {
+    const token = createToken(claims({ iss: 'https://evil.example.com' }));
+
+    await expect(verifier().verifyAccessToken(token)).rejects.toThrow('Token was issued by an unexpected issuer');
+  });
+
+  it.each(['constructor', '__proto__', 'toString', 'HS256', 'none'])('rejects the algorithm %s', async alg => {
+    const token = createToken(claims(), { alg, kid: 'key-1' });
+
+    await expect(verifier().verifyAccessToken(token)).rejects.toThrow('Unsupported token algorithm');
+  });
+
+  it('rejects a token signed with a key ID missing from the key set', async () => {
+    const token = createToken(claims(), { alg: 'RS256', kid: 'key-2' });
+
+    await expect(verifier().verifyAccessToken(token)).rejects.toThrow('Unknown signing key key-2');
+  });
+});
+
+describe('getOwnerId', () => {
+  let server: Server;
+  let jwksUrl: string;
+  const now = Math.floor(Date.parse('2026-10-01T12:00:00Z') / 1000);
+
+  const verify = (claims: Record<string, unknown>) => new JwksTokenVerifier(jwksUrl, {
+    issuer: ISSUER,
+    audience: AUDIENCE,
+    clock: new ManualClock(now * 1000),
+  }).verifyAccessToken(createToken({ iss: ISSUER, aud: AUDIENCE, exp: now + 300, ...claims }));
+
+  beforeAll(async () => {
+    server = createServer((_request, response) => {
+      response.writeHead(200, { 'content-type': 'application/json' });
+      response.end(JSON.stringify(keySet));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    jwksUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/.well-known/jwks.json`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('tells apart two users of the same OAuth client', async () => {
+    const alice = await verify({ client_id: 'client-1', sub: 'alice' });
+    const bob = await verify({ client_id: 'client-1', sub: 'bob' });
+
+    expect(alice.clientId).toBe(bob.clientId);
+    expect(getOwnerId(alice)).toBe('client-1:alice');
+    expect(getOwnerId(bob)).toBe('client-1:bob');
+  });
+
+  it('uses the client ID alone for client credentials tokens and API keys', async () => {
+    const machine = await verify({ sub: 'client-2' });
+    const apiKey = await new ApiKeyVerifier([{ client_id: 'client-3', key: 'k'.repeat(16) }]).verifyAccessToken('k'.repeat(16));
+
+    expect(getOwnerId(machine)).toBe('client-2');
+    expect(getOwnerId(apiKey)).toBe('client-3');
+    expect(getOwnerId(undefined)).toBeUndefined();
+  });
+
+  it('escapes the client ID so client and subject pairs cannot coincide', async () => {
+    const first = await verify({ client_id: 'a:b', sub: 'c' });
+    const second = await verify({ client_id: 'a', sub: 'b:c' });
+
+    expect(getOwnerId(first)).not.toBe(getOwnerId(second));
+  });
+});
@@ -0,0 +1,215 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { CONFIG } from '../../src/config/constants.js';
+import { ConfigError, getConfigPath, loadConfig } from '../../src/config/loader.js';
+
+const KEY = 'k'.repeat(16);
+
+describe('loadConfig', () => {
+  const original = structuredClone(CONFIG);
+  let dir: string;
+
+  const writeConfig = (name: string, contents: string): string => {
+    const file = path.join(dir, name);
+    writeFileSync(file, contents);
+    return file;
+  };
+
+  // Collects the problems a ConfigError lists
+  const problemsOf = (load: () => unknown): string[] => {
+    try {
+      load();
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        return error.problems;
+      }
+      throw error;
+    }
+    throw new Error('Expected a ConfigError');
+  };
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'tablecheck-config-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    Object.assign(CONFIG, structuredClone(original));
+  });
+
+  it('applies a YAML config file', () => {
+    const configPath = writeConfig('config.yaml', [
+      'api_base_url: https://staging.tablecheck.com/v2/',
+      'default_location: { lat: 34.6937, lng: 135.5023 }',
+      'default_locale: ja_JP',
+      'default_per_page: 20',
+      'cors_allowed_origins: [https://app.example.com]',
+      'auth_mode: api-key',
+      'api_keys:',
+      `  - { client_id: desktop, key: ${KEY}, rate_limit_per_minute: 60 }`,
+    ].join('\n'));
+
+    const config = loadConfig({ configPath, env: {} });
+
+    expect(config).toBe(CONFIG);
+    expect(CONFIG).toMatchObject({
+      API_BASE_URL: 'https://staging.tablecheck.com/v2',
+      DEFAULT_LOCATION: { lat: 34.6937, lng: 135.5023 },
+      DEFAULT_LOCALE: 'ja',
+      DEFAULT_PER_PAGE: 20,
+      CORS_ALLOWED_ORIGINS: ['https://app.example.com'],
+      AUTH_MODE: 'api-key',
+      API_KEYS: [{ client_id: 'desktop', key: KEY, rate_limit_per_minute: 60 }],
+    });
+  });
+
+  it('applies a JSON config file, and an empty file changes nothing', () => {
+    loadConfig({ configPath: writeConfig('config.json', '{ "log_level": "debug", "watch_store": "memory" }'), env: {} });
+    loadConfig({ configPath: writeConfig('empty.yaml', ''), env: {} });
+
+    expect(CONFIG).toMatchObject({ LOG_LEVEL: 'debug', WATCH_STORE: 'memory' });
+  });
+
+  it('lets environment variables override the config file', () => {
+    const configPath = writeConfig('override.yaml', 'log_level: debug\ndefault_location: { lat: 34.6937, lng: 135.5023 }\nmax_sessions: 10');
+
+    loadConfig({
+      configPath,
+      env: { LOG_LEVEL: 'warn', TABLECHECK_DEFAULT_LOCATION: '35.0116, 135.7681', MCP_AUTH_MODE: 'api-key', MCP_API_KEYS: `desktop:${KEY}:30` },
+    });
+
+    expect(CONFIG).toMatchObject({
+      LOG_LEVEL: 'warn',
+      DEFAULT_LOCATION: { lat: 35.0116, lng: 135.7681 },
+      MAX_MCP_SESSIONS: 10,
+      API_KEYS: [{ client_id: 'desktop', key: KEY, rate_limit_per_minute: 30 }],
+    });
+  });
+
+  it('rejects unknown keys in the config file', () => {
+    const configPath = writeConfig('unknown.yaml', 'log_level: info\nlog_levle: debug');
+
+    expect(problemsOf(() => loadConfig({ configPath, env: {} }))).toEqual([
+      expect.stringMatching(/^log_levle: unknown setting \(expected one of .*log_level/),
+    ]);
+  });
+
+  it.each([
+    ['TABLECHECK_SHOP_UNIVERSE_ID', '  ', 'must be a non-empty string'],
+    ['TABLECHECK_API_BASE_URL', 'ftp://example.com', 'must be an http(s) URL'],
+    ['GEOCODER_URL', 'nominatim', 'must be an http(s) URL'],
+    ['TABLECHECK_DEFAULT_PER_PAGE', '500', 'must be an integer between 1 and 100'],
+    ['WATCH_POLL_INTERVAL_MS', '1.5', 'must be an integer between 1000'],
+    ['TABLECHECK_DEFAULT_LOCATION', '135.5,34.7,1', 'must be coordinates'],
+    ['TABLECHECK_DEFAULT_LOCATION', '95,135', 'must be coordinates'],
+    ['TABLECHECK_DEFAULT_LOCALE', '', 'must be a non-empty string'],
+    ['CACHE_STORE', 'redis', 'must be "memory" or "file"'],
+    ['MCP_SESSION_MODE', 'sticky', 'must be "stateless" or "stateful"'],
+    ['MCP_AUTH_MODE', 'basic', 'must be "none", "api-key" or "oauth"'],
+    ['LOG_LEVEL', 'verbose', 'must be "debug", "info", "warn" or "error"'],
+  ])('rejects %s=%j', (name, value, error) => {
+    expect(problemsOf(() => loadConfig({ env: { [name]: value } }))).toEqual([
+      expect.stringContaining(`${name}: ${error}`),
+    ]);
+  });
+
+  it.each([
+    ['default_location: { lat: north, lng: east }', 'default_location (config file): must be coordinates'],
+    ['default_location: [35, 139]', 'default_location (config file): must be coordinates'],
+    ['cors_allowed_origins: [1, 2]', 'cors_allowed_origins (config file): must be a list of strings'],
+    ['exchange_rates_path: 42', 'exchange_rates_path (config file): must be a string'],
+    ['api_keys: { client_id: desktop }', 'api_keys (config file): must be a list of { client_id, key }'],
+  ])('rejects "%s" in the config file', (contents, problem) => {
+    const configPath = writeConfig('invalid.yaml', contents);
+
+    expect(problemsOf(() => loadConfig({ configPath, env: {} }))).toEqual([expect.stringContaining(problem)]);
+  });
+
+  it.each([
+    ['a short key', 'desktop:short', 'each API key needs a client_id and a key of at least 16 characters'],
+    ['a missing client ID', `:${KEY}`, 'each API key needs a client_id and a key of at least 16 characters'],
+    ['an invalid rate limit', `desktop:${KEY}:0`, 'rate_limit_per_minute for desktop must be a positive integer'],
+    ['a key used twice', `desktop:${KEY},cli:${KEY}`, 'API keys must be unique'],
+  ])('rejects API keys with %s without echoing them', (_name, value, error) => {
+    const problems = problemsOf(() => loadConfig({ env: { MCP_API_KEYS: value } }));
+
+    expect(problems).toEqual([`MCP_API_KEYS: ${error}`]);
+  });
+
+  it.each([
+    [{ MCP_AUTH_MODE: 'api-key' }, 'auth_mode "api-key" requires api_keys (MCP_API_KEYS)'],
+    [{ MCP_AUTH_MODE: 'oauth', MCP_SERVER_URL: 'https://mcp.example.com/mcp' }, 'auth_mode "oauth" requires oauth_jwks_url (OAUTH_JWKS_URL)'],
+    [{ MCP_AUTH_MODE: 'oauth', OAUTH_JWKS_URL: 'https://auth.example.com/jwks.json' }, 'auth_mode "oauth" requires oauth_audience (OAUTH_AUDIENCE) or server_url (MCP_SERVER_URL) to check token audiences'],
+  ])('checks the settings auth mode %j needs', (env, problem) => {
+    expect(problemsOf(() => loadConfig({ env }))).toEqual([problem]);
+  });
+
+  it('accepts OAuth with a key set and an audience', () => {
+    loadConfig({ env: { MCP_AUTH_MODE: 'oauth', OAUTH_JWKS_URL: 'https://auth.example.com/jwks.json', OAUTH_AUDIENCE: 'tablecheck-mcp' } });
+
+    expect(CONFIG).toMatchObject({ AUTH_MODE: 'oauth', OAUTH_AUDIENCE: 'tablecheck-mcp' });
+  });
+
+  it('lists every problem at once and leaves the configuration unchanged', () => {
+    const configPath = writeConfig('many.yaml', 'log_level: loud\ncache_store: redis\ncolour: blue');
+
+    const problems = problemsOf(() => loadConfig({ configPath, env: { MCP_SESSION_MODE: 'sticky', TABLECHECK_DEFAULT_PER_PAGE: '20' } }));
+
+    expect(problems).toEqual([
+      expect.stringMatching(/^colour: unknown setting/),
+      'cache_store (config file): must be "memory" or "file" (got "redis")',
+      'MCP_SESSION_MODE: must be "stateless" or "stateful" (got "sticky")',
+      'log_level (config file): must be "debug", "info", "warn" or "error" (got "loud")',
+    ]);
+    expect(CONFIG).toEqual(original);
+  });
+
+  it('lists the problems in the error message', () => {
+    expect(() => loadConfig({ env: { LOG_LEVEL: 'loud', CACHE_STORE: 'redis' } })).toThrow(
+      'Invalid configuration:\n  - CACHE_STORE: must be "memory" or "file" (got "redis")\n  - LOG_LEVEL: must be "debug", "info", "warn" or "error" (got "loud")'
+    );
+  });
+
+  it.each([
+    ['a file that does not exist', () => path.join(dir, 'missing.yaml'), 'cannot read config file'],
+    ['a file that cannot be parsed', () => writeConfig('broken.json', '{ "log_level": '), 'cannot parse config file'],
+    ['a file that is not an object', () => writeConfig('list.yaml', '- log_level: debug'), 'must contain an object'],
+  ])('rejects %s', (_name, configPath, problem) => {
+    expect(problemsOf(() => loadConfig({ configPath: configPath(), env: {} }))).toEqual([expect.stringContaining(problem)]);
+  });
+});
+
+describe('getConfigPath', () => {
+  const originalEnv = process.env.TABLECHECK_CONFIG;
+
+  afterEach(() => {
+    if (originalEnv === undefined) {
+      delete process.env.TABLECHECK_CONFIG;
+    } else {
+      process.env.TABLECHECK_CONFIG = originalEnv;
+    }
+  });
+
+  it('prefers --config over TABLECHECK_CONFIG', () => {
+    process.env.TABLECHECK_CONFIG = 'env.yaml';
+
+    expect(getConfigPath(['node', 'index.js', '--config', 'arg.yaml'])).toBe('arg.yaml');
+    expect(getConfigPath(['node', 'index.js', '--config=arg.json'])).toBe('arg.json');
+    expect(getConfigPath(['node', 'index.js'])).toBe('env.yaml');
+  });
+
+  it('returns nothing when neither is set', () => {
+    delete process.env.TABLECHECK_CONFIG;
+
+    expect(getConfigPath(['node', 'index.js'])).toBeUndefined();
+  });
+
+  it('rejects --config without a path', () => {
+    expect(() => getConfigPath(['node', 'index.js', '--config'])).toThrow(ConfigError);
+    expect(() => getConfigPath(['node', 'index.js', '--config='])).toThrow('--config requires a file path');
+  });
+});
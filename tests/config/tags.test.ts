@@ -0,0 +1,18 @@
+import { SHOP_TAGS } from '../../src/config/tags.js';
+
+describe('SHOP_TAGS', () => {
+  it('lists each tag once, sorted by ID', () => {
+    const ids = SHOP_TAGS.map(tag => tag.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toEqual([...ids].sort());
+    ids.forEach(id => expect(id).toMatch(/^[a-z]+(-[a-z]+)*$/));
+  });
+
+  it('names every tag in each language tool output is written in', () => {
+    SHOP_TAGS.forEach(tag => {
+      expect(tag.translations.map(translation => translation.locale)).toEqual(['en', 'ja', 'ko', 'zh-CN', 'zh-TW']);
+      tag.translations.forEach(translation => expect(translation.translation.trim()).not.toBe(''));
+    });
+  });
+});
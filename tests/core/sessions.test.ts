@@ -0,0 +1,67 @@
+import { jest } from '@jest/globals';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SessionStore } from '../../src/core/sessions.js';
+import { ManualClock } from '../../src/services/clock.js';
+
+describe('SessionStore', () => {
+  const idleTimeoutMs = 30 * 60 * 1000;
+  let clock: ManualClock;
+  let store: SessionStore;
+
+  // Only close() is used by the store
+  const fakeServer = () => ({ close: jest.fn(async () => undefined) });
+  const add = (id: string, ownerId?: string) => {
+    const server = fakeServer();
+    store.add(id, server as unknown as Server, {} as StreamableHTTPServerTransport, ownerId);
+    return server;
+  };
+
+  beforeEach(() => {
+    clock = new ManualClock(Date.parse('2026-10-01T12:00:00Z'));
+    store = new SessionStore(idleTimeoutMs, 2, clock);
+  });
+
+  it('closes sessions once they have been idle longer than the timeout', async () => {
+    const idle = add('idle');
+    const active = add('active');
+
+    clock.advance(idleTimeoutMs);
+    store.touch('active');
+    clock.advance(1);
+
+    expect(await store.closeIdle()).toEqual(['idle']);
+    expect(idle.close).toHaveBeenCalled();
+    expect(active.close).not.toHaveBeenCalled();
+    expect(store.touch('idle')).toBeUndefined();
+    expect(store.size).toBe(1);
+  });
+
+  it('only lets the owner use a session', () => {
+    add('session', 'client-a');
+
+    expect(store.touch('session', 'client-b')).toBeUndefined();
+    expect(store.touch('session')).toBeUndefined();
+    expect(store.touch('session', 'client-a')).toMatchObject({ id: 'session', owner_id: 'client-a' });
+  });
+
+  it('limits the number of open sessions', async () => {
+    add('first');
+    expect(store.hasCapacity()).toBe(true);
+    add('second');
+    expect(store.hasCapacity()).toBe(false);
+
+    expect(await store.close('first')).toBe(true);
+    expect(await store.close('first')).toBe(false);
+    expect(store.hasCapacity()).toBe(true);
+  });
+
+  it('closes every session on shutdown', async () => {
+    const servers = [add('first'), add('second')];
+
+    await store.closeAll();
+
+    servers.forEach(server => expect(server.close).toHaveBeenCalled());
+    expect(store.size).toBe(0);
+  });
+});
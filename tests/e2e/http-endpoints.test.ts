@@ -0,0 +1,36 @@
+import { startMockTableCheckApi, MockTableCheckApi } from '../../src/mock/tablecheck-api.js';
+import { startHttpServer, serverEnv } from '../support/servers.js';
+
+describe('HTTP endpoints with authentication enabled', () => {
+  const apiKey = 'metrics-test-key-0123456789abcdef';
+  let api: MockTableCheckApi;
+  let server: { url: string, stop(): Promise<void> };
+
+  beforeAll(async () => {
+    api = await startMockTableCheckApi();
+    server = await startHttpServer(serverEnv(api.url, { MCP_AUTH_MODE: 'api-key', MCP_API_KEYS: `scraper:${apiKey}` }));
+  }, 60000);
+
+  afterAll(async () => {
+    await server?.stop();
+    await api?.close();
+  });
+
+  it('requires a valid token for metrics', async () => {
+    expect((await fetch(`${server.url}/metrics`)).status).toBe(401);
+    expect((await fetch(`${server.url}/metrics`, { headers: { Authorization: 'Bearer wrong-key' } })).status).toBe(401);
+
+    const response = await fetch(`${server.url}/metrics`, { headers: { Authorization: `Bearer ${apiKey}` } });
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('tablecheck_mcp_tool_calls_total');
+  });
+
+  it('serves the health check without a token or cache statistics', async () => {
+    const response = await fetch(`${server.url}/health`);
+    const health = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(health.status).toBe('healthy');
+    expect(health).not.toHaveProperty('cache');
+  });
+});
@@ -0,0 +1,141 @@
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { startMockTableCheckApi, MockTableCheckApi } from '../../src/mock/tablecheck-api.js';
+import { startHttpServer, serverEnv } from '../support/servers.js';
+
+const ACCEPT = 'application/json, text/event-stream';
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: LATEST_PROTOCOL_VERSION, capabilities: {}, clientInfo: { name: 'tablecheck-mcp-tests', version: '1.0.0' } },
+};
+
+const listTools = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+
+describe('MCP sessions over HTTP', () => {
+  let api: MockTableCheckApi;
+
+  beforeAll(async () => {
+    api = await startMockTableCheckApi();
+  });
+
+  afterAll(async () => {
+    await api?.close();
+  });
+
+  describe('in stateful mode', () => {
+    let server: { url: string, stop(): Promise<void> };
+
+    beforeAll(async () => {
+      server = await startHttpServer(serverEnv(api.url, { MCP_SESSION_MODE: 'stateful', MCP_SESSION_IDLE_TIMEOUT_MS: '1000' }));
+    }, 60000);
+
+    afterAll(async () => {
+      await server?.stop();
+    });
+
+    const post = (body: unknown, sessionId?: string) => fetch(`${server.url}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: ACCEPT,
+        ...(sessionId ? { 'Mcp-Session-Id': sessionId, 'Mcp-Protocol-Version': LATEST_PROTOCOL_VERSION } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    // Opens a session and sends the initialized notification
+    const openSession = async (): Promise<string> => {
+      const response = await post(initialize);
+      await response.text();
+      const sessionId = response.headers.get('mcp-session-id');
+      expect(response.status).toBe(200);
+      expect(sessionId).toBeTruthy();
+      await (await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId as string)).text();
+      return sessionId as string;
+    };
+
+    it('opens an SSE stream for a session', async () => {
+      const sessionId = await openSession();
+      const controller = new AbortController();
+
+      const response = await fetch(`${server.url}/mcp`, {
+        headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId, 'Mcp-Protocol-Version': LATEST_PROTOCOL_VERSION },
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('text/event-stream');
+    });
+
+    it('rejects requests for sessions it does not know', async () => {
+      const response = await post(listTools, 'no-such-session');
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toMatchObject({ error: { code: -32001, message: 'Session not found' } });
+    });
+
+    it('tears a session down on DELETE', async () => {
+      const sessionId = await openSession();
+      const listed = await post(listTools, sessionId);
+      expect(listed.status).toBe(200);
+      await listed.text();
+
+      const deleted = await fetch(`${server.url}/mcp`, {
+        method: 'DELETE',
+        headers: { 'Mcp-Session-Id': sessionId, 'Mcp-Protocol-Version': LATEST_PROTOCOL_VERSION },
+      });
+      expect(deleted.status).toBe(200);
+
+      expect((await post(listTools, sessionId)).status).toBe(404);
+    });
+
+    it('closes sessions left idle', async () => {
+      const sessionId = await openSession();
+      const activeSessions = async (): Promise<number> => (await (await fetch(`${server.url}/health`)).json()).sessions.active;
+      expect(await activeSessions()).toBeGreaterThan(0);
+
+      // Idle sessions are closed by a check that runs every idle timeout
+      const deadline = Date.now() + 10000;
+      while (await activeSessions() > 0 && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 250));
+      }
+
+      expect(await activeSessions()).toBe(0);
+      expect((await post(listTools, sessionId)).status).toBe(404);
+    });
+  });
+
+  describe('in stateless mode', () => {
+    let server: { url: string, stop(): Promise<void> };
+
+    beforeAll(async () => {
+      server = await startHttpServer(serverEnv(api.url));
+    }, 60000);
+
+    afterAll(async () => {
+      await server?.stop();
+    });
+
+    it.each(['GET', 'DELETE'])('answers %s with 405', async method => {
+      const response = await fetch(`${server.url}/mcp`, { method, headers: { Accept: ACCEPT } });
+
+      expect(response.status).toBe(405);
+      expect(await response.json()).toMatchObject({ error: { message: 'Method not allowed.' } });
+    });
+
+    it('answers requests without a session', async () => {
+      const response = await fetch(`${server.url}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: ACCEPT },
+        body: JSON.stringify(listTools),
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('mcp-session-id')).toBeNull();
+      expect(await response.text()).toContain('search_restaurants');
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import Ajv from 'ajv';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { startMockTableCheckApi, MockTableCheckApi } from '../../src/mock/tablecheck-api.js';
+import { formatToolError } from '../../src/handlers/errors.js';
+import { AvailabilitySummary, AvailabilityWatch, Cuisine, RestaurantResult, RestaurantSearchPage } from '../../src/types/index.js';
+import { startMcpServer, serverEnv, RunningServer, TransportName } from '../support/servers.js';
+
+const text = (result: CallToolResult): string => {
+  return result.content.map(item => item.type === 'text' ? item.text : '').join('\n');
+};
+
+// Structured content of a tool result, typed as the tool's handler builds it
+const structured = <T>(result: CallToolResult): T => result.structuredContent as T;
+
+const toolError = (result: CallToolResult) => (result._meta as ReturnType<typeof formatToolError>['_meta']).error;
+
+describe.each<TransportName>(['stdio', 'http'])('MCP tools over %s', transport => {
+  let api: MockTableCheckApi;
+  let server: RunningServer;
+
+  const callTool = async (name: string, args: Record<string, unknown>): Promise<CallToolResult> => {
+    return await server.client.callTool({ name, arguments: args }) as CallToolResult;
+  };
+
+  const search = async (args: Record<string, unknown>): Promise<RestaurantSearchPage> => {
+    return structured<RestaurantSearchPage>(await callTool('search_restaurants', args));
+  };
+
+  // Follows next_cursor to the last page
+  const searchAllPages = async (args: Record<string, unknown>): Promise<{ pages: RestaurantResult[][], restaurants: RestaurantResult[], recordCount: number }> => {
+    const pages: RestaurantResult[][] = [];
+    let cursor: string | undefined;
+    let recordCount = 0;
+    do {
+      const page = await search({ ...args, cursor });
+      pages.push(page.restaurants);
+      recordCount = page.record_count;
+      cursor = page.next_cursor;
+    } while (cursor);
+    return { pages, restaurants: pages.flat(), recordCount };
+  };
+
+  // Spawning the server with tsx takes a few seconds on a cold start
+  beforeAll(async () => {
+    api = await startMockTableCheckApi();
+    server = await startMcpServer(transport, serverEnv(api.url));
+  }, 60000);
+
+  afterAll(async () => {
+    await server?.close();
+    await api?.close();
+  });
+
+  beforeEach(() => {
+    api.setScenario({});
+  });
+
+  it('lists every tool with its schemas', async () => {
+    const { tools } = await server.client.listTools();
+    const names = tools.map(tool => tool.name);
+
+    expect(names).toEqual(expect.arrayContaining([
+      'search_restaurants',
+      'get_restaurant_availability',
+      'find_table',
+      'compare_availability',
+      'list_cuisines',
+      'generate_reservation_link',
+    ]));
+    tools.forEach(tool => expect(tool.outputSchema).toBeDefined());
+  });
+
+  it('searches restaurants near a location', async () => {
+    const result = await callTool('search_restaurants', { location: 'Kamakura', cuisines: ['french'], page_size: 5 });
+    const page = structured<RestaurantSearchPage>(result);
+
+    expect(result.isError).toBeFalsy();
+    expect(page.restaurants.length).toBeGreaterThan(0);
+    page.restaurants.forEach(restaurant => expect(restaurant.cuisine).toContain('french'));
+    expect(text(result)).toContain(page.restaurants[0].name);
+    // Budgets default to dinner, so its price range is listed first
+    expect(text(result).indexOf('Dinner Price Range')).toBeLessThan(text(result).indexOf('Lunch Price Range'));
+
+    const request = api.requests.filter(entry => entry.route === 'shop_search').pop();
+    expect(request?.query).toMatchObject({ geo_distance: '5km' });
+  });
+
+  it('pages through search results with the cursor', async () => {
+    const first = await search({ location: 'Kamakura', page_size: 3 });
+    expect(first.restaurants).toHaveLength(3);
+    expect(first.next_cursor).toBeDefined();
+
+    const second = await search({ location: 'Kamakura', page_size: 3, cursor: first.next_cursor });
+    const firstIds = first.restaurants.map(restaurant => restaurant.id);
+    second.restaurants.forEach(restaurant => expect(firstIds).not.toContain(restaurant.id));
+  });
+
+  it('only accepts a cursor for the search it came from', async () => {
+    const apiPaged = await search({ location: 'Kamakura', page_size: 3 });
+    const localPaged = await search({ location: 'Kamakura', exclude_tags: ['quiet'], page_size: 3 });
+
+    const resized = await callTool('search_restaurants', { location: 'Kamakura', page_size: 5, cursor: apiPaged.next_cursor });
+    expect(resized.isError).toBeFalsy();
+
+    for (const [args, message] of [
+      [{ location: 'Kamakura', cuisines: ['french'], page_size: 3, cursor: apiPaged.next_cursor }, 'This cursor belongs to a different search'],
+      [{ location: 'Kamakura', page_size: 3, cursor: localPaged.next_cursor }, 'This cursor belongs to a different search'],
+      [{ location: 'Kamakura', page_size: 3, cursor: 'page-2' }, 'Invalid cursor'],
+    ] as const) {
+      const result = await callTool('search_restaurants', args);
+      expect(result.isError).toBe(true);
+      expect(toolError(result).code).toBe('validation_error');
+      expect(text(result)).toContain(message);
+    }
+  });
+
+  it('fills every page and counts the results left after excluding tags', async () => {
+    const { pages, restaurants, recordCount } = await searchAllPages({ location: 'Kamakura', exclude_tags: ['quiet'], page_size: 4 });
+
+    expect(pages.length).toBeGreaterThan(1);
+    pages.slice(0, -1).forEach(page => expect(page).toHaveLength(4));
+    expect(restaurants).toHaveLength(recordCount);
+    expect(new Set(restaurants.map(restaurant => restaurant.id)).size).toBe(restaurants.length);
+    restaurants.forEach(restaurant => expect(restaurant.tags).not.toContain('quiet'));
+  });
+
+  it('sends a budget in another currency to TableCheck in yen', async () => {
+    const result = await callTool('search_restaurants', { location: 'Kamakura', currency: 'USD', budget_max: 100 });
+
+    expect(result.isError).toBeFalsy();
+    const request = api.requests.filter(entry => entry.route === 'shop_search').pop();
+    expect(Number(request?.query.budget_dinner_avg_max)).toBeGreaterThan(100);
+  });
+
+  it('fills every page when the budget is for any meal', async () => {
+    const { pages, restaurants, recordCount } = await searchAllPages({ location: 'Kamakura', meal_period: 'any', budget_max: 5000, page_size: 3 });
+
+    expect(pages.length).toBeGreaterThan(1);
+    pages.slice(0, -1).forEach(page => expect(page).toHaveLength(3));
+    expect(restaurants).toHaveLength(recordCount);
+  });
+
+  it('ranks by relevance across pages', async () => {
+    const args = { location: 'Kamakura', sort_by: 'relevance', page_size: 5 };
+    const first = await search(args);
+    const second = await search({ ...args, cursor: first.next_cursor });
+    const scores = [...first.restaurants, ...second.restaurants].flatMap(restaurant => restaurant.relevance ? [restaurant.relevance.score] : []);
+
+    expect(scores).toHaveLength(10);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it.each<[string, Record<string, unknown>]>([
+    ['search_restaurants', { location: 'Kamakura', page_size: 3, sort_by: 'relevance', currency: 'USD' }],
+    ['find_table', { location: 'Kamakura', date: 'tomorrow', time_from: '18:00', time_to: '21:00', num_people: 2 }],
+    ['get_restaurant_details', { shop_id: 'fierte' }],
+    ['get_restaurant_availability', { shop_id: 'fierte', start_at: 'tomorrow', num_people: 2, detail: true }],
+    ['compare_availability', { shop_ids: ['fierte', 'ishi'], start_at: 'tomorrow', num_people: 2 }],
+    ['list_cuisines', { locale: 'ko' }],
+    ['list_tags', {}],
+    ['generate_reservation_link', { shop_id: 'fierte', num_people: 2 }],
+  ])('returns structured content matching the output schema of %s', async (name, args) => {
+    const { tools } = await server.client.listTools();
+    const validate = new Ajv().compile(tools.find(tool => tool.name === name)?.outputSchema as object);
+
+    const result = await callTool(name, args);
+
+    expect(result.isError).toBeFalsy();
+    expect(validate(result.structuredContent)).toBe(true);
+    expect(validate.errors ?? []).toEqual([]);
+  });
+
+  it('returns structured content matching the output schemas of the watch tools', async () => {
+    const { tools } = await server.client.listTools();
+    const matches = (name: string, content: unknown) => new Ajv().validate(tools.find(tool => tool.name === name)?.outputSchema as object, content);
+
+    const date = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const created = await callTool('create_availability_watch', { shop_id: 'fierte', date, num_people: 2 });
+    expect(matches('create_availability_watch', created.structuredContent)).toBe(true);
+
+    const listed = await callTool('list_availability_watches', {});
+    expect(matches('list_availability_watches', listed.structuredContent)).toBe(true);
+
+    const deleted = await callTool('delete_availability_watch', { watch_id: structured<{ watch: AvailabilityWatch }>(created).watch.id });
+    expect(matches('delete_availability_watch', deleted.structuredContent)).toBe(true);
+  });
+
+  it('only offers watch subscriptions where notifications can be delivered', async () => {
+    const date = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const created = await callTool('create_availability_watch', { shop_id: 'fierte', date, num_people: 2 });
+    const uri = structured<{ resource_uri: string }>(created).resource_uri;
+
+    // Stateless HTTP answers each request on its own, so a match could never be pushed
+    if (transport === 'stdio') {
+      expect(server.client.getServerCapabilities()?.resources).toEqual({ subscribe: true });
+      await expect(server.client.subscribeResource({ uri })).resolves.toEqual({});
+    } else {
+      expect(server.client.getServerCapabilities()?.resources).toEqual({ subscribe: false });
+      await expect(server.client.subscribeResource({ uri })).rejects.toThrow('MCP_SESSION_MODE=stateful');
+    }
+  });
+
+  it('gets availability for a restaurant', async () => {
+    const result = await callTool('get_restaurant_availability', { shop_id: 'fierte', start_at: 'tomorrow', num_people: 2, days: 3 });
+    const availability = structured<{ shop_id: string, shop_time_zone: string, summary: AvailabilitySummary }>(result);
+
+    expect(result.isError).toBeFalsy();
+    expect(availability.shop_id).toBe('fierte');
+    expect(availability.shop_time_zone).toBe('Asia/Tokyo');
+    expect(availability.summary.days.length).toBeLessThanOrEqual(3);
+    expect(text(result)).toContain('Availability for restaurant fierte');
+  });
+
+  it('lists cuisines in the requested language', async () => {
+    const result = await callTool('list_cuisines', { locale: 'ja' });
+    const { cuisines } = structured<{ cuisines: Cuisine[] }>(result);
+
+    expect(result.isError).toBeFalsy();
+    expect(cuisines.length).toBeGreaterThan(0);
+    expect(cuisines[0].locale).toBe('ja');
+  });
+
+  it('reports TableCheck errors as tool errors with a code and hint', async () => {
+    api.setScenario({ errors: { availability_calendar: { status: 404 } } });
+
+    const result = await callTool('get_restaurant_availability', { shop_id: 'missing-shop', start_at: '+2d', num_people: 2 });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain('Code: not_found');
+    expect(toolError(result)).toMatchObject({ code: 'not_found', status_code: 404 });
+  });
+
+  it('rejects invalid arguments without calling TableCheck', async () => {
+    const before = api.requests.length;
+
+    const result = await callTool('search_restaurants', { date_min: '2026-13-45' });
+
+    expect(result.isError).toBe(true);
+    expect(toolError(result).code).toBe('validation_error');
+    expect(api.requests.length).toBe(before);
+  });
+});
@@ -0,0 +1,30 @@
+import { jest } from '@jest/globals';
+import { TableCheckService } from '../../src/services/tablecheck.js';
+import { handleGetAvailability } from '../../src/handlers/availability.js';
+import { handleCompareAvailability } from '../../src/handlers/compare.js';
+import { AvailabilityCalendar } from '../../src/types/index.js';
+
+describe('availability dates at restaurants outside the default time zone', () => {
+  const calendar: AvailabilityCalendar = { shop_id: 'london', time_zone: 'Europe/London', closed_dates: [], slots: [] };
+  let tableCheckService: TableCheckService;
+  let getAvailabilityCalendar: jest.SpiedFunction<TableCheckService['getAvailabilityCalendar']>;
+
+  beforeEach(() => {
+    tableCheckService = new TableCheckService();
+    jest.spyOn(tableCheckService, 'getShopTimeZone').mockImplementation(async shopId => shopId === 'london' ? 'Europe/London' : 'Asia/Tokyo');
+    getAvailabilityCalendar = jest.spyOn(tableCheckService, 'getAvailabilityCalendar').mockResolvedValue(calendar);
+  });
+
+  it('checks a date from midnight at the restaurant', async () => {
+    await handleGetAvailability(tableCheckService, { shop_id: 'london', start_at: '2026-12-01', num_people: 2 });
+
+    expect(getAvailabilityCalendar).toHaveBeenCalledWith(expect.objectContaining({ start_at: '2026-12-01T00:00:00Z' }));
+  });
+
+  it('checks a date from midnight at each restaurant when comparing', async () => {
+    await handleCompareAvailability(tableCheckService, { shop_ids: ['london', 'tokyo'], start_at: '2026-12-01', num_people: 2 });
+
+    expect(getAvailabilityCalendar).toHaveBeenCalledWith(expect.objectContaining({ shop_id: 'london', start_at: '2026-12-01T00:00:00Z' }));
+    expect(getAvailabilityCalendar).toHaveBeenCalledWith(expect.objectContaining({ shop_id: 'tokyo', start_at: '2026-12-01T00:00:00+09:00' }));
+  });
+});
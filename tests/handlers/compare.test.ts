@@ -0,0 +1,83 @@
+import { jest } from '@jest/globals';
+import { TableCheckService } from '../../src/services/tablecheck.js';
+import { TableCheckError } from '../../src/services/errors.js';
+import { handleCompareAvailability } from '../../src/handlers/compare.js';
+import { AvailabilityParams, AvailabilitySlot } from '../../src/types/index.js';
+
+const slot = (time: string, available = true): AvailabilitySlot => ({ date: time.slice(0, 10), time, available, party_size: 2 });
+
+// Slots in UTC; 09:00Z is 18:00 in Tokyo
+const SLOTS: Record<string, AvailabilitySlot[]> = {
+  ishi: [slot('2026-12-04T09:00:00Z'), slot('2026-12-04T09:30:00Z', false), slot('2026-12-04T10:00:00Z')],
+  fierte: [slot('2026-12-04T09:00:00Z'), slot('2026-12-04T12:00:00Z')],
+};
+
+describe('compare_availability', () => {
+  let tableCheckService: TableCheckService;
+  let getAvailabilityCalendar: jest.SpiedFunction<TableCheckService['getAvailabilityCalendar']>;
+
+  beforeEach(() => {
+    tableCheckService = new TableCheckService();
+    jest.spyOn(tableCheckService, 'getShopTimeZone').mockResolvedValue('Asia/Tokyo');
+    getAvailabilityCalendar = jest.spyOn(tableCheckService, 'getAvailabilityCalendar').mockImplementation(async (params: AvailabilityParams) => {
+      if (!SLOTS[params.shop_id]) {
+        throw new TableCheckError('Restaurant not found', 'not_found', { statusCode: 404 });
+      }
+      return { shop_id: params.shop_id, time_zone: 'Asia/Tokyo', closed_dates: [], slots: SLOTS[params.shop_id] };
+    });
+  });
+
+  it('checks each restaurant once', async () => {
+    const result = await handleCompareAvailability(tableCheckService, { shop_ids: ['ishi', 'fierte', 'ishi'], start_at: '2026-12-04', num_people: 2 });
+
+    expect(getAvailabilityCalendar.mock.calls.map(([params]) => params.shop_id)).toEqual(['ishi', 'fierte']);
+    expect(result).toMatchObject({ structuredContent: { shops: [{ shop_id: 'ishi' }, { shop_id: 'fierte' }] } });
+  });
+
+  it('lists each open time with the restaurants free then, inside the time window', async () => {
+    const result = await handleCompareAvailability(tableCheckService, {
+      shop_ids: ['ishi', 'fierte'], start_at: '2026-12-04', num_people: 2, time_from: '17:00', time_to: '20:00', timezone: 'Asia/Tokyo',
+    });
+
+    expect(result).toMatchObject({
+      structuredContent: {
+        shops: [{ shop_id: 'ishi', open_slot_count: 2 }, { shop_id: 'fierte', open_slot_count: 1 }],
+        matrix: [
+          { time: '2026-12-04T09:00:00Z', local_date: '2026-12-04', local_time: '18:00', shop_ids: ['ishi', 'fierte'] },
+          { time: '2026-12-04T10:00:00Z', local_date: '2026-12-04', local_time: '19:00', shop_ids: ['ishi'] },
+        ],
+      },
+    });
+    expect(result.content[0].text).toContain('**Fri 2026-12-04**');
+  });
+
+  it('reads the time window in the requester\'s time zone', async () => {
+    // 18:00 in Tokyo is 09:00 in London
+    const result = await handleCompareAvailability(tableCheckService, {
+      shop_ids: ['ishi', 'fierte'], start_at: '2026-12-04', num_people: 2, time_from: '09:00', time_to: '09:30', timezone: 'Europe/London',
+    });
+
+    expect(result).toMatchObject({ structuredContent: { matrix: [{ local_time: '09:00', shop_ids: ['ishi', 'fierte'] }] } });
+  });
+
+  it('reports a restaurant that cannot be checked without failing the others', async () => {
+    const result = await handleCompareAvailability(tableCheckService, { shop_ids: ['ishi', 'missing'], start_at: '2026-12-04', num_people: 2 });
+
+    expect(result).not.toHaveProperty('isError');
+    expect(result).toMatchObject({
+      structuredContent: {
+        shops: [
+          { shop_id: 'ishi', open_slot_count: 2 },
+          { shop_id: 'missing', open_slot_count: 0, error: 'Restaurant not found', error_code: 'not_found' },
+        ],
+      },
+    });
+    expect(result.content[0].text).toContain('missing: ');
+  });
+
+  it('names weekdays in the requested language', async () => {
+    const result = await handleCompareAvailability(tableCheckService, { shop_ids: ['ishi'], start_at: '2026-12-04', num_people: 2, locale: 'ja' });
+
+    expect(result.content[0].text).toContain('**金 2026-12-04**');
+  });
+});
@@ -0,0 +1,169 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { jest } from '@jest/globals';
+import { CONFIG } from '../../src/config/constants.js';
+import { TableCheckService } from '../../src/services/tablecheck.js';
+import { ResponseCache } from '../../src/services/cache.js';
+import { HttpClient } from '../../src/services/http-client.js';
+import { TableCheckError } from '../../src/services/errors.js';
+import { handleListCuisines } from '../../src/handlers/cuisines.js';
+import { handleGetRestaurantDetails } from '../../src/handlers/details.js';
+import { logger } from '../../src/utils/logger.js';
+
+type Responder = (request: IncomingMessage, response: ServerResponse) => void;
+
+interface ToolErrorResult {
+  content: { text: string }[];
+  isError?: boolean;
+  _meta: { error: Record<string, unknown> };
+}
+
+describe('tool results for failed TableCheck requests', () => {
+  const originalBaseUrl = CONFIG.API_BASE_URL;
+  let server: Server;
+  let respond: Responder;
+  let requests: number;
+
+  const service = () => new TableCheckService(
+    new ResponseCache(),
+    new HttpClient({ timeoutMs: 200, maxRetries: 1, baseDelayMs: 1, maxDelayMs: 1 })
+  );
+
+  const run = async (call: Promise<unknown>): Promise<ToolErrorResult> => {
+    return await call as ToolErrorResult;
+  };
+
+  const replyWith = (status: number, headers: Record<string, string> = {}, body = '{}'): Responder => (_request, response) => {
+    response.writeHead(status, { 'content-type': 'application/json', ...headers });
+    response.end(body);
+  };
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      requests++;
+      respond(request, response);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    CONFIG.API_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    CONFIG.API_BASE_URL = originalBaseUrl;
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = 0;
+    // Failed requests are logged as errors; keep them out of the test output
+    jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each([401, 403])('reports a %i as TableCheck being unavailable', async status => {
+    respond = replyWith(status);
+
+    const result = await run(handleListCuisines(service(), {}));
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Code: upstream_unavailable');
+    expect(result._meta.error).toMatchObject({
+      code: 'upstream_unavailable',
+      status_code: status,
+      hint: 'TableCheck is temporarily unavailable; try again in a few minutes',
+    });
+  });
+
+  it('reports a 404 for a restaurant as not found, pointing at search_restaurants', async () => {
+    respond = replyWith(404);
+
+    const result = await run(handleGetRestaurantDetails(service(), { shop_id: 'missing-shop' }));
+
+    expect(result.content[0].text).toContain('Code: not_found');
+    expect(result._meta.error).toMatchObject({
+      code: 'not_found',
+      status_code: 404,
+      hint: 'Call search_restaurants to find valid shop IDs',
+    });
+  });
+
+  it('reports a 429 with the Retry-After delay', async () => {
+    respond = replyWith(429, { 'retry-after': '120' });
+
+    const result = await run(handleListCuisines(service(), {}));
+
+    expect(result.content[0].text).toContain('Code: rate_limited');
+    expect(result._meta.error).toMatchObject({
+      code: 'rate_limited',
+      status_code: 429,
+      retry_after_seconds: 120,
+      hint: 'Wait 120 seconds before calling this tool again',
+    });
+    // Longer than the client waits, so it is not retried
+    expect(requests).toBe(1);
+  });
+
+  it('retries a 5xx, then reports TableCheck as unavailable', async () => {
+    respond = replyWith(503);
+
+    const result = await run(handleListCuisines(service(), {}));
+
+    expect(requests).toBe(2);
+    expect(result.content[0].text).toContain('Code: upstream_unavailable');
+    expect(result._meta.error).toMatchObject({ code: 'upstream_unavailable', status_code: 503 });
+  });
+
+  it('reports a request that gets no response as a timeout', async () => {
+    respond = () => undefined;
+
+    const result = await run(handleListCuisines(service(), {}));
+
+    expect(result.content[0].text).toContain('Code: timeout');
+    expect(result._meta.error).toMatchObject({
+      code: 'timeout',
+      hint: 'TableCheck did not respond in time; try again, or ask for fewer restaurants or days',
+    });
+  });
+
+  it('reports a dropped connection as TableCheck being unavailable', async () => {
+    respond = request => request.socket.destroy();
+
+    const result = await run(handleListCuisines(service(), {}));
+
+    expect(result.content[0].text).toContain('Code: upstream_unavailable');
+    expect(result._meta.error).toMatchObject({
+      code: 'upstream_unavailable',
+      hint: 'TableCheck is temporarily unavailable; try again in a few minutes',
+    });
+  });
+
+  it('reports a body that is not JSON as an invalid response', async () => {
+    respond = replyWith(200, {}, '{"cuisines": [');
+
+    const result = await run(handleListCuisines(service(), {}));
+
+    expect(result.content[0].text).toContain('Code: invalid_response');
+    expect(result._meta.error).toMatchObject({
+      code: 'invalid_response',
+      hint: 'TableCheck returned an unexpected response; try again later',
+    });
+  });
+});
+
+describe('logger', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('logs the code and status of TableCheck errors', () => {
+    const write = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+    logger.error('Request failed', { error: new TableCheckError('Rate limit exceeded', 'rate_limited', { statusCode: 429 }) });
+
+    const entry = JSON.parse(String(write.mock.calls[0][0]));
+    expect(entry.error).toMatchObject({ name: 'TableCheckError', code: 'rate_limited', status_code: 429 });
+  });
+});
@@ -0,0 +1,92 @@
+import { jest } from '@jest/globals';
+import { TableCheckService } from '../../src/services/tablecheck.js';
+import { handleFindTable } from '../../src/handlers/find.js';
+import { AvailabilityParams, AvailabilitySlot, RestaurantResult } from '../../src/types/index.js';
+
+const restaurant = (slug: string, available_dates: string[]): RestaurantResult => ({
+  id: slug,
+  name: slug,
+  slug,
+  cuisine: ['french'],
+  location: { lat: null, lng: null },
+  currency: 'JPY',
+  lunch_price_range: { currency: 'JPY' },
+  dinner_price_range: { currency: 'JPY' },
+  available_dates,
+  tags: [],
+  reservation_url: `https://www.tablecheck.com/en/${slug}`,
+});
+
+const slot = (time: string, available = true): AvailabilitySlot => ({ date: time.slice(0, 10), time, available, party_size: 2 });
+
+const TIME_ZONES: Record<string, string> = { tokyo: 'Asia/Tokyo', london: 'Europe/London', 'fully-booked': 'Asia/Tokyo' };
+
+const SLOTS: Record<string, AvailabilitySlot[]> = {
+  // 17:30, 18:00, 19:00 (booked) and 20:30 in Tokyo
+  tokyo: [slot('2026-12-04T08:30:00Z'), slot('2026-12-04T09:00:00Z'), slot('2026-12-04T10:00:00Z', false), slot('2026-12-04T11:30:00Z')],
+  // 17:00 and 19:00 in London, which is 04:00 the next day in Tokyo
+  london: [slot('2026-12-04T17:00:00Z'), slot('2026-12-04T19:00:00Z')],
+  'fully-booked': [slot('2026-12-04T10:00:00Z', false)],
+};
+
+const ARGS = { date: '2026-12-04', time_from: '18:00', time_to: '20:00', time: '19:00', num_people: 2, timezone: 'Asia/Tokyo' };
+
+describe('find_table', () => {
+  let tableCheckService: TableCheckService;
+  let getAvailabilityCalendar: jest.SpiedFunction<TableCheckService['getAvailabilityCalendar']>;
+
+  beforeEach(() => {
+    tableCheckService = new TableCheckService();
+    jest.spyOn(tableCheckService, 'searchRestaurants').mockResolvedValue({
+      restaurants: [
+        restaurant('tokyo', ['2026-12-04']),
+        restaurant('closed-that-day', ['2026-12-05']),
+        restaurant('fully-booked', ['2026-12-04']),
+        restaurant('london', ['2026-12-04']),
+      ],
+      record_count: 4,
+    });
+    jest.spyOn(tableCheckService, 'getShopTimeZone').mockImplementation(async shopId => TIME_ZONES[shopId]);
+    getAvailabilityCalendar = jest.spyOn(tableCheckService, 'getAvailabilityCalendar').mockImplementation(async (params: AvailabilityParams) => ({
+      shop_id: params.shop_id, time_zone: TIME_ZONES[params.shop_id], closed_dates: [], slots: SLOTS[params.shop_id],
+    }));
+  });
+
+  it('checks restaurants available that day from midnight in their own time zone', async () => {
+    await handleFindTable(tableCheckService, ARGS);
+
+    expect(getAvailabilityCalendar.mock.calls.map(([params]) => [params.shop_id, params.start_at])).toEqual([
+      ['tokyo', '2026-12-04T00:00:00+09:00'],
+      ['fully-booked', '2026-12-04T00:00:00+09:00'],
+      ['london', '2026-12-04T00:00:00Z'],
+    ]);
+  });
+
+  it('keeps open slots inside the window at each restaurant, closest to the requested time first', async () => {
+    const result = await handleFindTable(tableCheckService, ARGS);
+
+    expect(result).toMatchObject({
+      structuredContent: {
+        matches: [
+          { restaurant: { slug: 'london' }, time_zone: 'Europe/London', slots: ['2026-12-04T19:00:00Z'], best_slot: '2026-12-04T19:00:00Z', minutes_from_requested: 0 },
+          { restaurant: { slug: 'tokyo' }, time_zone: 'Asia/Tokyo', slots: ['2026-12-04T09:00:00Z'], best_slot: '2026-12-04T09:00:00Z', minutes_from_requested: 60 },
+        ],
+      },
+    });
+  });
+
+  it('shows times at the restaurant, with the requester\'s time when it differs', async () => {
+    const result = await handleFindTable(tableCheckService, ARGS);
+    const text = result.content[0].text;
+
+    expect(text).toContain('2026-12-04 between 18:00 and 20:00, restaurant time');
+    expect(text).toContain('19:00 (Europe/London) (Sat 5 Dec, 04:00 your time)');
+    expect(text).toContain('18:00 (Asia/Tokyo)\n');
+  });
+
+  it('checks no more than max_candidates restaurants', async () => {
+    await handleFindTable(tableCheckService, { ...ARGS, max_candidates: 1 });
+
+    expect(getAvailabilityCalendar).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,37 @@
+import { TableCheckService } from '../../src/services/tablecheck.js';
+import { handleListTags } from '../../src/handlers/tags.js';
+import { SHOP_TAGS } from '../../src/config/tags.js';
+
+describe('list_tags', () => {
+  const tableCheckService = new TableCheckService();
+
+  it('lists every tag with its name in the requested language', async () => {
+    const result = await handleListTags(tableCheckService, { locale: 'jp' });
+
+    expect(result).toMatchObject({
+      structuredContent: {
+        locale: 'ja',
+        tags: expect.arrayContaining([{ id: 'private', name: '個室', name_en: 'Private Rooms', name_ja: '個室', locale: 'ja' }]),
+      },
+    });
+    expect('structuredContent' in result && result.structuredContent.tags).toHaveLength(SHOP_TAGS.length);
+    expect(result.content[0].text).toContain('**個室** (private)');
+  });
+
+  it.each([
+    ['zh-HK', 'zh-TW', '包廂'],
+    ['ms', 'ms', 'Private Rooms'],
+    ['fr', 'fr', 'Private Rooms'],
+  ])('names tags for %s in a related language, then English', async (requested, locale, name) => {
+    const result = await handleListTags(tableCheckService, { locale: requested });
+
+    expect(result).toMatchObject({ structuredContent: { locale, tags: expect.arrayContaining([expect.objectContaining({ id: 'private', name })]) } });
+  });
+
+  it('rejects an unsupported locale', async () => {
+    const result = await handleListTags(tableCheckService, { locale: 'xx' });
+
+    expect(result).toMatchObject({ isError: true, _meta: { error: { code: 'validation_error' } } });
+    expect(result.content[0].text).toContain('Unsupported locale "xx"');
+  });
+});
@@ -0,0 +1,100 @@
+import { copyFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { CONFIG } from '../../src/config/constants.js';
+import { TableCheckService } from '../../src/services/tablecheck.js';
+import { ResponseCache } from '../../src/services/cache.js';
+import { HttpClient } from '../../src/services/http-client.js';
+import { StaticExchangeRateProvider } from '../../src/services/exchange-rates.js';
+import { startMockTableCheckApi, MockTableCheckApi } from '../../src/mock/tablecheck-api.js';
+import { RestaurantResult, SearchParams } from '../../src/types/index.js';
+
+// 1 USD = 150 JPY = 1.3 SGD
+const RATES = { base: 'USD', rates: { USD: 1, JPY: 150, SGD: 1.3 } };
+
+/**
+ * Writes the recorded fixtures with every third shop moved to Singapore,
+ * priced in SGD at a third of its yen price in dollars
+ */
+const writeMixedCurrencyFixtures = (dir: string): Record<string, { currency: string, dinner: number }> => {
+  ['autocomplete.json', 'cuisines.json', 'availability_calendar.json'].forEach(name => {
+    copyFileSync(path.resolve('assets', name), path.join(dir, name));
+  });
+
+  const search = JSON.parse(readFileSync(path.resolve('assets', 'search.json'), 'utf8'));
+  const prices: Record<string, { currency: string, dinner: number }> = {};
+  search.shops.forEach((shop: { slug: string, currency: string, budget_dinner_avg: string }, index: number) => {
+    if (index % 3 === 0) {
+      const sgd = String(Math.round((parseFloat(shop.budget_dinner_avg) / 150) * 1.3 / 3));
+      Object.assign(shop, { currency: 'SGD', budget_dinner_avg: sgd, budget_lunch_avg: sgd, budget_avg: sgd });
+    }
+    prices[shop.slug] = { currency: shop.currency, dinner: parseFloat(shop.budget_dinner_avg) };
+  });
+  writeFileSync(path.join(dir, 'search.json'), JSON.stringify(search));
+  return prices;
+};
+
+describe('budgets in another currency across mixed-currency results', () => {
+  const originalBaseUrl = CONFIG.API_BASE_URL;
+  const originalCurrency = CONFIG.SHOP_UNIVERSE_CURRENCY;
+  let dir: string;
+  let prices: Record<string, { currency: string, dinner: number }>;
+  let api: MockTableCheckApi;
+
+  const service = () => new TableCheckService(new ResponseCache(), new HttpClient(), new StaticExchangeRateProvider(RATES));
+
+  const inUsd = (slug: string) => prices[slug].dinner / RATES.rates[prices[slug].currency as 'JPY' | 'SGD'];
+
+  const searchAllPages = async (params: SearchParams) => {
+    const tableCheckService = service();
+    const pages: RestaurantResult[][] = [];
+    let cursor: string | undefined;
+    let recordCount = 0;
+    do {
+      const page = await tableCheckService.searchRestaurants({ ...params, cursor });
+      pages.push(page.restaurants);
+      recordCount = page.record_count;
+      cursor = page.next_cursor;
+    } while (cursor);
+    return { pages, restaurants: pages.flat(), recordCount };
+  };
+
+  beforeAll(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'tablecheck-fixtures-'));
+    prices = writeMixedCurrencyFixtures(dir);
+    api = await startMockTableCheckApi({ port: 0, fixturesDir: dir });
+    CONFIG.API_BASE_URL = api.url;
+  });
+
+  afterAll(async () => {
+    CONFIG.API_BASE_URL = originalBaseUrl;
+    CONFIG.SHOP_UNIVERSE_CURRENCY = originalCurrency;
+    await api.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('filters converted prices locally when the universe mixes currencies', async () => {
+    CONFIG.SHOP_UNIVERSE_CURRENCY = '';
+    const expected = Object.keys(prices).filter(slug => inUsd(slug) <= 60).sort();
+
+    const { pages, restaurants, recordCount } = await searchAllPages({ currency: 'USD', budget_max: 60, page_size: 4 });
+
+    expect(restaurants.map(restaurant => restaurant.slug).sort()).toEqual(expected);
+    expect(restaurants.some(restaurant => restaurant.currency === 'SGD')).toBe(true);
+    expect(restaurants.some(restaurant => restaurant.currency === 'JPY')).toBe(true);
+    expect(recordCount).toBe(expected.length);
+    pages.slice(0, -1).forEach(page => expect(page).toHaveLength(4));
+    api.requests.filter(request => request.route === 'shop_search').forEach(request => {
+      expect(request.query).not.toHaveProperty('budget_dinner_avg_max');
+    });
+  });
+
+  it('sends the converted budget when every shop is priced in the universe currency', async () => {
+    CONFIG.SHOP_UNIVERSE_CURRENCY = 'JPY';
+
+    await service().searchRestaurants({ currency: 'USD', budget_max: 60 });
+
+    const request = api.requests.filter(entry => entry.route === 'shop_search').pop();
+    expect(request?.query).toMatchObject({ budget_dinner_avg_max: '9000' });
+  });
+});
@@ -0,0 +1,175 @@
+import { jest } from '@jest/globals';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FileCacheStore, MemoryCacheStore, ResponseCache, buildCacheKey } from '../../src/services/cache.js';
+import { ManualClock } from '../../src/services/clock.js';
+
+describe('MemoryCacheStore', () => {
+  let clock: ManualClock;
+
+  beforeEach(() => {
+    clock = new ManualClock(Date.parse('2026-10-01T12:00:00Z'));
+  });
+
+  it('expires entries after their TTL', async () => {
+    const store = new MemoryCacheStore(10, clock);
+    await store.set('key', { name: 'fierte' }, 1000);
+
+    clock.advance(999);
+    expect(await store.get('key')).toEqual({ name: 'fierte' });
+    clock.advance(1);
+    expect(await store.get('key')).toBeUndefined();
+  });
+
+  it('evicts the least recently used entry beyond its size', async () => {
+    const store = new MemoryCacheStore(2, clock);
+    await store.set('a', 1, 1000);
+    await store.set('b', 2, 1000);
+
+    // Reading "a" makes "b" the least recently used
+    await store.get('a');
+    await store.set('c', 3, 1000);
+
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe(3);
+  });
+
+  it('refreshes an entry that is set again', async () => {
+    const store = new MemoryCacheStore(2, clock);
+    await store.set('a', 1, 1000);
+    await store.set('b', 2, 1000);
+    await store.set('a', 10, 1000);
+    await store.set('c', 3, 1000);
+
+    expect(await store.get('a')).toBe(10);
+    expect(await store.get('b')).toBeUndefined();
+  });
+});
+
+describe('FileCacheStore', () => {
+  let dir: string;
+  let clock: ManualClock;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'tablecheck-cache-'));
+    clock = new ManualClock(Date.parse('2026-10-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps entries across store instances until they expire', async () => {
+    await new FileCacheStore(dir, clock).set('https://api.example.com/cuisines', ['sushi'], 1000);
+
+    const reopened = new FileCacheStore(dir, clock);
+    expect(await reopened.get('https://api.example.com/cuisines')).toEqual(['sushi']);
+
+    clock.advance(1000);
+    expect(await reopened.get('https://api.example.com/cuisines')).toBeUndefined();
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it('deletes and clears entries', async () => {
+    const store = new FileCacheStore(dir, clock);
+    await store.set('a', 1, 1000);
+    await store.set('b', 2, 1000);
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.get('b')).toBe(2);
+
+    await store.clear();
+    expect(await store.get('b')).toBeUndefined();
+  });
+});
+
+describe('ResponseCache', () => {
+  let clock: ManualClock;
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    clock = new ManualClock(Date.parse('2026-10-01T12:00:00Z'));
+    cache = new ResponseCache(new MemoryCacheStore(10, clock), { cuisines: 60 * 1000, shop_search: 1000, availability_calendar: 0 });
+  });
+
+  it('caches each endpoint for its own TTL and counts hits and misses', async () => {
+    const loader = jest.fn(async () => 'value');
+
+    await cache.getOrLoad('cuisines', 'cuisines-key', loader);
+    await cache.getOrLoad('shop_search', 'search-key', loader);
+    clock.advance(1000);
+    await cache.getOrLoad('cuisines', 'cuisines-key', loader);
+    await cache.getOrLoad('shop_search', 'search-key', loader);
+
+    expect(loader).toHaveBeenCalledTimes(3);
+    expect(cache.getStats()).toEqual({
+      cuisines: { hits: 1, misses: 1 },
+      shop_search: { hits: 0, misses: 2 },
+    });
+  });
+
+  it('does not cache endpoints without a TTL', async () => {
+    const loader = jest.fn(async () => 'value');
+
+    await cache.getOrLoad('availability_calendar', 'key', loader);
+    await cache.getOrLoad('availability_calendar', 'key', loader);
+    await cache.getOrLoad('unknown', 'key', loader);
+
+    expect(loader).toHaveBeenCalledTimes(3);
+    expect(cache.getStats()).toEqual({
+      availability_calendar: { hits: 0, misses: 2 },
+      unknown: { hits: 0, misses: 1 },
+    });
+  });
+
+  it('shares one load between concurrent misses for the same key', async () => {
+    let resolve: (value: string) => void = () => undefined;
+    const loader = jest.fn(() => new Promise<string>(done => {
+      resolve = done;
+    }));
+
+    const first = cache.getOrLoad('cuisines', 'key', loader);
+    const second = cache.getOrLoad('cuisines', 'key', loader);
+    const other = cache.getOrLoad('cuisines', 'other-key', async () => 'other');
+    await new Promise(setImmediate);
+    resolve('value');
+
+    expect(await Promise.all([first, second, other])).toEqual(['value', 'value', 'other']);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(cache.getStats()).toEqual({ cuisines: { hits: 1, misses: 2 } });
+  });
+
+  it('shares a failed load, then loads again', async () => {
+    const loader = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error('HTTP 503'))
+      .mockResolvedValueOnce('value');
+
+    const results = await Promise.allSettled([
+      cache.getOrLoad('cuisines', 'key', loader),
+      cache.getOrLoad('cuisines', 'key', loader),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    expect(await cache.getOrLoad('cuisines', 'key', loader)).toBe('value');
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('buildCacheKey', () => {
+  it('ignores the randomize_geo parameter', () => {
+    expect(buildCacheKey('https://api.example.com/shop_search?per_page=10&randomize_geo=1234&geo_distance=1km'))
+      .toBe(buildCacheKey('https://api.example.com/shop_search?per_page=10&randomize_geo=99&geo_distance=1km'));
+    expect(buildCacheKey('https://api.example.com/shop_search?per_page=10&randomize_geo=1234'))
+      .toBe('https://api.example.com/shop_search?per_page=10');
+  });
+
+  it('keeps the other parameters and the body apart', () => {
+    expect(buildCacheKey('https://api.example.com/shop_search?per_page=10'))
+      .not.toBe(buildCacheKey('https://api.example.com/shop_search?per_page=20'));
+    expect(buildCacheKey('https://api.example.com/hub/availability_calendar', { shop_id: 'a' }))
+      .toBe('https://api.example.com/hub/availability_calendar {"shop_id":"a"}');
+  });
+});
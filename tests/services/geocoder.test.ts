@@ -0,0 +1,167 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { jest } from '@jest/globals';
+import { ChainGeocoder, GazetteerGeocoder, HttpGeocoder, LocationNotFoundError } from '../../src/services/geocoder.js';
+import { createDefaultGeocoder, resolveLocation } from '../../src/utils/location.js';
+import { Geocoder, GeocodeResult } from '../../src/types/index.js';
+
+describe('HttpGeocoder', () => {
+  let server: Server;
+  let url: string;
+  let reply: { status: number, body: string };
+  let lastRequest: IncomingMessage | undefined;
+
+  // Answers every search with the reply set by the test
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      lastRequest = request;
+      response.writeHead(reply.status, { 'content-type': 'application/json' });
+      response.end(reply.body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    lastRequest = undefined;
+  });
+
+  const respond = (body: unknown, status = 200) => {
+    reply = { status, body: typeof body === 'string' ? body : JSON.stringify(body) };
+  };
+
+  it('sends a Nominatim search and reads the first place', async () => {
+    respond([
+      { lat: '35.3192', lon: '139.5467', display_name: 'Kamakura, Kanagawa, Japan' },
+      { lat: '0', lon: '0', display_name: 'Elsewhere' },
+    ]);
+
+    const result = await new HttpGeocoder(url, 1000, 'test-agent').geocode('Kamakura');
+
+    expect(result).toEqual({ lat: 35.3192, lng: 139.5467, name: 'Kamakura, Kanagawa, Japan', source: 'http' });
+    const requestUrl = new URL(lastRequest?.url || '', url);
+    expect(requestUrl.pathname).toBe('/search');
+    expect(Object.fromEntries(requestUrl.searchParams)).toEqual({ q: 'Kamakura', format: 'jsonv2', limit: '1' });
+    expect(lastRequest?.headers['user-agent']).toBe('test-agent');
+  });
+
+  it('names the place after the query when the response has no display name', async () => {
+    respond([{ lat: '35.3192', lon: '139.5467' }]);
+
+    expect(await new HttpGeocoder(url).geocode('Kamakura')).toMatchObject({ name: 'Kamakura' });
+  });
+
+  it.each<[string, unknown]>([
+    ['no places', []],
+    ['an object instead of a list', { lat: '35.3192', lon: '139.5467' }],
+    ['a place without coordinates', [{ display_name: 'Kamakura' }]],
+    ['coordinates that are not strings', [{ lat: 35.3192, lon: null }]],
+    ['coordinates that are not numbers', [{ lat: 'north', lon: 'east' }]],
+    ['a list of something else', ['Kamakura']],
+  ])('finds nothing in a response with %s', async (_name, body) => {
+    respond(body);
+
+    expect(await new HttpGeocoder(url).geocode('Kamakura')).toBeNull();
+  });
+
+  it('fails on an HTTP error', async () => {
+    respond({ error: 'Service unavailable' }, 503);
+
+    await expect(new HttpGeocoder(url).geocode('Kamakura')).rejects.toThrow('HTTP 503');
+  });
+
+  it('fails on a response that is not JSON', async () => {
+    respond('<html>Bad gateway</html>');
+
+    await expect(new HttpGeocoder(url).geocode('Kamakura')).rejects.toThrow();
+  });
+});
+
+describe('GazetteerGeocoder', () => {
+  const geocoder = new GazetteerGeocoder();
+
+  it.each([
+    ['Osaka', 'Osaka', 34.6937, 135.5023],
+    ['京都駅', 'Kyoto Station', 34.9858, 135.7588],
+    ['Kyoto station', 'Kyoto Station', 34.9858, 135.7588],
+    ['Gion, Kyoto', 'Gion', 35.0037, 135.7788],
+    ['大阪市', 'Osaka', 34.6937, 135.5023],
+  ])('resolves "%s" to %s', async (query, name, lat, lng) => {
+    expect(await geocoder.geocode(query)).toEqual({ lat, lng, name, source: 'gazetteer' });
+  });
+
+  it('finds nothing for places outside Japan', async () => {
+    expect(await geocoder.geocode('Singapore')).toBeNull();
+  });
+});
+
+describe('ChainGeocoder', () => {
+  const place = (name: string): GeocodeResult => ({ lat: 1, lng: 2, name, source: name });
+  const geocoder = (name: string, result: GeocodeResult | null | Error, suggestions: string[] = []): Geocoder => ({
+    name,
+    geocode: async () => {
+      if (result instanceof Error) {
+        throw result;
+      }
+      return result;
+    },
+    suggest: (_query, limit) => suggestions.slice(0, limit),
+  });
+
+  it('returns the first geocoder\'s match without asking the rest', async () => {
+    const second = geocoder('second', place('second'));
+    const geocode = jest.spyOn(second, 'geocode');
+
+    const result = await new ChainGeocoder([geocoder('first', place('first')), second]).geocode('Osaka');
+
+    expect(result.source).toBe('first');
+    expect(geocode).not.toHaveBeenCalled();
+  });
+
+  it('falls through geocoders that find nothing or fail', async () => {
+    const chain = new ChainGeocoder([
+      geocoder('empty', null),
+      geocoder('broken', new Error('Geocoding request failed: HTTP 503')),
+      geocoder('last', place('last')),
+    ]);
+
+    expect(await chain.geocode('Osaka')).toMatchObject({ source: 'last' });
+  });
+
+  it('suggests names from every geocoder once each when nothing matches', async () => {
+    const chain = new ChainGeocoder([
+      geocoder('first', null, ['Shinjuku', 'Shibuya']),
+      geocoder('second', new Error('offline'), ['shinjuku', 'Shin-Okubo']),
+    ]);
+
+    const error = await chain.geocode('Shinjk').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LocationNotFoundError);
+    expect(error.suggestions).toEqual(['Shinjuku', 'Shibuya', 'Shin-Okubo']);
+    expect(error.message).toBe('Could not resolve location "Shinjk". Did you mean: Shinjuku, Shibuya, Shin-Okubo?');
+  });
+});
+
+describe('default geocoder', () => {
+  it('suggests close names for a misspelled place', async () => {
+    const error = await createDefaultGeocoder().geocode('Shinjku').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LocationNotFoundError);
+    expect(error.code).toBe('not_found');
+    expect(error.suggestions[0]).toBe('Shinjuku');
+    expect(error.message).toContain('Did you mean: Shinjuku');
+  });
+
+  it('reports places it does not know as not found instead of falling back to Tokyo', async () => {
+    await expect(resolveLocation('Singapore')).rejects.toMatchObject({
+      name: 'LocationNotFoundError',
+      code: 'not_found',
+      message: expect.stringMatching(/^Could not resolve location "Singapore"/),
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { HttpClient } from '../../src/services/http-client.js';
+import { TableCheckError } from '../../src/services/errors.js';
+
+describe('HttpClient', () => {
+  let server: Server;
+  let url: string;
+
+  // Sends the headers and part of the body, then stalls
+  beforeAll(async () => {
+    server = createServer((_request, response) => {
+      response.writeHead(200, { 'content-type': 'application/json' });
+      response.write('{"shops": [');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('times out when the body stalls after the headers', async () => {
+    const client = new HttpClient({ timeoutMs: 200, maxRetries: 0 });
+
+    const request = client.requestJson(url);
+
+    await expect(request).rejects.toBeInstanceOf(TableCheckError);
+    await expect(request).rejects.toMatchObject({ code: 'timeout' });
+  });
+});
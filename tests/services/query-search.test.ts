@@ -0,0 +1,88 @@
+import { copyFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { CONFIG } from '../../src/config/constants.js';
+import { TableCheckService } from '../../src/services/tablecheck.js';
+import { ResponseCache } from '../../src/services/cache.js';
+import { HttpClient } from '../../src/services/http-client.js';
+import { startMockTableCheckApi, MockTableCheckApi } from '../../src/mock/tablecheck-api.js';
+import { RestaurantResult, SearchParams } from '../../src/types/index.js';
+
+// Shops whose names match "french": two also serve French food, three do not
+const NAME_MATCHES = ['fierte', 'ormarcassin', 'ishi', 'peknikova', 'mi-casa'];
+
+/**
+ * Writes the recorded fixtures with autocomplete answering "french" with the
+ * name matches above
+ */
+const writeQueryFixtures = (dir: string): string[] => {
+  ['cuisines.json', 'availability_calendar.json', 'search.json'].forEach(name => {
+    copyFileSync(path.resolve('assets', name), path.join(dir, name));
+  });
+  writeFileSync(path.join(dir, 'autocomplete.json'), JSON.stringify({
+    cuisines: [],
+    shops: NAME_MATCHES.map(slug => ({ text: `French ${slug}`, type: 'shops', payload: { shop_slug: slug } })),
+  }));
+
+  const search = JSON.parse(readFileSync(path.resolve('assets', 'search.json'), 'utf8'));
+  return search.shops
+    .filter((shop: { cuisines?: string[] }) => (shop.cuisines || []).some(cuisine => cuisine.includes('french')))
+    .map((shop: { slug: string }) => shop.slug);
+};
+
+describe('text query searches', () => {
+  const originalBaseUrl = CONFIG.API_BASE_URL;
+  let dir: string;
+  let cuisineMatches: string[];
+  let api: MockTableCheckApi;
+
+  const searchAllPages = async (params: SearchParams) => {
+    const tableCheckService = new TableCheckService(new ResponseCache(), new HttpClient());
+    const pages: RestaurantResult[][] = [];
+    const recordCounts: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await tableCheckService.searchRestaurants({ ...params, cursor });
+      pages.push(page.restaurants);
+      recordCounts.push(page.record_count);
+      cursor = page.next_cursor;
+    } while (cursor);
+    return { pages, restaurants: pages.flat(), recordCounts };
+  };
+
+  beforeAll(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'tablecheck-fixtures-'));
+    cuisineMatches = writeQueryFixtures(dir);
+    api = await startMockTableCheckApi({ port: 0, fixturesDir: dir });
+    CONFIG.API_BASE_URL = api.url;
+  });
+
+  afterAll(async () => {
+    CONFIG.API_BASE_URL = originalBaseUrl;
+    await api?.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('counts name and cuisine matches the same way on every page, and fills pages without overfilling them', async () => {
+    const expected = new Set([...NAME_MATCHES, ...cuisineMatches]);
+
+    const { pages, restaurants, recordCounts } = await searchAllPages({ query: 'french', page_size: 4 });
+
+    expect(new Set(restaurants.map(restaurant => restaurant.slug))).toEqual(expected);
+    expect(restaurants).toHaveLength(expected.size);
+    expect(recordCounts).toEqual(pages.map(() => expected.size));
+    pages.forEach(page => expect(page.length).toBeLessThanOrEqual(4));
+    pages.slice(0, -1).forEach(page => expect(page).toHaveLength(4));
+  });
+
+  it('says how each restaurant matched', async () => {
+    const { restaurants } = await searchAllPages({ query: 'french', page_size: 4 });
+    const matchedBy = Object.fromEntries(restaurants.map(restaurant => [restaurant.slug, restaurant.matched_by]));
+
+    expect(matchedBy).toMatchObject({
+      fierte: ['name', 'cuisine'],
+      ishi: ['name'],
+      'the-harbor-terrace': ['cuisine'],
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { scoreRelevance } from '../../src/services/ranking.js';
+import { RestaurantResult } from '../../src/types/index.js';
+
+const restaurant = (tags: string[]): RestaurantResult => ({
+  id: 'shop',
+  name: 'Shop',
+  slug: 'shop',
+  cuisine: ['sushi'],
+  location: { lat: null, lng: null },
+  currency: 'JPY',
+  lunch_price_range: { currency: 'JPY' },
+  dinner_price_range: { currency: 'JPY' },
+  available_dates: [],
+  tags,
+  reservation_url: 'https://www.tablecheck.com/en/shop',
+});
+
+const tagFactor = (query: string) => {
+  return scoreRelevance(restaurant(['quiet', 'romantic']), { query }).components.find(component => component.factor === 'tags');
+};
+
+describe('scoreRelevance wanted tags', () => {
+  it('picks up tags the query names as whole words', () => {
+    expect(tagFactor('quiet sushi')?.reason).toContain('(quiet)');
+    expect(tagFactor('Romantic dinner')?.reason).toContain('(romantic)');
+  });
+
+  it('matches multi-word tag names and IDs', () => {
+    expect(tagFactor('sushi with all you can drink')?.reason).toContain('all-drink');
+    expect(tagFactor('all-drink izakaya')?.reason).toContain('all-drink');
+  });
+
+  it('matches tag names in languages written without spaces', () => {
+    expect(tagFactor('落ち着いた雰囲気の寿司')?.reason).toContain('(quiet)');
+  });
+
+  it('does not match tags inside longer words', () => {
+    expect(tagFactor('quietness')).toBeUndefined();
+    expect(tagFactor('kidsmenu bistro')).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  ResponseParser,
+  checkShopSearchResponse,
+  checkAutocompleteResponse,
+  checkCuisinesResponse,
+  checkAvailabilityCalendarResponse,
+} from '../../src/services/response-schemas.js';
+
+const fixture = (name: string): any => JSON.parse(readFileSync(path.resolve('assets', name), 'utf8'));
+
+describe('response schemas on the recorded fixtures', () => {
+  it.each<[string, ResponseParser<unknown>]>([
+    ['search.json', checkShopSearchResponse],
+    ['search_empty.json', checkShopSearchResponse],
+    ['autocomplete.json', checkAutocompleteResponse],
+    ['cuisines.json', checkCuisinesResponse],
+    ['availability_calendar.json', checkAvailabilityCalendarResponse],
+  ])('parses %s without dropping records', (name, parse) => {
+    expect(parse(fixture(name)).dropped).toEqual([]);
+  });
+
+  it('keeps every shop and the paging details of a search', () => {
+    const data = fixture('search.json');
+    const { value } = checkShopSearchResponse(data);
+
+    expect(value.shops).toHaveLength(data.shops.length);
+    expect(value.shops[0]).toMatchObject({ slug: data.shops[0].slug, cuisines: data.shops[0].cuisines });
+    if (data.meta) {
+      expect(value.meta?.record_count).toBe(data.meta.record_count);
+    }
+  });
+
+  it('keeps every autocomplete shop and cuisine', () => {
+    const data = fixture('autocomplete.json');
+    const { value } = checkAutocompleteResponse(data);
+
+    expect(value.shops).toHaveLength(data.shops.length);
+    expect(value.cuisines).toHaveLength(data.cuisines.length);
+  });
+
+  it('keeps every cuisine with its translations', () => {
+    const data = fixture('cuisines.json');
+    const { value } = checkCuisinesResponse(data);
+
+    expect(value.cuisines).toHaveLength(data.cuisines.length);
+    value.cuisines.forEach(cuisine => expect(cuisine.text_translations.length).toBeGreaterThan(0));
+  });
+
+  it('keeps every slot of the availability calendar', () => {
+    const data = fixture('availability_calendar.json');
+    const { value } = checkAvailabilityCalendarResponse(data);
+    const slots = (days: Record<string, Record<string, unknown>>) =>
+      Object.values(days).reduce((count, times) => count + Object.keys(times).length, 0);
+
+    expect(slots(value.availability_calendar.data)).toBe(slots(data.availability_calendar.data));
+  });
+
+  it('drops a malformed shop and reports it', () => {
+    const data = fixture('search.json');
+    const { value, dropped } = checkShopSearchResponse({ ...data, shops: [...data.shops, { name: ['No slug'] }] });
+
+    expect(value.shops).toHaveLength(data.shops.length);
+    expect(dropped).toHaveLength(1);
+  });
+});
@@ -0,0 +1,80 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { mergeSearchResults } from '../../src/services/search-merge.js';
+import { checkShopSearchResponse, checkAutocompleteResponse } from '../../src/services/response-schemas.js';
+import { RestaurantResult } from '../../src/types/index.js';
+
+const fixture = (name: string): unknown => JSON.parse(readFileSync(path.resolve('assets', name), 'utf8'));
+
+const result = (fields: Partial<RestaurantResult> & { slug: string }): RestaurantResult => ({
+  id: fields.slug,
+  name: fields.slug,
+  cuisine: [],
+  location: { lat: null, lng: null },
+  currency: 'JPY',
+  lunch_price_range: { currency: 'JPY' },
+  dinner_price_range: { currency: 'JPY' },
+  available_dates: [],
+  tags: [],
+  reservation_url: `https://www.tablecheck.com/en/${fields.slug}`,
+  ...fields,
+});
+
+// Name matches as autocomplete returns them: names and slugs, without availability
+const nameMatches = checkAutocompleteResponse(fixture('autocomplete.json')).value.shops.map(shop =>
+  result({ slug: shop.payload.shop_slug, name: shop.text, cuisine: shop.cuisines })
+);
+
+// Cuisine matches as shop search returns them, with availability and coordinates
+const cuisineMatches = checkShopSearchResponse(fixture('search.json')).value.shops.map(shop =>
+  result({
+    slug: shop.slug,
+    name: shop.name[shop.name.length - 1],
+    cuisine: shop.cuisines,
+    price_avg: shop.budget_avg,
+    location: { lat: shop.geocode?.lat ?? null, lng: shop.geocode?.lon ?? null },
+    available_dates: shop.availability,
+  })
+);
+
+const slugs = (results: RestaurantResult[]) => results.map(restaurant => restaurant.slug);
+
+describe('mergeSearchResults', () => {
+  it('lists name matches first, then cuisine matches, each in their own order', () => {
+    const merged = mergeSearchResults(nameMatches, cuisineMatches, {});
+
+    expect(slugs(merged)).toEqual([...slugs(nameMatches), ...slugs(cuisineMatches)]);
+    merged.slice(0, nameMatches.length).forEach(restaurant => expect(restaurant.matched_by).toEqual(['name']));
+    merged.slice(nameMatches.length).forEach(restaurant => expect(restaurant.matched_by).toEqual(['cuisine']));
+  });
+
+  it('keeps one record for a restaurant found by both searches, at its name match position', () => {
+    const fierte = cuisineMatches.find(restaurant => restaurant.slug === 'fierte') as RestaurantResult;
+    const names = [nameMatches[0], result({ slug: 'fierte', name: 'Fierté' }), ...nameMatches.slice(1)];
+
+    const merged = mergeSearchResults(names, cuisineMatches, {});
+
+    expect(merged).toHaveLength(names.length + cuisineMatches.length - 1);
+    expect(slugs(merged).filter(slug => slug === 'fierte')).toHaveLength(1);
+    expect(merged[1].slug).toBe('fierte');
+    expect(merged[1].matched_by).toEqual(['name', 'cuisine']);
+    // The shop search record has more data, so it is the one kept
+    expect(merged[1].available_dates).toEqual(fierte.available_dates);
+    expect(merged[1].name).toBe(fierte.name);
+  });
+
+  it('collapses a restaurant listed twice by one search', () => {
+    const merged = mergeSearchResults([...nameMatches, nameMatches[0]], [...cuisineMatches, cuisineMatches[0]], {});
+
+    expect(merged).toHaveLength(nameMatches.length + cuisineMatches.length);
+    expect(new Set(slugs(merged)).size).toBe(merged.length);
+  });
+
+  it('sorts the merged list by price, with unpriced name matches last', () => {
+    const merged = mergeSearchResults(nameMatches, cuisineMatches, { sort_by: 'price', sort_order: 'desc' });
+    const prices = merged.map(restaurant => restaurant.price_avg).filter((price): price is number => price !== undefined);
+
+    expect(prices).toEqual([...prices].sort((a, b) => b - a));
+    expect(slugs(merged.slice(-nameMatches.length))).toEqual(slugs(nameMatches));
+  });
+});
@@ -0,0 +1,97 @@
+import { copyFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { CONFIG } from '../../src/config/constants.js';
+import { TableCheckService } from '../../src/services/tablecheck.js';
+import { ResponseCache } from '../../src/services/cache.js';
+import { HttpClient } from '../../src/services/http-client.js';
+import { startMockTableCheckApi, MockTableCheckApi } from '../../src/mock/tablecheck-api.js';
+import { validateSearchParams } from '../../src/utils/validation.js';
+import { RestaurantResult, SearchParams } from '../../src/types/index.js';
+
+// Name matches for "tagtest", which names no cuisine; the API returns them unfiltered by tag
+const NAME_MATCHES: Record<string, string[]> = {
+  'tagtest-quiet-romantic': ['quiet', 'romantic'],
+  'tagtest-quiet': ['quiet'],
+  'tagtest-romantic-smokefree': ['romantic', 'smokefree'],
+  'tagtest-untagged': [],
+};
+
+/**
+ * Writes the recorded fixtures with autocomplete answering "tagtest" with the
+ * tagged name matches above
+ */
+const writeTagFixtures = (dir: string): { slug: string, tags: string[] }[] => {
+  ['cuisines.json', 'availability_calendar.json', 'search.json'].forEach(name => {
+    copyFileSync(path.resolve('assets', name), path.join(dir, name));
+  });
+  writeFileSync(path.join(dir, 'autocomplete.json'), JSON.stringify({
+    cuisines: [],
+    shops: Object.entries(NAME_MATCHES).map(([slug, tags]) => ({ text: `Tagtest ${slug}`, type: 'shops', tags, payload: { shop_slug: slug } })),
+  }));
+
+  const search = JSON.parse(readFileSync(path.resolve('assets', 'search.json'), 'utf8'));
+  return search.shops.map((shop: { slug: string, tags?: string[] }) => ({ slug: shop.slug, tags: shop.tags || [] }));
+};
+
+describe('tag filters', () => {
+  const originalBaseUrl = CONFIG.API_BASE_URL;
+  let dir: string;
+  let shops: { slug: string, tags: string[] }[];
+  let api: MockTableCheckApi;
+
+  const searchAllPages = async (params: SearchParams): Promise<RestaurantResult[]> => {
+    const tableCheckService = new TableCheckService(new ResponseCache(), new HttpClient());
+    const restaurants: RestaurantResult[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await tableCheckService.searchRestaurants({ ...params, cursor });
+      restaurants.push(...page.restaurants);
+      cursor = page.next_cursor;
+    } while (cursor);
+    return restaurants;
+  };
+
+  const slugs = (restaurants: RestaurantResult[]) => restaurants.map(restaurant => restaurant.slug).sort();
+
+  beforeAll(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'tablecheck-fixtures-'));
+    shops = writeTagFixtures(dir);
+    api = await startMockTableCheckApi({ port: 0, fixturesDir: dir });
+    CONFIG.API_BASE_URL = api.url;
+  });
+
+  afterAll(async () => {
+    CONFIG.API_BASE_URL = originalBaseUrl;
+    await api?.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it.each<[string, SearchParams, string[]]>([
+    ['one tag', { tags: ['romantic'] }, ['tagtest-quiet-romantic', 'tagtest-romantic-smokefree']],
+    ['every one of several tags', { tags: ['quiet', 'romantic'] }, ['tagtest-quiet-romantic']],
+    ['none of the excluded tags', { exclude_tags: ['romantic'] }, ['tagtest-quiet', 'tagtest-untagged']],
+    ['included tags without excluded ones', { tags: ['romantic'], exclude_tags: ['smokefree'] }, ['tagtest-quiet-romantic']],
+  ])('keeps name matches with %s', async (_name, filters, expected) => {
+    const restaurants = await searchAllPages({ query: 'tagtest', ...filters });
+
+    expect(slugs(restaurants)).toEqual(expected);
+  });
+
+  it('combines included and excluded tags in a search by location', async () => {
+    const expected = shops
+      .filter(shop => shop.tags.includes('quiet') && !shop.tags.includes('smokefree'))
+      .map(shop => shop.slug)
+      .sort();
+
+    const restaurants = await searchAllPages({ location: CONFIG.DEFAULT_LOCATION, tags: ['quiet'], exclude_tags: ['smokefree'], page_size: 5 });
+
+    expect(expected.length).toBeGreaterThan(0);
+    expect(slugs(restaurants)).toEqual(expected);
+  });
+
+  it('rejects tags it does not know', () => {
+    expect(() => validateSearchParams({ tags: ['quiet', 'cosy'] })).toThrow('Unknown tags: cosy');
+    expect(() => validateSearchParams({ exclude_tags: ['loud'] })).toThrow('Unknown exclude_tags: loud');
+  });
+});
@@ -0,0 +1,194 @@
+import { jest } from '@jest/globals';
+import { MemoryWatchStore, WatchPoller, WatchService, startWatchPoller } from '../../src/services/watches.js';
+import { TableCheckService } from '../../src/services/tablecheck.js';
+import { ManualClock, ManualScheduler } from '../../src/services/clock.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { handleCreateAvailabilityWatch, handleListAvailabilityWatches, handleDeleteAvailabilityWatch } from '../../src/handlers/watches.js';
+import { getOwnerId } from '../../src/auth/verifiers.js';
+import { AvailabilityCalendar, CreateWatchParams } from '../../src/types/index.js';
+
+const params: CreateWatchParams = { shop_id: 'fierte', date: '2026-12-01', num_people: 2 };
+
+describe('WatchService ownership', () => {
+  let watchService: WatchService;
+
+  beforeEach(() => {
+    watchService = new WatchService(new MemoryWatchStore(), new TableCheckService());
+  });
+
+  it('records the client that created a watch', async () => {
+    const watch = await watchService.create(params, 'client-a');
+
+    expect(watch.owner_id).toBe('client-a');
+    expect(await watchService.get(watch.id, 'client-a')).toMatchObject({ id: watch.id });
+  });
+
+  it("hides a client's watches from other clients and from unauthenticated calls", async () => {
+    const watch = await watchService.create(params, 'client-a');
+    const anonymous = await watchService.create(params, undefined);
+
+    expect((await watchService.list('client-a')).map(listed => listed.id)).toEqual([watch.id]);
+    expect(await watchService.list('client-b')).toEqual([]);
+    expect((await watchService.list(undefined)).map(listed => listed.id)).toEqual([anonymous.id]);
+    expect(await watchService.get(watch.id, 'client-b')).toBeUndefined();
+    expect(await watchService.get(watch.id, undefined)).toBeUndefined();
+  });
+
+  it("does not let a client delete another client's watch", async () => {
+    const watch = await watchService.create(params, 'client-a');
+
+    expect(await watchService.delete(watch.id, 'client-b')).toBe(false);
+    expect(await watchService.get(watch.id, 'client-a')).toBeDefined();
+    expect(await watchService.delete(watch.id, 'client-a')).toBe(true);
+  });
+
+  it('passes the calling client through the watch tools', async () => {
+    const watch = await watchService.create(params, 'client-a');
+
+    const listed = await handleListAvailabilityWatches(watchService, {}, { ownerId: 'client-b' });
+    const deleted = await handleDeleteAvailabilityWatch(watchService, { watch_id: watch.id }, { ownerId: 'client-b' });
+
+    expect(listed).toMatchObject({ structuredContent: { watches: [] } });
+    expect(deleted).toMatchObject({ isError: true, _meta: { error: { code: 'not_found' } } });
+    expect(await watchService.get(watch.id, 'client-a')).toBeDefined();
+  });
+
+  it('keeps the watches of two users of one OAuth client apart', async () => {
+    const auth = (subject: string): AuthInfo => ({ token: subject, clientId: 'app', scopes: [], extra: { subject } });
+    const alice = { ownerId: getOwnerId(auth('alice')) };
+    const bob = { ownerId: getOwnerId(auth('bob')) };
+    const created = await handleCreateAvailabilityWatch(watchService, params, alice);
+    const [watch] = await watchService.list(alice.ownerId);
+
+    const listed = await handleListAvailabilityWatches(watchService, {}, bob);
+    const deleted = await handleDeleteAvailabilityWatch(watchService, { watch_id: watch.id }, bob);
+
+    expect(created).toMatchObject({ structuredContent: { watch: { id: watch.id, owner_id: 'app:alice' } } });
+    expect(listed).toMatchObject({ structuredContent: { watches: [] } });
+    expect(deleted).toMatchObject({ isError: true, _meta: { error: { code: 'not_found' } } });
+    expect(await handleListAvailabilityWatches(watchService, {}, alice)).toMatchObject({ structuredContent: { watches: [{ id: watch.id }] } });
+  });
+
+  it('writes the watch tools\' text in the requested language', async () => {
+    const watch = await watchService.create({ ...params, time_from: '18:00' }, 'client-a');
+
+    const listed = await handleListAvailabilityWatches(watchService, { locale: 'ja' }, { ownerId: 'client-a' });
+    const deleted = await handleDeleteAvailabilityWatch(watchService, { watch_id: watch.id, locale: 'ja' }, { ownerId: 'client-a' });
+
+    expect(listed).toMatchObject({ content: [{ text: expect.stringContaining('空席の監視一覧（全1件）') }] });
+    expect(listed).toMatchObject({ content: [{ text: expect.stringContaining('18:00-閉店, 2名') }] });
+    expect(deleted).toMatchObject({ content: [{ text: `空席の監視 ${watch.id} を削除しました。` }] });
+  });
+});
+
+describe('WatchPoller', () => {
+  const intervalMs = 5 * 60 * 1000;
+  const calendar: AvailabilityCalendar = {
+    shop_id: 'fierte',
+    time_zone: 'Asia/Tokyo',
+    closed_dates: [],
+    slots: [{ date: '2026-12-01', time: '2026-12-01T19:00:00+09:00', available: false, party_size: 2 }],
+  };
+
+  let clock: ManualClock;
+  let scheduler: ManualScheduler;
+  let tableCheckService: TableCheckService;
+  let getAvailabilityCalendar: jest.SpiedFunction<TableCheckService['getAvailabilityCalendar']>;
+  let watchService: WatchService;
+  let poller: WatchPoller;
+
+  // Lets a check started by the scheduler finish
+  const settle = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    clock = new ManualClock(Date.parse('2026-11-30T00:00:00Z'));
+    scheduler = new ManualScheduler(clock);
+    tableCheckService = new TableCheckService();
+    getAvailabilityCalendar = jest.spyOn(tableCheckService, 'getAvailabilityCalendar').mockResolvedValue(calendar);
+    watchService = new WatchService(new MemoryWatchStore(), tableCheckService, clock);
+    poller = new WatchPoller(watchService, intervalMs, scheduler);
+  });
+
+  afterEach(async () => {
+    await poller.stop();
+  });
+
+  it('checks active watches once per interval', async () => {
+    const watch = await watchService.create(params, 'client-a');
+    poller.start();
+
+    scheduler.advance(intervalMs - 1);
+    await settle();
+    expect(getAvailabilityCalendar).not.toHaveBeenCalled();
+
+    scheduler.advance(1);
+    await settle();
+    expect(getAvailabilityCalendar).toHaveBeenCalledTimes(1);
+
+    scheduler.advance(intervalMs);
+    await settle();
+    expect(getAvailabilityCalendar).toHaveBeenCalledTimes(2);
+    expect(await watchService.get(watch.id, 'client-a')).toMatchObject({ status: 'active', checks: 2 });
+  });
+
+  it('only starts one timer however often it is started', async () => {
+    await watchService.create(params, 'client-a');
+    poller.start();
+    poller.start();
+
+    scheduler.advance(intervalMs);
+    await settle();
+
+    expect(getAvailabilityCalendar).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops checking once stopped', async () => {
+    await watchService.create(params, 'client-a');
+    poller.start();
+    await poller.stop();
+
+    scheduler.advance(intervalMs * 3);
+    await settle();
+
+    expect(getAvailabilityCalendar).not.toHaveBeenCalled();
+  });
+
+  it('marks a watch as matched when a slot opens up in its time window', async () => {
+    const watch = await watchService.create({ ...params, time_from: '18:00', time_to: '20:00' }, 'client-a');
+    poller.start();
+
+    getAvailabilityCalendar.mockResolvedValue({ ...calendar, slots: [{ ...calendar.slots[0], available: true }] });
+    scheduler.advance(intervalMs);
+    await settle();
+
+    expect(await watchService.get(watch.id, 'client-a')).toMatchObject({
+      status: 'matched',
+      matched_at: new Date(clock.now()).toISOString(),
+      matched_slots: ['2026-12-01T19:00:00+09:00'],
+    });
+  });
+
+  it("expires a watch once its date has passed in the restaurant's time zone", async () => {
+    const watch = await watchService.create(params, 'client-a');
+    poller.start();
+
+    // 15:00 UTC on the watched date is midnight of the next day in Tokyo
+    clock.set('2026-12-01T15:00:00Z');
+    scheduler.advance(intervalMs);
+    await settle();
+
+    expect(await watchService.get(watch.id, 'client-a')).toMatchObject({ status: 'expired', checks: 0 });
+    expect(getAvailabilityCalendar).not.toHaveBeenCalled();
+
+    scheduler.advance(intervalMs);
+    await settle();
+    expect(getAvailabilityCalendar).not.toHaveBeenCalled();
+  });
+
+  it('runs a single shared poller per process', async () => {
+    const shared = startWatchPoller(watchService);
+
+    expect(startWatchPoller(new WatchService(new MemoryWatchStore(), tableCheckService, clock))).toBe(shared);
+    await shared.stop();
+  });
+});
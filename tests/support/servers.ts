@@ -0,0 +1,131 @@
+import { spawn, ChildProcess } from 'child_process';
+import { createServer } from 'net';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+
+/**************************
+ * Starts the MCP server the way clients run it, over stdio or HTTP, pointed at
+ * the mock TableCheck API
+**************************/
+
+export type TransportName = 'stdio' | 'http';
+
+export interface RunningServer {
+  client: Client;
+  close(): Promise<void>;
+}
+
+const ROOT = path.resolve(process.cwd());
+
+// Sources are run with tsx, as `npm run dev` does
+const TSX_ARGS = ['--import', 'tsx'];
+
+/**
+ * Environment for a server using the mock API, with watches in memory and
+ * only errors logged (the server's stderr is not shown)
+ */
+export const serverEnv = (apiUrl: string, extra: Record<string, string> = {}): Record<string, string> => ({
+  PATH: process.env.PATH || '',
+  HOME: process.env.HOME || '',
+  TABLECHECK_API_BASE_URL: apiUrl,
+  WATCH_STORE: 'memory',
+  LOG_LEVEL: 'error',
+  ...extra,
+});
+
+const freePort = (): Promise<number> => new Promise((resolve, reject) => {
+  const server = createServer();
+  server.once('error', reject);
+  server.listen(0, '127.0.0.1', () => {
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : 0;
+    server.close(() => resolve(port));
+  });
+});
+
+/**
+ * Waits until the HTTP server answers its health check
+ */
+const waitForHealth = async (url: string, child: ChildProcess, timeoutMs = 20000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      throw new Error(`Server exited with code ${child.exitCode}`);
+    }
+    try {
+      const response = await fetch(`${url}/health`);
+      if (response.ok) {
+        return;
+      }
+    } catch (error) {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+  throw new Error(`Server at ${url} did not become healthy within ${timeoutMs}ms`);
+};
+
+/**
+ * Spawns the HTTP server (src/server.ts) on a free port
+ * @param env Server environment
+ * @returns Base URL and a function that stops the server
+ */
+export const startHttpServer = async (env: Record<string, string>): Promise<{ url: string, stop(): Promise<void> }> => {
+  const port = await freePort();
+  const child = spawn(process.execPath, [...TSX_ARGS, 'src/server.ts'], {
+    cwd: ROOT,
+    env: { ...env, PORT: String(port), HOST: '127.0.0.1' },
+    stdio: 'ignore',
+  });
+  const url = `http://127.0.0.1:${port}`;
+
+  const stop = () => new Promise<void>(resolve => {
+    if (child.exitCode !== null) {
+      resolve();
+      return;
+    }
+    child.once('exit', () => resolve());
+    child.kill('SIGTERM');
+  });
+
+  try {
+    await waitForHealth(url, child);
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+  return { url, stop };
+};
+
+/**
+ * Starts the MCP server over a transport and connects a client to it
+ * @param transport stdio (src/index.ts as a child process) or http (src/server.ts)
+ * @param env Server environment
+ * @returns Connected client and a function that shuts everything down
+ */
+export const startMcpServer = async (transport: TransportName, env: Record<string, string>): Promise<RunningServer> => {
+  const client = new Client({ name: 'tablecheck-mcp-tests', version: '1.0.0' });
+
+  if (transport === 'stdio') {
+    await client.connect(new StdioClientTransport({
+      command: process.execPath,
+      args: [...TSX_ARGS, 'src/index.ts'],
+      cwd: ROOT,
+      env,
+      stderr: 'ignore',
+    }));
+    return { client, close: () => client.close() };
+  }
+
+  const server = await startHttpServer(env);
+  await client.connect(new StreamableHTTPClientTransport(new URL(`${server.url}/mcp`)));
+  return {
+    client,
+    close: async () => {
+      await client.close();
+      await server.stop();
+    },
+  };
+};
@@ -0,0 +1,28 @@
+import { convertBudget } from '../../src/utils/currency.js';
+import { ExchangeRates } from '../../src/types/index.js';
+
+const rates: ExchangeRates = { base: 'USD', updated_at: '2026-10-01', rates: { USD: 1, JPY: 149.5, SGD: 1.29 } };
+
+describe('convertBudget', () => {
+  it('converts the budget to the target currency, rounding outwards', () => {
+    const params = convertBudget({ currency: 'USD', budget_min: 30.5, budget_max: 60.1 }, 'JPY', rates);
+
+    expect(params.budget_min).toBe(4559);
+    expect(params.budget_max).toBe(8985);
+    expect(params.currency).toBe('USD');
+  });
+
+  it('leaves a missing budget bound out', () => {
+    const params = convertBudget({ currency: 'SGD', budget_max: 100 }, 'JPY', rates);
+
+    expect(params.budget_min).toBeUndefined();
+    expect(params.budget_max).toBe(Math.ceil(100 * 149.5 / 1.29));
+  });
+
+  it('drops the budget when there is no rate for its currency', () => {
+    const params = convertBudget({ currency: 'EUR', budget_min: 20, budget_max: 50 }, 'JPY', rates);
+
+    expect(params.budget_min).toBeUndefined();
+    expect(params.budget_max).toBeUndefined();
+  });
+});
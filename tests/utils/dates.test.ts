@@ -0,0 +1,41 @@
+import dayjs from 'dayjs';
+import { formatCalendarDate, formatLocalDateTime, resolveStartAt } from '../../src/utils/dates.js';
+
+describe('resolveStartAt', () => {
+  const now = dayjs('2026-07-15T03:00:00Z');
+
+  it('starts a date at midnight in the restaurant\'s time zone', () => {
+    expect(resolveStartAt('2026-07-20', 'Asia/Tokyo', 'Asia/Singapore', now)).toEqual({ start_at: '2026-07-20T00:00:00+08:00', date: '2026-07-20' });
+    expect(resolveStartAt('2026-07-20', 'Asia/Tokyo', 'Europe/London', now).start_at).toBe('2026-07-20T00:00:00+01:00');
+  });
+
+  it('defaults to the default shop time zone', () => {
+    expect(resolveStartAt('2026-07-20', 'America/New_York', undefined, now).start_at).toBe('2026-07-20T00:00:00+09:00');
+  });
+
+  it('counts relative days from the requester\'s date and starts them at the restaurant', () => {
+    // Still 14 July in New York
+    expect(resolveStartAt('tomorrow', 'America/New_York', 'Europe/London', now)).toMatchObject({ start_at: '2026-07-15T00:00:00+01:00', date: '2026-07-15' });
+    expect(resolveStartAt('+2d', 'Asia/Tokyo', 'Europe/London', now)).toMatchObject({ start_at: '2026-07-17T00:00:00+01:00', date: '2026-07-17' });
+  });
+
+  it('reads times without an offset in the requester\'s time zone', () => {
+    expect(resolveStartAt('2026-07-20T19:00', 'America/New_York', 'Europe/London', now).start_at).toBe('2026-07-20T19:00:00-04:00');
+  });
+});
+
+describe('formatCalendarDate and formatLocalDateTime', () => {
+  it.each([
+    ['en', 'Wed 15 Jul 2026', 'Wed 15 Jul, 19:30'],
+    ['ja', '水 15 7月 2026', '水 15 7月, 19:30'],
+    ['zh-TW', '週三 15 7月 2026', '週三 15 7月, 19:30'],
+    ['fr', 'mer. 15 juil. 2026', 'mer. 15 juil., 19:30'],
+  ])('names days and months in %s', (locale, date, dateTime) => {
+    expect(formatCalendarDate('2026-07-15', locale)).toBe(date);
+    expect(formatLocalDateTime('2026-07-15T10:30:00Z', 'Asia/Tokyo', locale)).toBe(dateTime);
+  });
+
+  it('defaults to English', () => {
+    expect(formatCalendarDate('2026-07-15')).toBe('Wed 15 Jul 2026');
+  });
+});
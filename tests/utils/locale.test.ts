@@ -0,0 +1,20 @@
+import { MESSAGES } from '../../src/config/messages.js';
+import { t } from '../../src/utils/locale.js';
+
+const placeholders = (template: string): string[] => Array.from(template.matchAll(/\{(\w+)\}/g), match => match[1]).sort();
+
+describe('tool output messages', () => {
+  it.each(Object.keys(MESSAGES).filter(locale => locale !== 'en'))('translates every English message into %s with the same placeholders', locale => {
+    const catalog = MESSAGES[locale];
+
+    expect(Object.keys(catalog).sort()).toEqual(Object.keys(MESSAGES.en).sort());
+    Object.entries(MESSAGES.en).forEach(([key, template]) => {
+      expect({ key, placeholders: placeholders(catalog[key]) }).toEqual({ key, placeholders: placeholders(template) });
+    });
+  });
+
+  it('fills in placeholders and falls back to English for other locales', () => {
+    expect(t('ja', 'watch_deleted', { watch_id: 'abc' })).toBe('空席の監視 abc を削除しました。');
+    expect(t('fr', 'watch_deleted', { watch_id: 'abc' })).toBe('Deleted availability watch abc.');
+  });
+});
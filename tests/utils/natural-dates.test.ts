@@ -0,0 +1,131 @@
+import dayjs from 'dayjs';
+import { interpretDate, interpretDateTime, interpretTime } from '../../src/utils/natural-dates.js';
+
+// Wednesday 15 July 2026, at noon in Tokyo
+const now = dayjs('2026-07-15T03:00:00Z');
+const zone = 'Asia/Tokyo';
+
+describe('interpretDate', () => {
+  it.each([
+    ['2026-08-01', '2026-08-01', '2026-08-01'],
+    ['today', '2026-07-15', '2026-07-15'],
+    ['tomorrow', '2026-07-16', '2026-07-16'],
+    ['明後日', '2026-07-17', '2026-07-17'],
+    ['wednesday', '2026-07-15', '2026-07-15'],
+    ['friday', '2026-07-17', '2026-07-17'],
+    ['this fri', '2026-07-17', '2026-07-17'],
+    ['monday', '2026-07-20', '2026-07-20'],
+    ['next friday', '2026-07-24', '2026-07-24'],
+    ['next wednesday', '2026-07-22', '2026-07-22'],
+    ['金曜日', '2026-07-17', '2026-07-17'],
+    ['来週の金曜', '2026-07-24', '2026-07-24'],
+    ['this weekend', '2026-07-18', '2026-07-19'],
+    ['next weekend', '2026-07-25', '2026-07-26'],
+    ['週末', '2026-07-18', '2026-07-19'],
+    ['this week', '2026-07-15', '2026-07-19'],
+    ['next week', '2026-07-20', '2026-07-26'],
+    ['来週', '2026-07-20', '2026-07-26'],
+    ['+3d', '2026-07-18', '2026-07-18'],
+    ['in 2 weeks', '2026-07-29', '2026-07-29'],
+    ['3日後', '2026-07-18', '2026-07-18'],
+  ])('reads "%s" relative to today', (input, start, end) => {
+    expect(interpretDate(input, zone, now)).toEqual({ start, end });
+  });
+
+  it.each([
+    ['july 20', '2026-07-20'],
+    ['Jul 20th, 2027', '2027-07-20'],
+    ['20 July', '2026-07-20'],
+    ['sept 5', '2026-09-05'],
+    ['march 3', '2027-03-03'],
+    ['7月20日', '2026-07-20'],
+    ['７月２０日', '2026-07-20'],
+    ['2026年12月24日', '2026-12-24'],
+    ['12月24日(木)', '2026-12-24'],
+    ['2026/8/1', '2026-08-01'],
+  ])('reads the month and day in "%s", in the next year once passed', (input, date) => {
+    expect(interpretDate(input, zone, now)).toEqual({ start: date, end: date });
+  });
+
+  it.each([
+    ['20/7', '2026-07-20'],
+    ['7/20', '2026-07-20'],
+    ['7/7', '2027-07-07'],
+    ['25.12.2026', '2026-12-25'],
+  ])('reads the numeric date "%s" when the order is clear', (input, date) => {
+    expect(interpretDate(input, zone, now)).toEqual({ start: date, end: date });
+  });
+
+  it.each(['7/8', '03/04/2027', '1.2'])('rejects the ambiguous numeric date "%s"', input => {
+    expect(() => interpretDate(input, zone, now)).toThrow('Ambiguous date');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(() => interpretDate('february 30', zone, now)).toThrow('is not a valid date');
+  });
+
+  it('leaves unrecognized input alone', () => {
+    expect(interpretDate('someday', zone, now)).toBeUndefined();
+  });
+
+  it('decides what today is in the reference time zone', () => {
+    // Still 14 July in New York
+    expect(interpretDate('tomorrow', 'America/New_York', now)).toEqual({ start: '2026-07-15', end: '2026-07-15' });
+  });
+});
+
+describe('interpretTime', () => {
+  it.each([
+    ['19:30', '19:30'],
+    ['7pm', '19:00'],
+    ['7:30 p.m.', '19:30'],
+    ['at 8pm', '20:00'],
+    ['７ＰＭ', '19:00'],
+    ['12am', '00:00'],
+    ['12pm', '12:00'],
+    ['noon', '12:00'],
+    ['正午', '12:00'],
+    ['19', '19:00'],
+    ['19h', '19:00'],
+    ["12 o'clock", '12:00'],
+    ['19時', '19:00'],
+    ['19時半', '19:30'],
+    ['19時15分', '19:15'],
+    ['0時', '00:00'],
+    ['午後7時', '19:00'],
+    ['午後12時', '12:00'],
+    ['午前11時', '11:00'],
+    ['夜7時', '19:00'],
+    ['夜11時半', '23:30'],
+  ])('reads "%s" as %s', (input, time) => {
+    expect(interpretTime(input)).toBe(time);
+  });
+
+  it.each(['7', '11h', "7 o'clock", '7時', '11時30分'])('rejects "%s" without am or pm', input => {
+    expect(() => interpretTime(input)).toThrow('Ambiguous time');
+  });
+
+  it.each(['夜12時', '夜1時'])('rejects "%s" on its own, as it is after midnight', input => {
+    expect(() => interpretTime(input)).toThrow('on the next day');
+  });
+
+  it.each(['13pm', '25時', '午後13時', 'later'])('leaves "%s" alone', input => {
+    expect(interpretTime(input)).toBeUndefined();
+  });
+});
+
+describe('interpretDateTime', () => {
+  it.each([
+    ['tomorrow 7pm', '2026-07-16', '19:00'],
+    ['next friday at 19:00', '2026-07-24', '19:00'],
+    ['明日19時', '2026-07-16', '19:00'],
+    ['金曜日の夜7時', '2026-07-17', '19:00'],
+  ])('reads "%s"', (input, date, time) => {
+    expect(interpretDateTime(input, zone, now)).toEqual({ date: { start: date, end: date }, time });
+  });
+
+  it('moves night times after midnight to the next day', () => {
+    expect(interpretDateTime('明日の夜12時', zone, now)).toEqual({ date: { start: '2026-07-17', end: '2026-07-17' }, time: '00:00' });
+    expect(interpretDateTime('金曜日の夜1時半', zone, now)).toEqual({ date: { start: '2026-07-18', end: '2026-07-18' }, time: '01:30' });
+  });
+});